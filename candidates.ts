@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { checkChemistry } from './chemistryChecks';
+import { analyzeCrystal, parseCrystalData } from './crystal';
+import { compareMetric, computeMeshMetrics, dot, getFaceTriangles, length, parseMeasurement, scale, sub } from './meshMetrics';
+import { ValidationIssue } from './modelValidation';
+import { AppMode } from './sessions';
+
+type Vec3 = [number, number, number];
+
+// --- Interfaces ---
+export interface ScorePart {
+    label: string;
+    score: number; // 0 (worst) to 1 (best)
+    weight: number;
+    detail: string;
+}
+
+export interface CandidateScore {
+    total: number; // 0-100, the weighted mean of the parts
+    parts: ScorePart[];
+}
+
+// A claimed value this far off (relative) scores zero; closer values score proportionally more
+const METRIC_ZERO_SCORE_ERROR = 0.5;
+// A label whose edge is this far off the common scale scores zero
+const LABEL_ZERO_SCORE_ERROR = 0.5;
+// Each schema or reference problem costs this much of the validity score
+const VALIDITY_COST_PER_ISSUE = 0.1;
+
+function scoreRelativeError(error: number, zeroAt: number): number {
+    return Math.max(0, 1 - error / zeroAt);
+}
+
+function scoreValidity(issues: ValidationIssue[]): ScorePart {
+    return {
+        label: 'Schema validity',
+        score: Math.max(0, 1 - issues.length * VALIDITY_COST_PER_ISSUE),
+        weight: 3,
+        detail: issues.length === 0 ? 'passes every check' : `${issues.length} problem(s)`,
+    };
+}
+
+/**
+ * How well claimed values agree with the ones computed from the model; unparseable claims are
+ * left out. Null when nothing could be compared.
+ */
+function scoreClaims(claims: { label: string, claimed: any, computed: number }[]): ScorePart | null {
+    const comparisons = claims
+        .map(({ label, claimed, computed }) => compareMetric(label, claimed, computed))
+        .filter(comparison => comparison.relativeError !== null);
+    if (comparisons.length === 0) return null;
+    const score = comparisons.reduce((total, comparison) => total + scoreRelativeError(comparison.relativeError!, METRIC_ZERO_SCORE_ERROR), 0) / comparisons.length;
+    const agreeing = comparisons.filter(comparison => comparison.agrees).length;
+    return { label: 'Analysis consistency', score, weight: 2, detail: `${agreeing} of ${comparisons.length} values match the model` };
+}
+
+function distanceToSegment(point: Vec3, a: Vec3, b: Vec3): number {
+    const ab = sub(b, a);
+    const ap = sub(point, a);
+    const lengthSquared = dot(ab, ab);
+    const t = lengthSquared > 0 ? Math.min(1, Math.max(0, dot(ap, ab) / lengthSquared)) : 0;
+    return length(sub(ap, scale(ab, t)));
+}
+
+/**
+ * The edges that outline faces, without the diagonals that only split a face into triangles.
+ */
+function getOutlineEdges(data: any): [Vec3, Vec3][] {
+    const vertices: Vec3[] = data.vertices;
+    const edges = new Map<string, [Vec3, Vec3]>();
+    (data.faces || []).forEach((face: any) => {
+        const counts = new Map<string, number>();
+        getFaceTriangles(face, vertices).forEach(([i0, i1, i2]) => {
+            [[i0, i1], [i1, i2], [i2, i0]].forEach(([a, b]) => {
+                const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+                counts.set(key, (counts.get(key) || 0) + 1);
+            });
+        });
+        counts.forEach((count, key) => {
+            if (count !== 1) return;
+            const [a, b] = key.split('_').map(Number);
+            edges.set(key, [vertices[a], vertices[b]]);
+        });
+    });
+    return [...edges.values()];
+}
+
+/**
+ * Matches each length label to the outline edge nearest its position and checks the edges share
+ * one scale, since the model only has to be proportional to the drawing. Angle labels and labels
+ * without a number are skipped. Null when fewer than two labels can be matched.
+ */
+function scoreLabelProportions(data: any): ScorePart | null {
+    const edges = getOutlineEdges(data);
+    if (edges.length === 0 || !Array.isArray(data.labels)) return null;
+
+    const ratios: number[] = [];
+    data.labels.forEach((label: any) => {
+        const position = label?.position;
+        if (typeof label?.text !== 'string' || label.text.includes('°')) return;
+        if (!Array.isArray(position) || position.length !== 3 || !position.every((c: any) => typeof c === 'number' && isFinite(c))) return;
+        const measurement = parseMeasurement(label.text);
+        if (!measurement || !(measurement.value > 0)) return;
+        let nearest = edges[0];
+        let nearestDistance = Infinity;
+        edges.forEach(edge => {
+            const distance = distanceToSegment(position as Vec3, edge[0], edge[1]);
+            if (distance < nearestDistance) {
+                nearest = edge;
+                nearestDistance = distance;
+            }
+        });
+        const edgeLength = Math.hypot(nearest[1][0] - nearest[0][0], nearest[1][1] - nearest[0][1], nearest[1][2] - nearest[0][2]);
+        ratios.push(edgeLength / measurement.value);
+    });
+    if (ratios.length < 2) return null;
+
+    const scale = [...ratios].sort((a, b) => a - b)[Math.floor(ratios.length / 2)];
+    if (!(scale > 0)) return { label: 'Proportions', score: 0, weight: 3, detail: 'labelled edges have no length' };
+    const scores = ratios.map(ratio => scoreRelativeError(Math.abs(ratio - scale) / scale, LABEL_ZERO_SCORE_ERROR));
+    const matching = scores.filter(score => score >= 0.9).length;
+    return {
+        label: 'Proportions',
+        score: scores.reduce((a, b) => a + b, 0) / scores.length,
+        weight: 3,
+        detail: `${matching} of ${ratios.length} labelled edges in proportion`,
+    };
+}
+
+function scoreGeometry(data: any): ScorePart[] {
+    const metrics = computeMeshMetrics(data);
+    const parts: ScorePart[] = [{
+        label: 'Watertight',
+        score: metrics.isClosed ? (metrics.isConsistentlyOriented ? 1 : 0.5) : 0,
+        weight: 2,
+        detail: metrics.isClosed ? (metrics.isConsistentlyOriented ? 'closed and consistently oriented' : 'closed, but faces wind both ways') : 'has gaps',
+    }];
+    const proportions = scoreLabelProportions(data);
+    if (proportions) parts.push(proportions);
+    const claims = scoreClaims([
+        { label: 'Volume', claimed: data.analysis?.volume, computed: metrics.volume },
+        { label: 'Surface Area', claimed: data.analysis?.surfaceArea, computed: metrics.surfaceArea },
+    ]);
+    if (claims) parts.push(claims);
+    return parts;
+}
+
+function scoreChemistry(data: any): ScorePart[] {
+    const report = checkChemistry(data);
+    const errors = report.issues.filter(issue => issue.severity === 'error').length;
+    const warnings = report.issues.length - errors;
+    return [{
+        label: 'Structure check',
+        score: 1 / (1 + errors + warnings / 2),
+        weight: 2,
+        detail: report.issues.length === 0 ? 'bond lengths, valences and angles look reasonable' : `${errors} error(s), ${warnings} warning(s)`,
+    }];
+}
+
+function scoreCrystal(data: any): ScorePart[] {
+    let analysis;
+    try {
+        analysis = analyzeCrystal(parseCrystalData(data));
+    } catch (error) {
+        return [{ label: 'Unit cell', score: 0, weight: 2, detail: error instanceof Error ? error.message : 'invalid cell' }];
+    }
+    // A packing fraction may be given as 0.74 rather than 74%
+    const claimedPacking = parseMeasurement(data.analysis?.packingEfficiency);
+    const packingPercent = claimedPacking && !String(data.analysis.packingEfficiency).includes('%') && claimedPacking.value <= 1
+        ? String(claimedPacking.value * 100)
+        : data.analysis?.packingEfficiency;
+    const claims = scoreClaims([
+        { label: 'Packing Efficiency', claimed: packingPercent, computed: analysis.packingEfficiency * 100 },
+        ...(analysis.density !== null ? [{ label: 'Density', claimed: data.analysis?.density, computed: analysis.density }] : []),
+    ]);
+    return claims ? [claims] : [];
+}
+
+const MODE_SCORERS: { [mode in AppMode]: (data: any) => ScorePart[] } = {
+    geometry: scoreGeometry,
+    chemistry: scoreChemistry,
+    crystal: scoreCrystal,
+};
+
+/**
+ * Scores a candidate model from what can be checked locally: its validation issues, and for
+ * each mode the properties computed from the model itself against what the AI claimed.
+ */
+export function scoreCandidate(mode: AppMode, data: any, issues: ValidationIssue[]): CandidateScore {
+    let parts = [scoreValidity(issues)];
+    try {
+        parts = parts.concat(MODE_SCORERS[mode](data));
+    } catch (error) {
+        // Data too broken to measure scores nothing for the parts that couldn't run
+        parts.push({ label: 'Model checks', score: 0, weight: 4, detail: error instanceof Error ? error.message : 'could not be measured' });
+    }
+    const weight = parts.reduce((total, part) => total + part.weight, 0);
+    const total = parts.reduce((sum, part) => sum + part.score * part.weight, 0) / weight;
+    return { total: Math.round(total * 100), parts };
+}
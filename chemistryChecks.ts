@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { COVALENT_RADII, getExpectedValence, normalizeElement, formatElementSymbol, parseBondOrder } from './elements';
+
+// --- Interfaces ---
+export type ChemistryIssueKind = 'bond_length' | 'valence' | 'angle';
+
+export interface ChemistryIssue {
+    kind: ChemistryIssueKind;
+    severity: 'warning' | 'error';
+    message: string;
+    atomIndices: number[];
+    bondIndex?: number;
+}
+
+export interface BondLengthCheck {
+    bondIndex: number;
+    length: number;
+    reference: number;
+    deviation: number;
+}
+
+export interface AngleCheck {
+    atomIndex: number;
+    atomsInvolvedIndices: number[];
+    claimed: number | null;
+    computed: number;
+    deviation: number | null;
+}
+
+export interface ChemistryReport {
+    issues: ChemistryIssue[];
+    bondChecks: BondLengthCheck[];
+    angleChecks: AngleCheck[];
+}
+
+// --- Tolerances ---
+export const BOND_LENGTH_TOLERANCE = 0.12; // Å; beyond this a bond is flagged
+export const BOND_LENGTH_ERROR = 0.3; // Å; beyond this the bond is flagged as an error
+export const ANGLE_TOLERANCE = 5; // degrees between the claimed and recomputed angle
+
+// Reference lengths in Å keyed by the alphabetically sorted element pair and bond order.
+const REFERENCE_BOND_LENGTHS: { [key: string]: number } = {
+    'H-H-1': 0.74,
+    'C-H-1': 1.09,
+    'C-C-1': 1.54, 'C-C-1.5': 1.40, 'C-C-2': 1.34, 'C-C-3': 1.20,
+    'C-N-1': 1.47, 'C-N-1.5': 1.34, 'C-N-2': 1.28, 'C-N-3': 1.16,
+    'C-O-1': 1.43, 'C-O-2': 1.23, 'C-O-3': 1.13,
+    'C-F-1': 1.35, 'C-CL-1': 1.77, 'BR-C-1': 1.94, 'C-I-1': 2.14,
+    'C-S-1': 1.82, 'C-S-2': 1.60, 'C-P-1': 1.84, 'C-SI-1': 1.87,
+    'H-N-1': 1.01, 'N-N-1': 1.45, 'N-N-2': 1.25, 'N-N-3': 1.10,
+    'N-O-1': 1.40, 'N-O-2': 1.21,
+    'H-O-1': 0.96, 'O-O-1': 1.48, 'O-O-2': 1.21,
+    'H-S-1': 1.34, 'O-S-1': 1.58, 'O-S-2': 1.43,
+    'H-P-1': 1.44, 'O-P-1': 1.63, 'O-P-2': 1.50,
+    'F-H-1': 0.92, 'CL-H-1': 1.27, 'BR-H-1': 1.41, 'H-I-1': 1.61,
+    'B-H-1': 1.19, 'B-F-1': 1.31, 'H-SI-1': 1.48, 'O-SI-1': 1.61,
+};
+
+/**
+ * Reference length for a bond: the tabulated value where one exists, otherwise the sum of
+ * covalent radii shortened for multiple bonds with Pauling's relation (d_n = d_1 - 0.71 log10 n).
+ */
+export function getReferenceBondLength(elementA: string, elementB: string, order: number): number | null {
+    const [a, b] = [normalizeElement(elementA), normalizeElement(elementB)].sort();
+    const tabulated = REFERENCE_BOND_LENGTHS[`${a}-${b}-${order}`];
+    if (tabulated) return tabulated;
+
+    const radiusA = COVALENT_RADII[a];
+    const radiusB = COVALENT_RADII[b];
+    if (radiusA === undefined || radiusB === undefined) return null;
+    return radiusA + radiusB - 0.71 * Math.log10(order);
+}
+
+type Vec3 = [number, number, number];
+
+function isVector(v: any): v is Vec3 {
+    return Array.isArray(v) && v.length === 3 && v.every(c => typeof c === 'number' && isFinite(c));
+}
+
+function distance(a: Vec3, b: Vec3): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Angle at `center` between `a` and `b`, in degrees.
+ */
+export function computeAngle(a: Vec3, center: Vec3, b: Vec3): number {
+    const u = [a[0] - center[0], a[1] - center[1], a[2] - center[2]];
+    const v = [b[0] - center[0], b[1] - center[1], b[2] - center[2]];
+    const lengths = Math.hypot(u[0], u[1], u[2]) * Math.hypot(v[0], v[1], v[2]);
+    if (lengths === 0) return 0;
+    const cos = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / lengths;
+    return Math.acos(Math.min(1, Math.max(-1, cos))) * 180 / Math.PI;
+}
+
+function parseAngle(text: any): number | null {
+    if (typeof text === 'number') return text;
+    if (typeof text !== 'string') return null;
+    const match = text.match(/-?\d+(?:\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+}
+
+function atomLabel(atoms: any[], index: number): string {
+    return `${formatElementSymbol(atoms[index]?.element || '?')}${index + 1}`;
+}
+
+/**
+ * Checks a chemistry JSON model against reference bond lengths, per-element valence and the
+ * angles it claims in `atoms[].bondAngles`, recomputing everything from `position`.
+ */
+export function checkChemistry(data: any): ChemistryReport {
+    const atoms: any[] = Array.isArray(data?.atoms) ? data.atoms : [];
+    const bonds: any[] = Array.isArray(data?.bonds) ? data.bonds : [];
+    const report: ChemistryReport = { issues: [], bondChecks: [], angleChecks: [] };
+    const bondOrderSums = atoms.map(() => 0);
+
+    // 1. Bond lengths
+    bonds.forEach((bond, bondIndex) => {
+        const start = atoms[bond?.start];
+        const end = atoms[bond?.end];
+        if (!start || !end) return;
+        const order = parseBondOrder(bond.type);
+        bondOrderSums[bond.start] += order;
+        bondOrderSums[bond.end] += order;
+
+        if (!isVector(start.position) || !isVector(end.position)) return;
+        const length = distance(start.position, end.position);
+        const reference = getReferenceBondLength(start.element, end.element, order);
+        if (reference === null) return;
+
+        const deviation = length - reference;
+        report.bondChecks.push({ bondIndex, length, reference, deviation });
+        if (Math.abs(deviation) > BOND_LENGTH_TOLERANCE) {
+            report.issues.push({
+                kind: 'bond_length',
+                severity: Math.abs(deviation) > BOND_LENGTH_ERROR ? 'error' : 'warning',
+                message: `${atomLabel(atoms, bond.start)}–${atomLabel(atoms, bond.end)} ${bond.type} bond is ${length.toFixed(2)} Å; expected about ${reference.toFixed(2)} Å.`,
+                atomIndices: [bond.start, bond.end],
+                bondIndex,
+            });
+        }
+    });
+
+    // 2. Valence
+    atoms.forEach((atom, index) => {
+        const valence = getExpectedValence(atom?.element, typeof atom?.charge === 'number' ? atom.charge : 0);
+        if (!valence) return; // Metals and unlisted elements are not checked
+        const sum = bondOrderSums[index];
+        if (sum > valence.max) {
+            report.issues.push({
+                kind: 'valence',
+                severity: 'error',
+                message: `${atomLabel(atoms, index)} has ${sum} bonds' worth of valence; ${formatElementSymbol(atom.element)} can form at most ${valence.max}.`,
+                atomIndices: [index],
+            });
+        } else if (!valence.typical.includes(sum) && atoms.length > 1) {
+            report.issues.push({
+                kind: 'valence',
+                severity: 'warning',
+                message: `${atomLabel(atoms, index)} has a bond order sum of ${sum}; ${formatElementSymbol(atom.element)} usually has ${valence.typical.join(' or ')}. Check for missing atoms or a charge.`,
+                atomIndices: [index],
+            });
+        }
+    });
+
+    // 3. Claimed bond angles
+    atoms.forEach((atom, atomIndex) => {
+        (Array.isArray(atom?.bondAngles) ? atom.bondAngles : []).forEach((angleInfo: any) => {
+            const indices = angleInfo?.atomsInvolvedIndices;
+            if (!Array.isArray(indices) || indices.length !== 3) return;
+            const points = indices.map((i: number) => atoms[i]?.position);
+            if (!points.every(isVector)) return;
+
+            const computed = computeAngle(points[0], points[1], points[2]);
+            const claimed = parseAngle(angleInfo.angle);
+            const deviation = claimed === null ? null : computed - claimed;
+            report.angleChecks.push({ atomIndex, atomsInvolvedIndices: indices, claimed, computed, deviation });
+
+            if (deviation !== null && Math.abs(deviation) > ANGLE_TOLERANCE) {
+                const names = indices.map((i: number) => atomLabel(atoms, i)).join('–');
+                report.issues.push({
+                    kind: 'angle',
+                    severity: 'warning',
+                    message: `${names} is listed as ${angleInfo.angle} but measures ${computed.toFixed(1)}° in the model.`,
+                    atomIndices: indices,
+                });
+            }
+        });
+    });
+
+    return report;
+}
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RawAtom, RawBond, inferBonds, buildChemistryData, MAX_IMPORTED_ATOMS } from './molecule';
+import { formatElementSymbol, parseBondOrder } from './elements';
+
+export type StructureFormat = 'mol' | 'sdf' | 'xyz' | 'pdb';
+
+export const STRUCTURE_FILE_EXTENSIONS = ['.mol', '.sdf', '.xyz', '.pdb'];
+
+export function getStructureFormat(fileName: string): StructureFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    return extension === 'mol' || extension === 'sdf' || extension === 'xyz' || extension === 'pdb' ? extension : null;
+}
+
+function parseCoordinate(text: string, label: string): number {
+    const value = parseFloat(text);
+    if (!isFinite(value)) throw new Error(`Invalid ${label} coordinate "${text.trim()}".`);
+    return value;
+}
+
+// --- XYZ ---
+function parseXyz(text: string): { atoms: RawAtom[], bonds: RawBond[] | null, name: string } {
+    const lines = text.split(/\r?\n/);
+    const count = parseInt(lines[0], 10);
+    if (!isFinite(count) || count <= 0) throw new Error('XYZ file must start with the number of atoms.');
+
+    const atoms: RawAtom[] = [];
+    for (let i = 0; i < count; i++) {
+        const line = lines[i + 2];
+        if (line === undefined) throw new Error(`XYZ file lists ${count} atoms but only ${i} were found.`);
+        const [element, x, y, z] = line.trim().split(/\s+/);
+        atoms.push({
+            element: element.replace(/[^A-Za-z]/g, ''),
+            position: [parseCoordinate(x, 'x'), parseCoordinate(y, 'y'), parseCoordinate(z, 'z')],
+        });
+    }
+    return { atoms, bonds: null, name: (lines[1] || '').trim() };
+}
+
+// --- MDL Molfile V2000 / SDF ---
+function parseMolBlock(lines: string[]): { atoms: RawAtom[], bonds: RawBond[] | null, name: string } {
+    const countsLine = lines[3] || '';
+    if (countsLine.includes('V3000')) throw new Error('V3000 Molfiles are not supported; please save as V2000.');
+
+    const atomCount = parseInt(countsLine.substring(0, 3), 10);
+    const bondCount = parseInt(countsLine.substring(3, 6), 10);
+    if (!isFinite(atomCount) || !isFinite(bondCount)) throw new Error('Molfile counts line is missing or malformed.');
+
+    const atoms: RawAtom[] = [];
+    for (let i = 0; i < atomCount; i++) {
+        const line = lines[4 + i];
+        if (line === undefined) throw new Error('Molfile atom block is incomplete.');
+        // Fixed columns: x, y, z are 10 characters each, the symbol starts at column 32
+        const element = line.length >= 34 ? line.substring(31, 34).trim() : line.trim().split(/\s+/)[3];
+        atoms.push({
+            element,
+            position: [
+                parseCoordinate(line.substring(0, 10), 'x'),
+                parseCoordinate(line.substring(10, 20), 'y'),
+                parseCoordinate(line.substring(20, 30), 'z'),
+            ],
+        });
+    }
+
+    const bonds: RawBond[] = [];
+    for (let i = 0; i < bondCount; i++) {
+        const line = lines[4 + atomCount + i];
+        if (line === undefined) throw new Error('Molfile bond block is incomplete.');
+        const start = parseInt(line.substring(0, 3), 10) - 1;
+        const end = parseInt(line.substring(3, 6), 10) - 1;
+        const type = parseInt(line.substring(6, 9), 10);
+        if (!(start >= 0 && start < atomCount && end >= 0 && end < atomCount)) {
+            throw new Error(`Molfile bond ${i + 1} refers to an atom that does not exist.`);
+        }
+        // Type 4 is aromatic; query types (5-8) are treated as single bonds
+        bonds.push({ start, end, order: type === 2 ? 2 : type === 3 ? 3 : type === 4 ? 1.5 : 1 });
+    }
+
+    return { atoms, bonds: bondCount > 0 ? bonds : null, name: (lines[0] || '').trim() };
+}
+
+function parseSdf(text: string): { atoms: RawAtom[], bonds: RawBond[] | null, name: string } {
+    // Only the first record of a multi-molecule SD file is imported
+    const record = text.split(/^\$\$\$\$/m)[0];
+    const lines = record.split(/\r?\n/);
+    const result = parseMolBlock(lines);
+
+    const nameField = record.match(/^>\s*<(?:PUBCHEM_IUPAC_NAME|NAME|IUPAC_NAME|Name)>\s*\r?\n(.+)$/m);
+    if (nameField) result.name = nameField[1].trim();
+    return result;
+}
+
+// --- PDB ---
+function parsePdb(text: string): { atoms: RawAtom[], bonds: RawBond[] | null, name: string } {
+    const lines = text.split(/\r?\n/);
+    const atoms: RawAtom[] = [];
+    const serialToIndex = new Map<number, number>();
+    const bondCounts = new Map<string, number>();
+    let name = '';
+
+    lines.forEach(line => {
+        const record = line.substring(0, 6).trim();
+        if (record === 'ATOM' || record === 'HETATM') {
+            const serial = parseInt(line.substring(6, 11), 10);
+            // Element columns 77-78; older files only have the atom name in columns 13-16
+            let element = line.substring(76, 78).trim();
+            if (!element) element = line.substring(12, 16).trim().replace(/[^A-Za-z]/g, '').substring(0, 1);
+            serialToIndex.set(serial, atoms.length);
+            atoms.push({
+                element,
+                position: [
+                    parseCoordinate(line.substring(30, 38), 'x'),
+                    parseCoordinate(line.substring(38, 46), 'y'),
+                    parseCoordinate(line.substring(46, 54), 'z'),
+                ],
+            });
+        } else if (record === 'CONECT') {
+            const fields = line.substring(6).match(/.{1,5}/g) || [];
+            const serials = fields.map(f => parseInt(f, 10)).filter(n => isFinite(n));
+            const [from, ...targets] = serials;
+            targets.forEach(to => {
+                // Each bond is listed from both ends; a repeated target marks a multiple bond
+                const key = `${from}>${to}`;
+                bondCounts.set(key, (bondCounts.get(key) || 0) + 1);
+            });
+        } else if ((record === 'COMPND' || record === 'TITLE' || record === 'HETNAM') && !name) {
+            name = line.substring(10).replace(/^\s*(MOLECULE:)?\s*/, '').replace(/;\s*$/, '').trim();
+        }
+    });
+
+    const pairs = new Map<string, number>();
+    bondCounts.forEach((count, key) => {
+        const [from, to] = key.split('>').map(Number);
+        const pair = from < to ? `${from}_${to}` : `${to}_${from}`;
+        pairs.set(pair, Math.max(pairs.get(pair) || 0, count));
+    });
+
+    const bonds: RawBond[] = [];
+    pairs.forEach((count, pair) => {
+        const [a, b] = pair.split('_').map(Number);
+        const start = serialToIndex.get(a);
+        const end = serialToIndex.get(b);
+        if (start === undefined || end === undefined) return;
+        bonds.push({ start, end, order: Math.min(count, 3) });
+    });
+
+    return { atoms, bonds: bonds.length > 0 ? bonds : null, name };
+}
+
+/**
+ * Parses a MOL/SDF, XYZ or PDB file into the chemistry JSON schema. Bonds are inferred from
+ * covalent radii when the file does not list any.
+ */
+export function parseStructureFile(text: string, fileName: string): any {
+    const format = getStructureFormat(fileName);
+    let parsed: { atoms: RawAtom[], bonds: RawBond[] | null, name: string };
+
+    switch (format) {
+        case 'xyz': parsed = parseXyz(text); break;
+        case 'mol': parsed = parseMolBlock(text.split(/\r?\n/)); break;
+        case 'sdf': parsed = parseSdf(text); break;
+        case 'pdb': parsed = parsePdb(text); break;
+        default: throw new Error('Unsupported structure file. Please use .mol, .sdf, .xyz or .pdb.');
+    }
+
+    if (parsed.atoms.length === 0) throw new Error('No atoms were found in the file.');
+    if (parsed.atoms.length > MAX_IMPORTED_ATOMS) {
+        throw new Error(`This structure has ${parsed.atoms.length} atoms; only molecules up to ${MAX_IMPORTED_ATOMS} atoms can be shown.`);
+    }
+    parsed.atoms.forEach((atom, index) => {
+        if (!atom.element) throw new Error(`Atom ${index + 1} has no element symbol.`);
+        atom.element = formatElementSymbol(atom.element);
+    });
+
+    const bonds = parsed.bonds || inferBonds(parsed.atoms);
+    const fallbackName = fileName.replace(/\.[^.]+$/, '');
+    const data = buildChemistryData(parsed.atoms, bonds, parsed.name || fallbackName);
+    data.analysis.source = fileName;
+    return data;
+}
+
+// --- Writers ---
+function fixed(value: number, width: number, decimals: number): string {
+    return value.toFixed(decimals).padStart(width);
+}
+
+function atomPosition(atom: any): number[] {
+    return Array.isArray(atom.position) && atom.position.length === 3 ? atom.position : [0, 0, 0];
+}
+
+function moleculeName(data: any): string {
+    return String(data?.analysis?.name || 'Molecule').replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Writes chemistry JSON as an MDL Molfile (V2000). Bond types map to Molfile bond orders
+ * 1-3, with aromatic bonds written as type 4.
+ */
+export function writeMolfile(data: any): string {
+    const atoms: any[] = data.atoms || [];
+    const bonds: any[] = (data.bonds || []).filter((b: any) => atoms[b.start] && atoms[b.end]);
+    const lines = [
+        moleculeName(data).substring(0, 80),
+        '  3Space    3D',
+        '',
+        `${String(atoms.length).padStart(3)}${String(bonds.length).padStart(3)}  0  0  0  0  0  0  0  0999 V2000`,
+    ];
+
+    atoms.forEach(atom => {
+        const [x, y, z] = atomPosition(atom);
+        const symbol = formatElementSymbol(String(atom.element || 'C')).padEnd(3);
+        lines.push(`${fixed(x, 10, 4)}${fixed(y, 10, 4)}${fixed(z, 10, 4)} ${symbol} 0  0  0  0  0  0  0  0  0  0  0  0`);
+    });
+
+    bonds.forEach(bond => {
+        const order = parseBondOrder(bond.type);
+        const molType = order === 1.5 ? 4 : order;
+        lines.push(`${String(bond.start + 1).padStart(3)}${String(bond.end + 1).padStart(3)}${String(molType).padStart(3)}  0  0  0  0`);
+    });
+
+    lines.push('M  END');
+    return lines.join('\n') + '\n';
+}
+
+export function writeXyz(data: any): string {
+    const atoms: any[] = data.atoms || [];
+    const lines = [String(atoms.length), moleculeName(data)];
+    atoms.forEach(atom => {
+        const [x, y, z] = atomPosition(atom);
+        lines.push(`${formatElementSymbol(String(atom.element || 'C')).padEnd(2)} ${fixed(x, 12, 6)} ${fixed(y, 12, 6)} ${fixed(z, 12, 6)}`);
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes chemistry JSON as a PDB file with HETATM records. Bonds are written as CONECT
+ * records, listing a partner once per unit of bond order so double and triple bonds survive.
+ */
+export function writePdb(data: any): string {
+    const atoms: any[] = data.atoms || [];
+    const bonds: any[] = data.bonds || [];
+    const lines = [`COMPND    ${moleculeName(data).substring(0, 70)}`];
+
+    const elementCounts: { [element: string]: number } = {};
+    atoms.forEach((atom, index) => {
+        const element = formatElementSymbol(String(atom.element || 'C'));
+        elementCounts[element] = (elementCounts[element] || 0) + 1;
+        const atomName = `${element.toUpperCase()}${elementCounts[element]}`.substring(0, 4);
+        // Single-letter elements start the atom name in column 14
+        const nameField = element.length === 1 ? ` ${atomName.padEnd(3)}` : atomName.padEnd(4);
+        const [x, y, z] = atomPosition(atom);
+        lines.push(
+            'HETATM' + String(index + 1).padStart(5) + ' ' + nameField + ' ' + 'UNL' + ' A' + '1'.padStart(4) + '    '
+            + fixed(x, 8, 3) + fixed(y, 8, 3) + fixed(z, 8, 3) + '  1.00' + '  0.00' + ' '.repeat(10)
+            + element.toUpperCase().padStart(2)
+        );
+    });
+
+    const partners: number[][] = atoms.map(() => []);
+    bonds.forEach(bond => {
+        if (!atoms[bond.start] || !atoms[bond.end]) return;
+        const repeats = Math.max(1, Math.round(parseBondOrder(bond.type)));
+        for (let i = 0; i < repeats; i++) {
+            partners[bond.start].push(bond.end + 1);
+            partners[bond.end].push(bond.start + 1);
+        }
+    });
+    partners.forEach((list, index) => {
+        for (let i = 0; i < list.length; i += 4) {
+            const fields = list.slice(i, i + 4).map(serial => String(serial).padStart(5)).join('');
+            lines.push(`CONECT${String(index + 1).padStart(5)}${fields}`);
+        }
+    });
+
+    lines.push('END');
+    return lines.join('\n') + '\n';
+}
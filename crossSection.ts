@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { cross, dot, getFaceTriangles, normalize, sub } from './meshMetrics';
+
+type Vec3 = [number, number, number];
+type Vec2 = [number, number];
+
+/** A region of the section: an outer boundary and the holes inside it, in plane coordinates. */
+export interface SectionPolygon {
+    outer: Vec2[];
+    holes: Vec2[][];
+}
+
+/**
+ * The intersection of a plane with the geometry model, in model units. `u`, `v` and `normal`
+ * form a right-handed basis at `origin`, and the polygons are given in (u, v) coordinates.
+ */
+export interface CrossSection {
+    origin: Vec3;
+    normal: Vec3;
+    u: Vec3;
+    v: Vec3;
+    polygons: SectionPolygon[];
+    openChains: Vec3[][]; // cut edges that don't close up, from surfaces with gaps
+    area: number;
+    perimeter: number;
+}
+
+// Signed distances this close to zero, relative to the model size, count as on the plane
+const PLANE_EPSILON = 1e-9;
+// Cut points are merged when they round to the same point at this fraction of the model size
+const WELD_FRACTION = 1e-7;
+
+/**
+ * Two unit vectors spanning the plane with the given normal, chosen so that u × v = normal.
+ */
+export function getPlaneBasis(normal: Vec3): [Vec3, Vec3] {
+    const n = normalize(normal);
+    // Start from the world axis least aligned with the normal
+    const axis: Vec3 = Math.abs(n[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    const u = normalize(cross(axis, n));
+    const v = cross(n, u);
+    return [u, v];
+}
+
+function signedArea(polygon: Vec2[]): number {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const [x0, y0] = polygon[i];
+        const [x1, y1] = polygon[(i + 1) % polygon.length];
+        area += x0 * y1 - x1 * y0;
+    }
+    return area / 2;
+}
+
+function containsPoint(polygon: Vec2[], [x, y]: Vec2): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+function pathLength(points: Vec3[], closed: boolean): number {
+    let total = 0;
+    const count = closed ? points.length : points.length - 1;
+    for (let i = 0; i < count; i++) {
+        total += Math.hypot(...sub(points[(i + 1) % points.length], points[i]));
+    }
+    return total;
+}
+
+// Triangle edges cut the faces of the solid into pieces, so a square section arrives as eight points
+function removeCollinearPoints(loop: Vec3[], size: number): Vec3[] {
+    const tolerance = PLANE_EPSILON * size * size;
+    return loop.filter((p, i) => {
+        const previous = loop[(i + loop.length - 1) % loop.length];
+        const next = loop[(i + 1) % loop.length];
+        return Math.hypot(...cross(sub(p, previous), sub(next, p))) > tolerance;
+    });
+}
+
+/**
+ * Cuts every triangle of the model with the plane through `point` with normal `normal`, chains
+ * the cut segments into loops and measures the enclosed region. Loops nested an odd number of
+ * times are holes, so the area of a hollow solid's section excludes the cavity; the perimeter
+ * includes every loop.
+ */
+export function computeCrossSection(data: any, point: Vec3, normal: Vec3): CrossSection {
+    const vertices: Vec3[] = Array.isArray(data?.vertices) ? data.vertices : [];
+    const faceGroups: any[] = Array.isArray(data?.faces) ? data.faces : [];
+    const n = normalize(normal);
+    const [u, v] = getPlaneBasis(n);
+
+    const triangles = faceGroups.flatMap(faceGroup => getFaceTriangles(faceGroup, vertices));
+    const used = new Set(triangles.flat());
+    const min: Vec3 = [Infinity, Infinity, Infinity];
+    const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+    used.forEach(i => vertices[i].forEach((c, axis) => {
+        min[axis] = Math.min(min[axis], c);
+        max[axis] = Math.max(max[axis], c);
+    }));
+    const size = used.size > 0 ? Math.max(...sub(max, min)) || 1 : 1;
+
+    const distances = new Map<number, number>();
+    used.forEach(i => {
+        const d = dot(sub(vertices[i], point), n);
+        distances.set(i, Math.abs(d) < PLANE_EPSILON * size ? 0 : d);
+    });
+
+    // Points on the plane count as above it, so an edge lying in the plane is cut once, by the
+    // triangle below it, rather than by both neighbours. A plane through the bottom of the model
+    // has nothing below it, so there they count as below instead, the same way a plane through
+    // the top picks up the top face.
+    const nothingBelow = [...distances.values()].every(d => d >= 0);
+    const isAbove = (d: number) => nothingBelow ? d > 0 : d >= 0;
+    const weld = WELD_FRACTION * size;
+    const points = new Map<string, Vec3>();
+    const keyFor = (p: Vec3) => {
+        const key = p.map(c => Math.round(c / weld)).join(',');
+        if (!points.has(key)) points.set(key, p);
+        return key;
+    };
+    const cutEdge = (a: number, b: number): Vec3 => {
+        // Always interpolate from the lower index so neighbouring triangles get the same point
+        if (a > b) [a, b] = [b, a];
+        const da = distances.get(a)!, db = distances.get(b)!;
+        if (da === 0) return vertices[a];
+        const t = da / (da - db);
+        const pa = vertices[a], pb = vertices[b];
+        return [pa[0] + t * (pb[0] - pa[0]), pa[1] + t * (pb[1] - pa[1]), pa[2] + t * (pb[2] - pa[2])];
+    };
+
+    const segments = new Map<string, [string, string]>();
+    triangles.forEach(triangle => {
+        const cuts: string[] = [];
+        [[0, 1], [1, 2], [2, 0]].forEach(([i, j]) => {
+            const above = isAbove(distances.get(triangle[i])!);
+            if (above !== isAbove(distances.get(triangle[j])!)) cuts.push(keyFor(cutEdge(triangle[i], triangle[j])));
+        });
+        if (cuts.length !== 2 || cuts[0] === cuts[1]) return;
+        // Duplicated triangles would otherwise add the same segment twice
+        const segmentKey = cuts[0] < cuts[1] ? `${cuts[0]}|${cuts[1]}` : `${cuts[1]}|${cuts[0]}`;
+        segments.set(segmentKey, [cuts[0], cuts[1]]);
+    });
+
+    const adjacency = new Map<string, string[]>();
+    segments.forEach(([a, b], segmentKey) => {
+        if (!adjacency.has(a)) adjacency.set(a, []);
+        if (!adjacency.has(b)) adjacency.set(b, []);
+        adjacency.get(a)!.push(segmentKey);
+        adjacency.get(b)!.push(segmentKey);
+    });
+
+    const visited = new Set<string>();
+    const walk = (start: string): string[] => {
+        const path = [start];
+        let current = start;
+        while (true) {
+            const next = (adjacency.get(current) || []).find(segmentKey => !visited.has(segmentKey));
+            if (!next) return path;
+            visited.add(next);
+            const [a, b] = segments.get(next)!;
+            current = a === current ? b : a;
+            path.push(current);
+        }
+    };
+
+    const loops: Vec3[][] = [];
+    const openChains: Vec3[][] = [];
+    // Chains that end somewhere start from their ends; everything left over is a closed loop
+    adjacency.forEach((segmentKeys, key) => {
+        if (segmentKeys.length % 2 === 1 && segmentKeys.some(s => !visited.has(s))) {
+            openChains.push(walk(key).map(k => points.get(k)!));
+        }
+    });
+    adjacency.forEach((segmentKeys, key) => {
+        if (!segmentKeys.some(s => !visited.has(s))) return;
+        const path = walk(key);
+        if (path[path.length - 1] === path[0]) {
+            path.pop();
+            const loop = removeCollinearPoints(path.map(k => points.get(k)!), size);
+            if (loop.length >= 3) loops.push(loop);
+        } else {
+            openChains.push(path.map(k => points.get(k)!));
+        }
+    });
+
+    const toPlane = (p: Vec3): Vec2 => {
+        const d = sub(p, point);
+        return [dot(d, u), dot(d, v)];
+    };
+    const flatLoops = loops.map(loop => {
+        const flat = loop.map(toPlane);
+        // Outer boundaries run counter-clockwise and holes clockwise, as shape triangulators expect
+        return signedArea(flat) < 0 ? flat.reverse() : flat;
+    });
+    const depths = flatLoops.map((loop, i) => flatLoops.filter((other, j) => j !== i && containsPoint(other, loop[0])).length);
+
+    const polygons: SectionPolygon[] = [];
+    const outerIndices: number[] = [];
+    flatLoops.forEach((loop, i) => {
+        if (depths[i] % 2 === 0) {
+            polygons.push({ outer: loop, holes: [] });
+            outerIndices.push(i);
+        }
+    });
+    let area = 0;
+    flatLoops.forEach((loop, i) => {
+        const loopArea = Math.abs(signedArea(loop));
+        if (depths[i] % 2 === 0) {
+            area += loopArea;
+            return;
+        }
+        area -= loopArea;
+        // A hole belongs to the innermost outer boundary around it
+        const owner = outerIndices
+            .filter(j => depths[j] === depths[i] - 1 && containsPoint(flatLoops[j], loop[0]))[0];
+        if (owner !== undefined) polygons[outerIndices.indexOf(owner)].holes.push([...loop].reverse());
+    });
+
+    const perimeter = loops.reduce((total, loop) => total + pathLength(loop, true), 0)
+        + openChains.reduce((total, chain) => total + pathLength(chain, false), 0);
+
+    return { origin: point, normal: n, u, v, polygons, openChains, area, perimeter };
+}
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ANION_ELEMENTS, ATOMIC_MASSES, COVALENT_RADII, IONIC_RADII, formatElementSymbol, normalizeElement } from './elements';
+
+type Vec3 = [number, number, number];
+
+// --- Interfaces ---
+export interface LatticeParameters {
+    a: number; // Å
+    b: number;
+    c: number;
+    alpha: number; // degrees, between b and c
+    beta: number; // between a and c
+    gamma: number; // between a and b
+}
+
+export interface CrystalAtom {
+    element: string; // upper case, as in the element tables
+    fractional: Vec3; // wrapped into [0, 1)
+}
+
+export interface CrystalStructure {
+    lattice: LatticeParameters;
+    atoms: CrystalAtom[];
+}
+
+export interface CrystalSite {
+    coordinationNumber: number;
+    neighbourDistance: number; // Å
+    neighbours: { [element: string]: number };
+}
+
+export interface CrystalAnalysis {
+    cellVolume: number; // Å^3
+    formula: string;
+    formulaUnits: number; // Z, formula units per cell
+    sites: CrystalSite[]; // one per atom of the cell
+    radii: { [element: string]: number }; // hard-sphere radii in Å, touching at the closest contact
+    packingEfficiency: number; // fraction of the cell filled by the spheres
+    density: number | null; // g/cm^3; null when an atomic mass is unknown
+}
+
+const AVOGADRO = 6.02214076e23;
+// Neighbours up to this fraction beyond the nearest distance share the first coordination shell
+const SHELL_TOLERANCE = 0.05;
+// Atoms closer than this in fractional coordinates are the same site listed twice
+const DUPLICATE_TOLERANCE = 1e-3;
+
+function wrap(value: number): number {
+    const wrapped = value - Math.floor(value);
+    // 0.9999999 and 1.0 are the corner at 0, not a separate site
+    return wrapped > 1 - DUPLICATE_TOLERANCE ? 0 : wrapped;
+}
+
+/**
+ * Validates the AI's crystal JSON and returns the cell with each site once: fractional
+ * coordinates are wrapped into the cell, so corner and face images listed separately collapse.
+ */
+export function parseCrystalData(data: any): CrystalStructure {
+    const lattice = data?.lattice;
+    const lengths = ['a', 'b', 'c'].map(key => lattice?.[key]);
+    const angles = ['alpha', 'beta', 'gamma'].map(key => lattice?.[key] ?? 90);
+    if (!lengths.every(value => typeof value === 'number' && isFinite(value) && value > 0)) {
+        throw new Error("Invalid JSON: 'lattice' needs positive edge lengths a, b and c.");
+    }
+    if (!angles.every(value => typeof value === 'number' && value > 0 && value < 180)) {
+        throw new Error("Invalid JSON: lattice angles must be between 0° and 180°.");
+    }
+    const parameters: LatticeParameters = { a: lengths[0], b: lengths[1], c: lengths[2], alpha: angles[0], beta: angles[1], gamma: angles[2] };
+    if (!(getCellVolume(parameters) > 0)) throw new Error('Invalid JSON: the lattice angles do not form a unit cell.');
+
+    if (!Array.isArray(data.basis) || data.basis.length === 0) throw new Error("Invalid JSON: 'basis' array not found or is empty.");
+    const atoms: CrystalAtom[] = [];
+    data.basis.forEach((atom: any) => {
+        const element = normalizeElement(atom?.element);
+        const position = atom?.fractional;
+        if (!element || !Array.isArray(position) || position.length !== 3 || !position.every((c: any) => typeof c === 'number' && isFinite(c))) {
+            console.warn('Skipping invalid basis atom:', atom);
+            return;
+        }
+        const fractional = position.map(wrap) as Vec3;
+        const duplicate = atoms.some(other => fractional.every((c, i) => {
+            const d = Math.abs(c - other.fractional[i]);
+            return Math.min(d, 1 - d) < DUPLICATE_TOLERANCE;
+        }));
+        if (!duplicate) atoms.push({ element, fractional });
+    });
+    if (atoms.length === 0) throw new Error('Invalid JSON: no valid atoms in the basis.');
+    return { lattice: parameters, atoms };
+}
+
+export function getCellVolume({ a, b, c, alpha, beta, gamma }: LatticeParameters): number {
+    const [ca, cb, cg] = [alpha, beta, gamma].map(angle => Math.cos(angle * Math.PI / 180));
+    return a * b * c * Math.sqrt(1 - ca * ca - cb * cb - cg * cg + 2 * ca * cb * cg);
+}
+
+/**
+ * Cartesian cell vectors in Å, in the usual orientation: a along x and b in the xy plane.
+ */
+export function getLatticeVectors({ a, b, c, alpha, beta, gamma }: LatticeParameters): [Vec3, Vec3, Vec3] {
+    const [ca, cb, cg] = [alpha, beta, gamma].map(angle => Math.cos(angle * Math.PI / 180));
+    const sg = Math.sin(gamma * Math.PI / 180);
+    const cy = (ca - cb * cg) / sg;
+    return [
+        [a, 0, 0],
+        [b * cg, b * sg, 0],
+        [c * cb, c * cy, c * Math.sqrt(Math.max(0, 1 - cb * cb - cy * cy))],
+    ];
+}
+
+export function fractionalToCartesian(fractional: Vec3, vectors: [Vec3, Vec3, Vec3]): Vec3 {
+    return [0, 1, 2].map(axis => fractional[0] * vectors[0][axis] + fractional[1] * vectors[1][axis] + fractional[2] * vectors[2][axis]) as Vec3;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+    return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * Coordination, packing and density from the cell alone. Neighbours are found across the
+ * surrounding cells, so sites on the cell boundary are counted correctly. Sphere radii keep the
+ * ratio of the ionic radii for ionic cells (covalent radii otherwise) and are scaled so the
+ * closest pair just touches; for a single element that is half the nearest-neighbour distance.
+ */
+export function analyzeCrystal(structure: CrystalStructure): CrystalAnalysis {
+    const { lattice, atoms } = structure;
+    const vectors = getLatticeVectors(lattice);
+    const cellVolume = getCellVolume(lattice);
+    const positions = atoms.map(atom => fractionalToCartesian(atom.fractional, vectors));
+
+    const elements = [...new Set(atoms.map(atom => atom.element))];
+    const isIonic = elements.length > 1
+        && elements.every(element => IONIC_RADII[element] !== undefined)
+        && elements.some(element => ANION_ELEMENTS.includes(element))
+        && elements.some(element => !ANION_ELEMENTS.includes(element));
+    const baseRadius = (element: string) => (isIonic ? IONIC_RADII[element] : COVALENT_RADII[element]) || 1;
+
+    // Enough neighbouring cells to reach past the nearest neighbours of a strongly skewed cell
+    const reach = 2;
+    const distances: { to: number, distance: number }[][] = atoms.map(() => []);
+    let radiusScale = Infinity;
+    positions.forEach((from, i) => {
+        for (let u = -reach; u <= reach; u++) {
+            for (let v = -reach; v <= reach; v++) {
+                for (let w = -reach; w <= reach; w++) {
+                    const shift = fractionalToCartesian([u, v, w], vectors);
+                    positions.forEach((to, j) => {
+                        const distance = Math.hypot(to[0] + shift[0] - from[0], to[1] + shift[1] - from[1], to[2] + shift[2] - from[2]);
+                        if (distance < 1e-6) return;
+                        distances[i].push({ to: j, distance });
+                        radiusScale = Math.min(radiusScale, distance / (baseRadius(atoms[i].element) + baseRadius(atoms[j].element)));
+                    });
+                }
+            }
+        }
+    });
+
+    const sites: CrystalSite[] = distances.map(list => {
+        if (list.length === 0) return { coordinationNumber: 0, neighbourDistance: 0, neighbours: {} };
+        const nearest = Math.min(...list.map(entry => entry.distance));
+        const shell = list.filter(entry => entry.distance <= nearest * (1 + SHELL_TOLERANCE));
+        const neighbours: { [element: string]: number } = {};
+        shell.forEach(entry => {
+            const element = atoms[entry.to].element;
+            neighbours[element] = (neighbours[element] || 0) + 1;
+        });
+        return { coordinationNumber: shell.length, neighbourDistance: nearest, neighbours };
+    });
+
+    // A lone atom in the cell has no neighbours to touch; its radius fills half the shortest edge
+    if (!isFinite(radiusScale)) radiusScale = Math.min(lattice.a, lattice.b, lattice.c) / 2 / baseRadius(atoms[0].element);
+    const radii: { [element: string]: number } = {};
+    elements.forEach(element => { radii[element] = baseRadius(element) * radiusScale; });
+    const sphereVolume = atoms.reduce((total, atom) => total + 4 / 3 * Math.PI * radii[atom.element] ** 3, 0);
+
+    const counts = elements.map(element => atoms.filter(atom => atom.element === element).length);
+    const formulaUnits = counts.reduce(greatestCommonDivisor);
+    const ordered = elements
+        .map((element, i) => ({ element, count: counts[i] / formulaUnits }))
+        .sort((x, y) => Number(ANION_ELEMENTS.includes(x.element)) - Number(ANION_ELEMENTS.includes(y.element)));
+    const formula = ordered.map(({ element, count }) => `${formatElementSymbol(element)}${count > 1 ? count : ''}`).join('');
+
+    const knownMasses = atoms.every(atom => ATOMIC_MASSES[atom.element] !== undefined);
+    const cellMass = atoms.reduce((total, atom) => total + (ATOMIC_MASSES[atom.element] || 0), 0);
+    // 1 Å^3 = 1e-24 cm^3
+    const density = knownMasses ? cellMass / AVOGADRO / (cellVolume * 1e-24) : null;
+
+    return { cellVolume, formula, formulaUnits, sites, radii, packingEfficiency: sphereVolume / cellVolume, density };
+}
+
+/**
+ * The coordination numbers by element, e.g. "Na 6, Cl 6", listing each distinct value once.
+ */
+export function describeCoordination(structure: CrystalStructure, analysis: CrystalAnalysis): string {
+    const byElement = new Map<string, Set<number>>();
+    structure.atoms.forEach((atom, i) => {
+        if (!byElement.has(atom.element)) byElement.set(atom.element, new Set());
+        byElement.get(atom.element)!.add(analysis.sites[i].coordinationNumber);
+    });
+    return [...byElement.entries()]
+        .map(([element, numbers]) => `${formatElementSymbol(element)} ${[...numbers].sort((a, b) => a - b).join('/')}`)
+        .join(', ');
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Element Data ---
+// Single-bond covalent radii in Å (Cordero et al., 2008; sp3 value for carbon).
+export const COVALENT_RADII: { [element: string]: number } = {
+    H: 0.31, HE: 0.28, LI: 1.28, BE: 0.96, B: 0.84, C: 0.76, N: 0.71, O: 0.66, F: 0.57, NE: 0.58,
+    NA: 1.66, MG: 1.41, AL: 1.21, SI: 1.11, P: 1.07, S: 1.05, CL: 1.02, AR: 1.06,
+    K: 2.03, CA: 1.76, TI: 1.60, CR: 1.39, MN: 1.39, FE: 1.32, CO: 1.26, NI: 1.24, CU: 1.32, ZN: 1.22,
+    GA: 1.22, GE: 1.20, AS: 1.19, SE: 1.20, BR: 1.20, KR: 1.16,
+    RB: 2.20, SR: 1.95, AG: 1.45, SN: 1.39, SB: 1.39, TE: 1.38, I: 1.39, XE: 1.40,
+    CS: 2.44, BA: 2.15, PT: 1.36, AU: 1.36, HG: 1.32, PB: 1.46,
+};
+
+// Standard atomic weights in g/mol (IUPAC, abridged).
+export const ATOMIC_MASSES: { [element: string]: number } = {
+    H: 1.008, HE: 4.003, LI: 6.94, BE: 9.012, B: 10.81, C: 12.011, N: 14.007, O: 15.999, F: 18.998, NE: 20.180,
+    NA: 22.990, MG: 24.305, AL: 26.982, SI: 28.085, P: 30.974, S: 32.06, CL: 35.45, AR: 39.95,
+    K: 39.098, CA: 40.078, SC: 44.956, TI: 47.867, V: 50.942, CR: 51.996, MN: 54.938, FE: 55.845, CO: 58.933, NI: 58.693,
+    CU: 63.546, ZN: 65.38, GA: 69.723, GE: 72.630, AS: 74.922, SE: 78.971, BR: 79.904, KR: 83.798,
+    RB: 85.468, SR: 87.62, Y: 88.906, ZR: 91.224, NB: 92.906, MO: 95.95, RU: 101.07, RH: 102.91, PD: 106.42, AG: 107.87,
+    CD: 112.41, IN: 114.82, SN: 118.71, SB: 121.76, TE: 127.60, I: 126.90, XE: 131.29,
+    CS: 132.91, BA: 137.33, LA: 138.91, CE: 140.12, HF: 178.49, TA: 180.95, W: 183.84, OS: 190.23, IR: 192.22, PT: 195.08,
+    AU: 196.97, HG: 200.59, TL: 204.38, PB: 207.2, BI: 208.98, TH: 232.04, U: 238.03,
+};
+
+// Ionic radii in Å for each element's usual ion, six-coordinate (Shannon, 1976).
+export const IONIC_RADII: { [element: string]: number } = {
+    LI: 0.76, NA: 1.02, K: 1.38, RB: 1.52, CS: 1.67, AG: 1.15, TL: 1.50,
+    BE: 0.45, MG: 0.72, CA: 1.00, SR: 1.18, BA: 1.35, ZN: 0.74, CD: 0.95, PB: 1.19, MN: 0.83, FE: 0.78, CO: 0.745, NI: 0.69,
+    AL: 0.535, TI: 0.605, ZR: 0.72, CE: 0.87, TH: 0.94, U: 0.89,
+    F: 1.33, CL: 1.81, BR: 1.96, I: 2.20, O: 1.40, S: 1.84, SE: 1.98, N: 1.46,
+};
+
+// Elements whose usual ion is an anion, listed last in formulas
+export const ANION_ELEMENTS = ['F', 'CL', 'BR', 'I', 'O', 'S', 'SE', 'N'];
+
+// Typical bond-order sums for neutral atoms, and the largest sum that is chemically plausible.
+export const VALENCES: { [element: string]: { typical: number[], max: number } } = {
+    H: { typical: [1], max: 1 },
+    B: { typical: [3], max: 4 },
+    C: { typical: [4], max: 4 },
+    N: { typical: [3], max: 4 },
+    O: { typical: [2], max: 3 },
+    F: { typical: [1], max: 1 },
+    SI: { typical: [4], max: 4 },
+    P: { typical: [3, 5], max: 5 },
+    S: { typical: [2, 4, 6], max: 6 },
+    CL: { typical: [1], max: 7 },
+    BR: { typical: [1], max: 7 },
+    I: { typical: [1], max: 7 },
+};
+
+export const VALENCE_ELECTRONS: { [element: string]: number } = {
+    H: 1, B: 3, C: 4, N: 5, O: 6, F: 7, SI: 4, P: 5, S: 6, CL: 7, BR: 7, I: 7, SE: 6, AS: 5,
+};
+
+/**
+ * The valence expected of an atom with the given charge. A charged atom bonds like a neutral one
+ * with the same number of valence electrons, so N⁺ usually has 4 and Cl⁻ none. Null for elements
+ * whose valence isn't checked.
+ */
+export function getExpectedValence(element: any, charge = 0): { typical: number[], max: number } | null {
+    const symbol = normalizeElement(element);
+    const valence = VALENCES[symbol];
+    if (!valence || !charge || VALENCE_ELECTRONS[symbol] === undefined) return valence ?? null;
+    const electrons = VALENCE_ELECTRONS[symbol] - charge;
+    const shell = symbol === 'H' ? 2 : 8;
+    const bonds = electrons <= shell / 2 ? electrons : shell - electrons;
+    if (bonds < 0) return valence;
+    return { typical: [bonds], max: Math.max(valence.max, bonds) };
+}
+
+/**
+ * Normalizes a chemical symbol to the upper-case keys used by the tables in this app.
+ */
+export function normalizeElement(element: any): string {
+    return typeof element === 'string' ? element.trim().toUpperCase() : '';
+}
+
+/**
+ * Converts an element symbol in any case to its conventional spelling, e.g. "CL" -> "Cl".
+ */
+export function formatElementSymbol(element: string): string {
+    const trimmed = element.trim();
+    return trimmed.charAt(0).toUpperCase() + trimmed.slice(1).toLowerCase();
+}
+
+/**
+ * Maps a bond `type` string ("single", "double", "aromatic", "2", ...) to a numeric bond order.
+ */
+export function parseBondOrder(type: any): number {
+    const value = String(type ?? '').trim().toLowerCase();
+    if (value.startsWith('double') || value === '2') return 2;
+    if (value.startsWith('triple') || value === '3') return 3;
+    if (value.startsWith('aromatic') || value === '1.5' || value === '4') return 1.5;
+    return 1;
+}
+
+export function bondOrderToType(order: number): string {
+    if (order === 2) return 'double';
+    if (order === 3) return 'triple';
+    if (order === 1.5) return 'aromatic';
+    return 'single';
+}
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as THREE from 'three';
+import { MolecularGraph } from './smiles';
+import { RawAtom, RawBond, countLonePairs, getIdealBondAngle } from './molecule';
+import { getReferenceBondLength } from './chemistryChecks';
+import { normalizeElement } from './elements';
+
+// Gap between disconnected fragments (e.g. the ions in "[Na+].[Cl-]"), in Å.
+const FRAGMENT_SPACING = 3;
+
+const RELAX_ITERATIONS = 2000;
+const RELAX_STEP = 0.02;
+const RELAX_MOMENTUM = 0.8;
+const MAX_MOVE_PER_STEP = 0.1;
+const RING_ATTEMPTS = 8;
+const RESTART_JITTER = 1.0; // Å
+
+/**
+ * Ideal electron-domain directions for a steric number. Later slots are taken by lone pairs,
+ * so the orders put lone pairs where VSEPR puts them: equatorial in a trigonal bipyramid and
+ * trans to each other in an octahedron.
+ */
+function idealDirections(stericNumber: number): THREE.Vector3[] {
+    const v = (x: number, y: number, z: number) => new THREE.Vector3(x, y, z).normalize();
+    const third = 2 * Math.PI / 3;
+    switch (stericNumber) {
+        case 0:
+        case 1:
+        case 2:
+            return [v(1, 0, 0), v(-1, 0, 0)];
+        case 3:
+            return [0, 1, 2].map(i => v(Math.cos(i * third), Math.sin(i * third), 0));
+        case 4:
+            return [v(1, 1, 1), v(1, -1, -1), v(-1, 1, -1), v(-1, -1, 1)];
+        case 5:
+            return [v(0, 0, 1), v(0, 0, -1), ...[0, 1, 2].map(i => v(Math.cos(i * third), Math.sin(i * third), 0))];
+        case 6:
+            return [v(1, 0, 0), v(0, 1, 0), v(-1, 0, 0), v(0, -1, 0), v(0, 0, 1), v(0, 0, -1)];
+        default: {
+            // Beyond octahedral, spread the domains evenly over a sphere
+            const golden = Math.PI * (3 - Math.sqrt(5));
+            return Array.from({ length: stericNumber }, (_, i) => {
+                const y = 1 - (2 * i + 1) / stericNumber;
+                const r = Math.sqrt(1 - y * y);
+                return v(Math.cos(golden * i) * r, y, Math.sin(golden * i) * r);
+            });
+        }
+    }
+}
+
+/**
+ * Marks bonds that lie on a ring, i.e. every bond that is not a bridge of the graph.
+ */
+function findRingBonds(atomCount: number, neighbours: number[][]): Set<string> {
+    const discovered = new Array(atomCount).fill(-1);
+    const low = new Array(atomCount).fill(0);
+    const bridges = new Set<string>();
+    let time = 0;
+
+    const visit = (atom: number, parent: number) => {
+        discovered[atom] = low[atom] = time++;
+        neighbours[atom].forEach(next => {
+            if (discovered[next] === -1) {
+                visit(next, atom);
+                low[atom] = Math.min(low[atom], low[next]);
+                if (low[next] > discovered[atom]) bridges.add(pairKey(atom, next));
+            } else if (next !== parent) {
+                low[atom] = Math.min(low[atom], discovered[next]);
+            }
+        });
+    };
+    for (let atom = 0; atom < atomCount; atom++) {
+        if (discovered[atom] === -1) visit(atom, -1);
+    }
+
+    const ringBonds = new Set<string>();
+    neighbours.forEach((list, atom) => list.forEach(next => {
+        if (!bridges.has(pairKey(atom, next))) ringBonds.add(pairKey(atom, next));
+    }));
+    return ringBonds;
+}
+
+function pairKey(a: number, b: number): string {
+    return a < b ? `${a}_${b}` : `${b}_${a}`;
+}
+
+// Target distance between two atoms; negative k marks a repulsion that only acts inside its length.
+interface Spring {
+    a: number;
+    b: number;
+    length: number;
+    k: number;
+}
+
+// Small seeded generator so the same input always embeds the same way.
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Moves the points towards the spring lengths by gradient descent with momentum (which lets
+ * soft modes such as ring puckering settle far sooner) and returns the final energy.
+ */
+function relax(points: THREE.Vector3[], springs: Spring[]): number {
+    const gradient = points.map(() => new THREE.Vector3());
+    const velocities = points.map(() => new THREE.Vector3());
+    const delta = new THREE.Vector3();
+    let energy = 0;
+    for (let iteration = 0; iteration < RELAX_ITERATIONS; iteration++) {
+        gradient.forEach(g => g.set(0, 0, 0));
+        energy = 0;
+        springs.forEach(({ a, b, length, k }) => {
+            delta.subVectors(points[a], points[b]);
+            const d = Math.max(delta.length(), 1e-6);
+            if (k < 0 && d >= length) return;
+            energy += Math.abs(k) * (d - length) ** 2;
+            const force = 2 * Math.abs(k) * (d - length) / d;
+            gradient[a].addScaledVector(delta, force);
+            gradient[b].addScaledVector(delta, -force);
+        });
+
+        let largestMove = 0;
+        points.forEach((point, i) => {
+            const move = velocities[i].multiplyScalar(RELAX_MOMENTUM).addScaledVector(gradient[i], -RELAX_STEP);
+            if (move.length() > MAX_MOVE_PER_STEP) move.setLength(MAX_MOVE_PER_STEP);
+            point.add(move);
+            largestMove = Math.max(largestMove, move.length());
+        });
+        if (largestMove < 1e-5) break;
+    }
+    return energy;
+}
+
+/**
+ * Builds 3D coordinates for a molecular graph (hydrogens explicit) from VSEPR geometries.
+ * Atoms are placed outwards from the first atom: each atom's electron domains are oriented so
+ * one points back at the atom it was reached from, and chains grow zig-zag (anti) while rings
+ * curl round (cis). A short relaxation then restores reference bond lengths and VSEPR
+ * angles, which also closes rings.
+ */
+export function embedMolecule(graph: MolecularGraph): { atoms: RawAtom[], bonds: RawBond[] } {
+    const { atoms, bonds } = graph;
+    const count = atoms.length;
+    const neighbours: number[][] = atoms.map(() => []);
+    const bondOrders = new Map<string, number>();
+    const bondOrderSums = atoms.map(() => 0);
+    bonds.forEach(bond => {
+        neighbours[bond.a].push(bond.b);
+        neighbours[bond.b].push(bond.a);
+        bondOrders.set(pairKey(bond.a, bond.b), bond.order);
+        bondOrderSums[bond.a] += bond.order;
+        bondOrderSums[bond.b] += bond.order;
+    });
+
+    const lonePairs = atoms.map((atom, i) => countLonePairs(atom.element, bondOrderSums[i], atom.charge) ?? 0);
+    const stericNumbers = atoms.map((_, i) => neighbours[i].length + lonePairs[i]);
+    const heavyDegrees = neighbours.map(list => list.filter(x => normalizeElement(atoms[x].element) !== 'H').length);
+    const ringBonds = findRingBonds(count, neighbours);
+    const isRingBond = (a: number, b: number) => ringBonds.has(pairKey(a, b));
+    const bondLength = (a: number, b: number) =>
+        getReferenceBondLength(atoms[a].element, atoms[b].element, bondOrders.get(pairKey(a, b)) ?? 1) ?? 1.5;
+
+    // --- Initial placement ---
+    const positions: (THREE.Vector3 | null)[] = new Array(count).fill(null);
+    const parents = new Array(count).fill(-1);
+    let nextFragmentX = 0;
+
+    const placeNeighbours = (p: number) => {
+        const unplaced = neighbours[p].filter(x => !positions[x]);
+        if (unplaced.length === 0) return;
+        // Ring continuations first so they take the slot aligned with the ring, then the most
+        // substituted neighbour so it lands anti, away from what is already placed
+        unplaced.sort((x, y) => Number(isRingBond(p, y)) - Number(isRingBond(p, x))
+            || heavyDegrees[y] - heavyDegrees[x]);
+
+        const origin = positions[p]!;
+        let slots = idealDirections(Math.max(stericNumbers[p], neighbours[p].length));
+        const placed = neighbours[p].filter(x => positions[x]);
+
+        if (placed.length > 0) {
+            const g = parents[p] >= 0 ? parents[p] : placed[0];
+            const axis = positions[g]!.clone().sub(origin).normalize();
+            const align = new THREE.Quaternion().setFromUnitVectors(slots[0], axis);
+            slots = slots.map(slot => slot.clone().applyQuaternion(align));
+
+            // A second placed neighbour (where a ring has just closed) fixes the twist directly;
+            // otherwise take the dihedral from an atom next to g
+            const perpendicular = (vector: THREE.Vector3) => vector.clone().sub(axis.clone().multiplyScalar(vector.dot(axis)));
+            const closure = placed.find(x => x !== g);
+            const references = neighbours[g].filter(r => r !== p && positions[r]);
+            const r = references.find(candidate => isRingBond(candidate, g)) ?? references[0];
+            let target: THREE.Vector3 | null = null;
+            if (closure !== undefined) {
+                target = perpendicular(positions[closure]!.clone().sub(origin));
+            } else if (r !== undefined) {
+                const cis = isRingBond(r, g) && isRingBond(g, p) && isRingBond(p, unplaced[0]);
+                target = perpendicular(positions[r]!.clone().sub(positions[g]!));
+                if (!cis) target.negate();
+            }
+            if (target && slots.length > 1) {
+                const current = perpendicular(slots[1]);
+                if (target.lengthSq() > 1e-8 && current.lengthSq() > 1e-8) {
+                    const angle = Math.atan2(axis.dot(current.clone().cross(target)), current.dot(target));
+                    const twist = new THREE.Quaternion().setFromAxisAngle(axis, angle);
+                    slots = slots.map(slot => slot.applyQuaternion(twist));
+                }
+            }
+
+            // Drop the slots already pointing at placed neighbours
+            placed.forEach(x => {
+                const direction = positions[x]!.clone().sub(origin).normalize();
+                let best = 0;
+                slots.forEach((slot, i) => { if (slot.dot(direction) > slots[best].dot(direction)) best = i; });
+                slots.splice(best, 1);
+            });
+        }
+
+        unplaced.forEach((x, i) => {
+            const direction = slots[i] ?? new THREE.Vector3(1, 0, 0);
+            positions[x] = origin.clone().add(direction.clone().multiplyScalar(bondLength(p, x)));
+            parents[x] = p;
+        });
+        return unplaced;
+    };
+
+    for (let start = 0; start < count; start++) {
+        if (positions[start]) continue;
+        positions[start] = new THREE.Vector3(nextFragmentX, 0, 0);
+        const fragment = [start];
+        const queue = [start];
+        while (queue.length > 0) {
+            const added = placeNeighbours(queue.shift()!) || [];
+            fragment.push(...added);
+            queue.push(...added);
+        }
+        const maxX = Math.max(...fragment.map(i => positions[i]!.x));
+        nextFragmentX = maxX + FRAGMENT_SPACING;
+    }
+
+    // --- Relaxation ---
+    const points = positions.map(p => p!);
+    const springs: Spring[] = [];
+    const near = new Set<string>();
+    bonds.forEach(bond => {
+        springs.push({ a: bond.a, b: bond.b, length: bondLength(bond.a, bond.b), k: 2 });
+        near.add(pairKey(bond.a, bond.b));
+    });
+    atoms.forEach((_, center) => {
+        const list = neighbours[center];
+        const angle = getIdealBondAngle(stericNumbers[center], lonePairs[center]);
+        for (let i = 0; i < list.length; i++) {
+            for (let j = i + 1; j < list.length; j++) {
+                const [a, b] = [list[i], list[j]];
+                near.add(pairKey(a, b));
+                neighbours[b].forEach(c => near.add(pairKey(a, c)));
+                neighbours[a].forEach(c => near.add(pairKey(b, c)));
+                // Three- and four-membered rings cannot reach the ideal angle, so leave them to the bonds
+                const inSmallRing = neighbours[a].includes(b)
+                    || neighbours[a].some(c => c !== center && neighbours[b].includes(c));
+                if (angle === null || inSmallRing) continue;
+                const la = bondLength(center, a);
+                const lb = bondLength(center, b);
+                const length = Math.sqrt(la * la + lb * lb - 2 * la * lb * Math.cos(angle * Math.PI / 180));
+                springs.push({ a, b, length, k: 1 });
+            }
+        }
+    });
+
+    // Atoms four or more bonds apart only push each other away when they come too close
+    const isHydrogen = atoms.map(atom => normalizeElement(atom.element) === 'H');
+    for (let a = 0; a < count; a++) {
+        for (let b = a + 1; b < count; b++) {
+            if (near.has(pairKey(a, b))) continue;
+            const hydrogens = Number(isHydrogen[a]) + Number(isHydrogen[b]);
+            springs.push({ a, b, length: [2.9, 2.4, 2.0][hydrogens], k: -0.3 });
+        }
+    }
+
+    // Ring systems can settle in a tangled local minimum, so retry from a few jittered starts
+    const attempts = ringBonds.size > 0 ? RING_ATTEMPTS : 1;
+    const random = createRandom(1);
+    let best: { points: THREE.Vector3[], energy: number } | null = null;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+        const trial = points.map(p => p.clone());
+        if (attempt > 0) {
+            trial.forEach(p => p.add(new THREE.Vector3(random() - 0.5, random() - 0.5, random() - 0.5).multiplyScalar(2 * RESTART_JITTER)));
+        }
+        const energy = relax(trial, springs);
+        if (!best || energy < best.energy) best = { points: trial, energy };
+    }
+    const relaxed = best!.points;
+
+    const centroid = relaxed.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(Math.max(count, 1));
+    return {
+        atoms: atoms.map((atom, i) => {
+            const p = relaxed[i].clone().sub(centroid);
+            return { element: atom.element, position: [p.x, p.y, p.z] as [number, number, number], ...(atom.charge ? { charge: atom.charge } : {}) };
+        }),
+        bonds: bonds.map(bond => ({ start: bond.a, end: bond.b, order: bond.order })),
+    };
+}
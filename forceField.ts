@@ -0,0 +1,361 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RawAtom, RawBond, countLonePairs, getIdealBondAngle } from './molecule';
+import { getReferenceBondLength } from './chemistryChecks';
+import { normalizeElement } from './elements';
+import { cross, dot, length, sub } from './meshMetrics';
+
+// A deliberately small force field in the spirit of UFF: harmonic bond stretch, cosine-harmonic
+// angle bend, periodic torsions and a 12-6 van der Waals term. Energies are in kcal/mol and
+// distances in Å.
+
+// UFF van der Waals parameters: well distance (Å) and well depth (kcal/mol).
+const VDW_PARAMETERS: { [element: string]: [number, number] } = {
+    H: [2.886, 0.044], B: [4.083, 0.180], C: [3.851, 0.105], N: [3.660, 0.069], O: [3.500, 0.060],
+    F: [3.364, 0.050], SI: [4.295, 0.402], P: [4.147, 0.305], S: [4.035, 0.274], CL: [3.947, 0.227],
+    BR: [4.189, 0.251], I: [4.500, 0.339], SE: [4.205, 0.291],
+};
+const DEFAULT_VDW = VDW_PARAMETERS.C;
+
+const STRETCH_K = 700; // kcal/mol/Å²
+const BEND_K = 100; // kcal/mol/rad²
+
+// Total barrier to rotation about a bond, shared between all the torsions around it.
+const TORSION_BARRIERS = { sp3: 2.0, conjugated: 5.0, double: 45.0 };
+
+// van der Waals between atoms three bonds apart is scaled down, as in most force fields.
+const VDW_1_4_SCALE = 0.5;
+const VDW_CUTOFF = 10;
+
+export const MAX_OPTIMIZED_ATOMS = 500;
+const MAX_ITERATIONS = 2000;
+const CONVERGENCE_FORCE = 0.05; // kcal/mol/Å on the worst atom
+const MAX_DISPLACEMENT = 0.1; // Å per step
+// Frames are recorded at geometrically spaced iterations, so the quick early relaxation is not
+// over in a couple of frames.
+const FRAME_GROWTH = 1.12;
+
+interface StretchTerm { a: number; b: number; length: number; }
+interface BendTerm { a: number; center: number; b: number; cosTarget: number; k: number; }
+interface TorsionTerm { a: number; b: number; c: number; d: number; barrier: number; periodicity: 2 | 3; }
+interface VdwTerm { a: number; b: number; distance: number; depth: number; }
+
+interface ForceField {
+    stretches: StretchTerm[];
+    bends: BendTerm[];
+    torsions: TorsionTerm[];
+    vdw: VdwTerm[];
+}
+
+export interface OptimizationResult {
+    frames: [number, number, number][][];
+    initialEnergy: number;
+    finalEnergy: number;
+    iterations: number;
+    converged: boolean;
+}
+
+function getDistance(coords: Float64Array, a: number, b: number): number {
+    return Math.hypot(coords[3 * a] - coords[3 * b], coords[3 * a + 1] - coords[3 * b + 1], coords[3 * a + 2] - coords[3 * b + 2]);
+}
+
+function getAngle(coords: Float64Array, a: number, center: number, b: number): number {
+    const u = [0, 1, 2].map(k => coords[3 * a + k] - coords[3 * center + k]);
+    const v = [0, 1, 2].map(k => coords[3 * b + k] - coords[3 * center + k]);
+    const cos = (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) / (Math.hypot(...u) * Math.hypot(...v) || 1);
+    return Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI;
+}
+
+/**
+ * Sets up the force-field terms from the bond graph. Ideal angles come from VSEPR; for the
+ * trigonal bipyramidal and octahedral families, where the angles differ, each angle keeps the
+ * ideal value nearest to its starting value.
+ */
+function setupForceField(atoms: RawAtom[], bonds: RawBond[], coords: Float64Array): ForceField {
+    const neighbours: number[][] = atoms.map(() => []);
+    const bondOrderSums = atoms.map(() => 0);
+    bonds.forEach(bond => {
+        neighbours[bond.start].push(bond.end);
+        neighbours[bond.end].push(bond.start);
+        bondOrderSums[bond.start] += bond.order;
+        bondOrderSums[bond.end] += bond.order;
+    });
+    const lonePairs = atoms.map((atom, i) => countLonePairs(atom.element, bondOrderSums[i], atom.charge) ?? 0);
+    const stericNumbers = atoms.map((_, i) => neighbours[i].length + lonePairs[i]);
+
+    const stretches: StretchTerm[] = bonds.map(bond => ({
+        a: bond.start,
+        b: bond.end,
+        length: getReferenceBondLength(atoms[bond.start].element, atoms[bond.end].element, bond.order)
+            ?? getDistance(coords, bond.start, bond.end),
+    }));
+
+    const bends: BendTerm[] = [];
+    atoms.forEach((_, center) => {
+        const list = neighbours[center];
+        for (let i = 0; i < list.length; i++) {
+            for (let j = i + 1; j < list.length; j++) {
+                const [a, b] = [list[i], list[j]];
+                let target: number;
+                if (neighbours[a].includes(b)) {
+                    target = 60;
+                } else if (neighbours[a].some(c => c !== center && neighbours[b].includes(c))) {
+                    target = 90;
+                } else {
+                    const ideal = getIdealBondAngle(stericNumbers[center], lonePairs[center]);
+                    if (ideal !== null) {
+                        target = ideal;
+                    } else {
+                        const current = getAngle(coords, a, center, b);
+                        const candidates = stericNumbers[center] === 5 ? [90, 120, 180] : [90, 180];
+                        target = candidates.reduce((best, c) => (Math.abs(c - current) < Math.abs(best - current) ? c : best));
+                    }
+                }
+                const radians = target * Math.PI / 180;
+                // Matches the curvature of a harmonic bend at the minimum; capped for linear atoms
+                const k = BEND_K / Math.max(Math.sin(radians) ** 2, 0.25);
+                bends.push({ a, center, b, cosTarget: Math.cos(radians), k });
+            }
+        }
+    });
+
+    const torsions: TorsionTerm[] = [];
+    bonds.forEach(bond => {
+        const [b, c] = [bond.start, bond.end];
+        const outerB = neighbours[b].filter(x => x !== c);
+        const outerC = neighbours[c].filter(x => x !== b);
+        if (outerB.length === 0 || outerC.length === 0) return;
+
+        let barrier: number;
+        let periodicity: 2 | 3;
+        if (stericNumbers[b] === 4 && stericNumbers[c] === 4) {
+            barrier = TORSION_BARRIERS.sp3;
+            periodicity = 3;
+        } else if (stericNumbers[b] === 3 && stericNumbers[c] === 3) {
+            barrier = bond.order >= 2 ? TORSION_BARRIERS.double : TORSION_BARRIERS.conjugated;
+            periodicity = 2;
+        } else {
+            return;
+        }
+
+        const quads: [number, number][] = [];
+        outerB.forEach(a => outerC.forEach(d => { if (a !== d) quads.push([a, d]); }));
+        quads.forEach(([a, d]) => torsions.push({ a, b, c, d, barrier: barrier / quads.length, periodicity }));
+    });
+
+    // Bond separation, to skip 1-2 and 1-3 pairs and scale 1-4 pairs
+    const vdw: VdwTerm[] = [];
+    atoms.forEach((_, start) => {
+        const separation = new Map<number, number>([[start, 0]]);
+        let frontier = [start];
+        for (let depth = 1; depth <= 3; depth++) {
+            const next: number[] = [];
+            frontier.forEach(atom => neighbours[atom].forEach(x => {
+                if (!separation.has(x)) {
+                    separation.set(x, depth);
+                    next.push(x);
+                }
+            }));
+            frontier = next;
+        }
+
+        const [distanceA, depthA] = VDW_PARAMETERS[normalizeElement(atoms[start].element)] || DEFAULT_VDW;
+        for (let other = start + 1; other < atoms.length; other++) {
+            const bondsApart = separation.get(other);
+            if (bondsApart !== undefined && bondsApart < 3) continue;
+            if (getDistance(coords, start, other) > VDW_CUTOFF) continue;
+            const [distanceB, depthB] = VDW_PARAMETERS[normalizeElement(atoms[other].element)] || DEFAULT_VDW;
+            vdw.push({
+                a: start,
+                b: other,
+                distance: Math.sqrt(distanceA * distanceB),
+                depth: Math.sqrt(depthA * depthB) * (bondsApart === 3 ? VDW_1_4_SCALE : 1),
+            });
+        }
+    });
+
+    return { stretches, bends, torsions, vdw };
+}
+
+/**
+ * Total energy of the coordinates; when `gradient` is given it is filled with dE/dx.
+ */
+function evaluate(ff: ForceField, coords: Float64Array, gradient?: Float64Array): number {
+    let energy = 0;
+    gradient?.fill(0);
+    const add = (atom: number, x: number, y: number, z: number) => {
+        if (!gradient) return;
+        gradient[3 * atom] += x;
+        gradient[3 * atom + 1] += y;
+        gradient[3 * atom + 2] += z;
+    };
+
+    ff.stretches.forEach(({ a, b, length }) => {
+        const dx = coords[3 * a] - coords[3 * b], dy = coords[3 * a + 1] - coords[3 * b + 1], dz = coords[3 * a + 2] - coords[3 * b + 2];
+        const d = Math.max(Math.hypot(dx, dy, dz), 1e-6);
+        energy += 0.5 * STRETCH_K * (d - length) ** 2;
+        const f = STRETCH_K * (d - length) / d;
+        add(a, f * dx, f * dy, f * dz);
+        add(b, -f * dx, -f * dy, -f * dz);
+    });
+
+    ff.bends.forEach(({ a, center, b, cosTarget, k }) => {
+        const ux = coords[3 * a] - coords[3 * center], uy = coords[3 * a + 1] - coords[3 * center + 1], uz = coords[3 * a + 2] - coords[3 * center + 2];
+        const vx = coords[3 * b] - coords[3 * center], vy = coords[3 * b + 1] - coords[3 * center + 1], vz = coords[3 * b + 2] - coords[3 * center + 2];
+        const lu = Math.max(Math.hypot(ux, uy, uz), 1e-6);
+        const lv = Math.max(Math.hypot(vx, vy, vz), 1e-6);
+        const cos = (ux * vx + uy * vy + uz * vz) / (lu * lv);
+        energy += 0.5 * k * (cos - cosTarget) ** 2;
+        const f = k * (cos - cosTarget);
+        const ga = [vx / (lu * lv) - cos * ux / (lu * lu), vy / (lu * lv) - cos * uy / (lu * lu), vz / (lu * lv) - cos * uz / (lu * lu)];
+        const gb = [ux / (lu * lv) - cos * vx / (lv * lv), uy / (lu * lv) - cos * vy / (lv * lv), uz / (lu * lv) - cos * vz / (lv * lv)];
+        add(a, f * ga[0], f * ga[1], f * ga[2]);
+        add(b, f * gb[0], f * gb[1], f * gb[2]);
+        add(center, -f * (ga[0] + gb[0]), -f * (ga[1] + gb[1]), -f * (ga[2] + gb[2]));
+    });
+
+    // Torsion gradients follow Blondel & Karplus (1996), which stay finite for any geometry
+    // where the four atoms are not collinear.
+    ff.torsions.forEach(({ a, b, c, d, barrier, periodicity }) => {
+        const F = sub(pointAt(coords, a), pointAt(coords, b));
+        const G = sub(pointAt(coords, b), pointAt(coords, c));
+        const H = sub(pointAt(coords, d), pointAt(coords, c));
+        const A = cross(F, G);
+        const B = cross(H, G);
+        const lengthA2 = dot(A, A);
+        const lengthB2 = dot(B, B);
+        const lengthG = length(G);
+        if (lengthA2 < 1e-10 || lengthB2 < 1e-10 || lengthG < 1e-6) return;
+
+        const phi = Math.atan2(dot(cross(B, A), G) / lengthG, dot(A, B));
+        // E = V/2 (1 - s cos nφ): s = 1 keeps n = 2 minima at 0° and 180°, s = -1 puts n = 3
+        // minima at the staggered 60° and 180°
+        const sign = periodicity === 2 ? 1 : -1;
+        energy += barrier / 2 * (1 - sign * Math.cos(periodicity * phi));
+        if (!gradient) return;
+        const dEdPhi = barrier / 2 * sign * periodicity * Math.sin(periodicity * phi);
+
+        const fg = dot(F, G), hg = dot(H, G);
+        const ga = A.map(x => -lengthG / lengthA2 * x);
+        const gd = B.map(x => lengthG / lengthB2 * x);
+        const gb = [0, 1, 2].map(k => lengthG / lengthA2 * A[k] + fg / (lengthA2 * lengthG) * A[k] - hg / (lengthB2 * lengthG) * B[k]);
+        const gc = [0, 1, 2].map(k => hg / (lengthB2 * lengthG) * B[k] - fg / (lengthA2 * lengthG) * A[k] - lengthG / lengthB2 * B[k]);
+        add(a, dEdPhi * ga[0], dEdPhi * ga[1], dEdPhi * ga[2]);
+        add(b, dEdPhi * gb[0], dEdPhi * gb[1], dEdPhi * gb[2]);
+        add(c, dEdPhi * gc[0], dEdPhi * gc[1], dEdPhi * gc[2]);
+        add(d, dEdPhi * gd[0], dEdPhi * gd[1], dEdPhi * gd[2]);
+    });
+
+    ff.vdw.forEach(({ a, b, distance, depth }) => {
+        const dx = coords[3 * a] - coords[3 * b], dy = coords[3 * a + 1] - coords[3 * b + 1], dz = coords[3 * a + 2] - coords[3 * b + 2];
+        const r = Math.max(Math.hypot(dx, dy, dz), 0.5);
+        const ratio6 = (distance / r) ** 6;
+        energy += depth * (ratio6 * ratio6 - 2 * ratio6);
+        const f = 12 * depth * (ratio6 - ratio6 * ratio6) / (r * r);
+        add(a, f * dx, f * dy, f * dz);
+        add(b, -f * dx, -f * dy, -f * dz);
+    });
+
+    return energy;
+}
+
+function pointAt(coords: Float64Array, index: number): [number, number, number] {
+    return [coords[3 * index], coords[3 * index + 1], coords[3 * index + 2]];
+}
+
+function toFrame(coords: Float64Array): [number, number, number][] {
+    const frame: [number, number, number][] = [];
+    for (let i = 0; i < coords.length; i += 3) frame.push([coords[i], coords[i + 1], coords[i + 2]]);
+    return frame;
+}
+
+/**
+ * Relaxes a structure with Polak-Ribière conjugate gradients and a backtracking step,
+ * returning snapshots along the way for animation. The last frame is the optimized geometry.
+ */
+export function optimizeGeometry(atoms: RawAtom[], bonds: RawBond[]): OptimizationResult {
+    if (atoms.length > MAX_OPTIMIZED_ATOMS) {
+        throw new Error(`Geometry optimization is limited to ${MAX_OPTIMIZED_ATOMS} atoms; this structure has ${atoms.length}.`);
+    }
+
+    const coords = new Float64Array(atoms.flatMap(atom => atom.position));
+    const ff = setupForceField(atoms, bonds, coords);
+    const gradient = new Float64Array(coords.length);
+    const previousGradient = new Float64Array(coords.length);
+    const direction = new Float64Array(coords.length);
+    const trial = new Float64Array(coords.length);
+    const trialGradient = new Float64Array(coords.length);
+
+    let energy = evaluate(ff, coords, gradient);
+    const initialEnergy = energy;
+    const frames = [toFrame(coords)];
+    let nextFrame = 1;
+    let lastFrameIteration = 0;
+    let step = 0.001;
+    let converged = false;
+    let iteration = 0;
+
+    for (let i = 0; i < direction.length; i++) direction[i] = -gradient[i];
+
+    for (; iteration < MAX_ITERATIONS; iteration++) {
+        let largestForce = 0;
+        for (let atom = 0; atom < atoms.length; atom++) {
+            largestForce = Math.max(largestForce, Math.hypot(gradient[3 * atom], gradient[3 * atom + 1], gradient[3 * atom + 2]));
+        }
+        if (largestForce < CONVERGENCE_FORCE) {
+            converged = true;
+            break;
+        }
+
+        // Restart along steepest descent whenever the search direction stops going downhill
+        let slope = 0;
+        for (let i = 0; i < direction.length; i++) slope += direction[i] * gradient[i];
+        if (slope >= 0) {
+            for (let i = 0; i < direction.length; i++) direction[i] = -gradient[i];
+        }
+
+        let largestMove = 0;
+        for (let atom = 0; atom < atoms.length; atom++) {
+            largestMove = Math.max(largestMove, Math.hypot(direction[3 * atom], direction[3 * atom + 1], direction[3 * atom + 2]));
+        }
+        step = Math.min(step, MAX_DISPLACEMENT / Math.max(largestMove, 1e-12));
+
+        let trialEnergy = Infinity;
+        for (let attempt = 0; attempt < 20; attempt++) {
+            for (let i = 0; i < coords.length; i++) trial[i] = coords[i] + step * direction[i];
+            trialEnergy = evaluate(ff, trial, trialGradient);
+            if (trialEnergy < energy) break;
+            step *= 0.5;
+        }
+        if (!(trialEnergy < energy)) {
+            // No lower point along the direction: treat as converged at this precision
+            converged = true;
+            break;
+        }
+
+        previousGradient.set(gradient);
+        coords.set(trial);
+        gradient.set(trialGradient);
+        energy = trialEnergy;
+        step *= 1.5;
+
+        let numerator = 0, denominator = 0;
+        for (let i = 0; i < gradient.length; i++) {
+            numerator += gradient[i] * (gradient[i] - previousGradient[i]);
+            denominator += previousGradient[i] * previousGradient[i];
+        }
+        const beta = denominator > 0 ? Math.max(0, numerator / denominator) : 0;
+        for (let i = 0; i < direction.length; i++) direction[i] = -gradient[i] + beta * direction[i];
+
+        if (iteration + 1 >= nextFrame) {
+            frames.push(toFrame(coords));
+            lastFrameIteration = iteration + 1;
+            nextFrame = Math.max(nextFrame + 1, Math.ceil(nextFrame * FRAME_GROWTH));
+        }
+    }
+
+    if (lastFrameIteration !== iteration) frames.push(toFrame(coords));
+    return { frames, initialEnergy, finalEnergy: energy, iterations: iteration, converged };
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { getFaceTriangles } from './meshMetrics';
+
+// All exports use the raw `vertices` coordinates, i.e. the model's real units, and ignore the
+// centring transform applied for display.
+
+type Triangle = [number, number, number];
+
+interface FaceGroupTriangles {
+    faceIndex: number;
+    triangles: Triangle[];
+}
+
+/**
+ * Collects the valid triangles of every face group. When the surface winds inwards overall
+ * (negative signed volume) every triangle is flipped so normals point out, as slicers expect.
+ */
+function getOrientedFaceGroups(data: any): FaceGroupTriangles[] {
+    const vertices: number[][] = data.vertices || [];
+    const groups: FaceGroupTriangles[] = (data.faces || []).map((faceGroup: any, faceIndex: number) => ({
+        faceIndex,
+        triangles: getFaceTriangles(faceGroup, vertices),
+    }));
+
+    let signedVolume = 0;
+    groups.forEach(group => group.triangles.forEach(([i0, i1, i2]) => {
+        const [a, b, c] = [vertices[i0], vertices[i1], vertices[i2]];
+        signedVolume += (a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0])) / 6;
+    }));
+
+    if (signedVolume < 0) {
+        groups.forEach(group => {
+            group.triangles = group.triangles.map(([i0, i1, i2]) => [i0, i2, i1] as Triangle);
+        });
+    }
+    return groups;
+}
+
+// --- STL ---
+/**
+ * Writes the solid as binary STL: an 80-byte header, a triangle count, then 50 bytes per
+ * triangle (normal, three vertices, attribute word).
+ */
+export function writeBinaryStl(data: any, name: string): ArrayBuffer {
+    const vertices: number[][] = data.vertices || [];
+    const triangles = getOrientedFaceGroups(data).flatMap(group => group.triangles);
+    const buffer = new ArrayBuffer(84 + triangles.length * 50);
+    const view = new DataView(buffer);
+
+    const header = `3Space export: ${name}`.substring(0, 80);
+    for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i) & 0x7f);
+    view.setUint32(80, triangles.length, true);
+
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+    const normal = new THREE.Vector3(), edge = new THREE.Vector3();
+    let offset = 84;
+    triangles.forEach(([i0, i1, i2]) => {
+        a.fromArray(vertices[i0]);
+        b.fromArray(vertices[i1]);
+        c.fromArray(vertices[i2]);
+        normal.subVectors(c, b).cross(edge.subVectors(a, b)).normalize();
+
+        [normal, a, b, c].forEach(vector => {
+            view.setFloat32(offset, vector.x, true);
+            view.setFloat32(offset + 4, vector.y, true);
+            view.setFloat32(offset + 8, vector.z, true);
+            offset += 12;
+        });
+        view.setUint16(offset, 0, true);
+        offset += 2;
+    });
+    return buffer;
+}
+
+// --- OBJ ---
+/**
+ * Writes the solid as Wavefront OBJ with one named group per face group, so each face of the
+ * original drawing can still be picked out in other software.
+ */
+export function writeObj(data: any, name: string): string {
+    const vertices: number[][] = data.vertices || [];
+    const lines = ['# 3Space export', `o ${name.replace(/\s+/g, '_')}`];
+    vertices.forEach(v => {
+        const [x, y, z] = Array.isArray(v) && v.length === 3 ? v : [0, 0, 0];
+        lines.push(`v ${x} ${y} ${z}`);
+    });
+
+    getOrientedFaceGroups(data).forEach(group => {
+        if (group.triangles.length === 0) return;
+        lines.push(`g face_${group.faceIndex + 1}`);
+        group.triangles.forEach(([i0, i1, i2]) => lines.push(`f ${i0 + 1} ${i1 + 1} ${i2 + 1}`));
+    });
+    return lines.join('\n') + '\n';
+}
+
+// --- glTF ---
+/**
+ * Exports the solid as glTF (JSON) or GLB (binary). Each face group becomes a named mesh.
+ * Label sprites, when given, are converted to textured planes at the same positions because
+ * glTF has no sprite primitive.
+ */
+export async function exportGltf(data: any, name: string, binary: boolean, labelSprites: THREE.Sprite[] = []): Promise<ArrayBuffer | object> {
+    const vertices: number[][] = data.vertices || [];
+    const root = new THREE.Group();
+    root.name = name;
+    const disposables: { dispose(): void }[] = [];
+
+    getOrientedFaceGroups(data).forEach(group => {
+        if (group.triangles.length === 0) return;
+        const positions: number[] = [];
+        group.triangles.forEach(triangle => triangle.forEach(index => positions.push(...vertices[index])));
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geometry.computeVertexNormals();
+        const material = new THREE.MeshStandardMaterial({ color: 0x03dac6, metalness: 0.2, roughness: 0.7, side: THREE.DoubleSide });
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.name = `face_${group.faceIndex + 1}`;
+        root.add(mesh);
+        disposables.push(geometry, material);
+    });
+
+    labelSprites.forEach((sprite, index) => {
+        const spriteMaterial = sprite.material as THREE.SpriteMaterial;
+        const geometry = new THREE.PlaneGeometry(sprite.scale.x, sprite.scale.y);
+        const material = new THREE.MeshBasicMaterial({ map: spriteMaterial.map, transparent: true, side: THREE.DoubleSide });
+        const plane = new THREE.Mesh(geometry, material);
+        plane.name = `label_${index + 1}`;
+        plane.position.copy(sprite.position);
+        root.add(plane);
+        disposables.push(geometry, material);
+    });
+
+    try {
+        return await new GLTFExporter().parseAsync(root, { binary });
+    } finally {
+        disposables.forEach(item => item.dispose());
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type Vec2 = [number, number];
+// Corners in order top-left, top-right, bottom-right, bottom-left, in pixels of the rotated image
+export type Quad = [Vec2, Vec2, Vec2, Vec2];
+
+export interface ImageAdjustments {
+    quarterTurns: number; // clockwise, 0-3
+    corners: Quad; // the region kept: a rectangle when cropping, any quadrilateral when straightening
+    contrast: number; // 1 leaves the image unchanged
+}
+
+export interface PreparedImage {
+    data: string; // base64, without the data URL prefix
+    mimeType: string;
+    width: number;
+    height: number;
+}
+
+export interface PdfFile {
+    pageCount: number;
+    renderPage(pageNumber: number): Promise<HTMLCanvasElement>;
+}
+
+export const UPLOAD_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+// Longest side of the image sent to the AI and stored in sessions; enough to read dimension labels
+export const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+// PDF pages are rendered larger than the output so a crop still keeps the detail
+const PDF_RENDER_DIMENSION = 2400;
+
+export function isPdfFile(file: File): boolean {
+    return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    return canvas;
+}
+
+/**
+ * Decodes an image file onto a canvas, turned upright by its EXIF orientation as phone photos need.
+ */
+export async function loadImageFile(file: Blob): Promise<HTMLCanvasElement> {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const canvas = createCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas;
+}
+
+/**
+ * Opens a PDF with pdf.js, which is loaded on first use; pages are rendered one at a time.
+ */
+export async function openPdfFile(file: File): Promise<PdfFile> {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    return {
+        pageCount: pdf.numPages,
+        async renderPage(pageNumber) {
+            const page = await pdf.getPage(pageNumber);
+            const size = page.getViewport({ scale: 1 });
+            const viewport = page.getViewport({ scale: PDF_RENDER_DIMENSION / Math.max(size.width, size.height) });
+            const canvas = createCanvas(viewport.width, viewport.height);
+            await page.render({ canvas, viewport }).promise;
+            return canvas;
+        },
+    };
+}
+
+export function getFullQuad(width: number, height: number): Quad {
+    return [[0, 0], [width, 0], [width, height], [0, height]];
+}
+
+export function rotateCanvas(source: HTMLCanvasElement, quarterTurns: number): HTMLCanvasElement {
+    const turns = ((quarterTurns % 4) + 4) % 4;
+    if (turns === 0) return source;
+    const swap = turns % 2 === 1;
+    const canvas = createCanvas(swap ? source.height : source.width, swap ? source.width : source.height);
+    const context = canvas.getContext('2d')!;
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate(turns * Math.PI / 2);
+    context.drawImage(source, -source.width / 2, -source.height / 2);
+    return canvas;
+}
+
+/**
+ * The corners after turning an image of the given size a quarter turn clockwise, still listed
+ * from the (new) top-left corner.
+ */
+export function rotateQuad(corners: Quad, height: number): Quad {
+    const turned = corners.map(([x, y]) => [height - y, x] as Vec2);
+    return [turned[3], turned[0], turned[1], turned[2]];
+}
+
+function isAxisAlignedRectangle(corners: Quad): boolean {
+    const [tl, tr, br, bl] = corners;
+    return tl[1] === tr[1] && bl[1] === br[1] && tl[0] === bl[0] && tr[0] === br[0];
+}
+
+// The longer of each pair of opposite edges, so a straightened page keeps its full resolution
+function getRegionSize(corners: Quad): [number, number] {
+    const length = (a: Vec2, b: Vec2) => Math.hypot(b[0] - a[0], b[1] - a[1]);
+    const [tl, tr, br, bl] = corners;
+    return [Math.max(length(tl, tr), length(bl, br)), Math.max(length(tl, bl), length(tr, br))];
+}
+
+/**
+ * Size of the prepared image for a region, scaled down to fit MAX_IMAGE_DIMENSION.
+ */
+export function getOutputSize(corners: Quad): { width: number, height: number } {
+    const [width, height] = getRegionSize(corners);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height, 1));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * The projective map from the unit square onto a quadrilateral, with (0,0), (1,0), (1,1) and
+ * (0,1) going to the corners in order (Heckbert's square-to-quad construction).
+ */
+function getSquareToQuad(corners: Quad): (u: number, v: number) => Vec2 {
+    const [[x0, y0], [x1, y1], [x2, y2], [x3, y3]] = corners;
+    const dx1 = x1 - x2, dx2 = x3 - x2, dx3 = x0 - x1 + x2 - x3;
+    const dy1 = y1 - y2, dy2 = y3 - y2, dy3 = y0 - y1 + y2 - y3;
+    const denominator = dx1 * dy2 - dx2 * dy1;
+    if (Math.abs(denominator) < 1e-9) throw new Error('The corners must not lie on one line.');
+    const g = (dx3 * dy2 - dx2 * dy3) / denominator;
+    const h = (dx1 * dy3 - dx3 * dy1) / denominator;
+    const a = x1 - x0 + g * x1, b = x3 - x0 + h * x3;
+    const d = y1 - y0 + g * y1, e = y3 - y0 + h * y3;
+    return (u, v) => {
+        const w = g * u + h * v + 1;
+        return [(a * u + b * v + x0) / w, (d * u + e * v + y0) / w];
+    };
+}
+
+// Samples each output pixel from the source quadrilateral with bilinear filtering
+function warpPerspective(source: HTMLCanvasElement, corners: Quad, width: number, height: number): HTMLCanvasElement {
+    const sourcePixels = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+    const canvas = createCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    const output = context.createImageData(canvas.width, canvas.height);
+    const map = getSquareToQuad(corners);
+    const { data: src, width: sw, height: sh } = sourcePixels;
+
+    for (let y = 0; y < canvas.height; y++) {
+        for (let x = 0; x < canvas.width; x++) {
+            const [sx, sy] = map((x + 0.5) / canvas.width, (y + 0.5) / canvas.height);
+            const fx = Math.min(Math.max(sx - 0.5, 0), sw - 1);
+            const fy = Math.min(Math.max(sy - 0.5, 0), sh - 1);
+            const x0 = Math.floor(fx), y0 = Math.floor(fy);
+            const x1 = Math.min(x0 + 1, sw - 1), y1 = Math.min(y0 + 1, sh - 1);
+            const tx = fx - x0, ty = fy - y0;
+            const out = (y * canvas.width + x) * 4;
+            for (let channel = 0; channel < 4; channel++) {
+                const top = src[(y0 * sw + x0) * 4 + channel] * (1 - tx) + src[(y0 * sw + x1) * 4 + channel] * tx;
+                const bottom = src[(y1 * sw + x0) * 4 + channel] * (1 - tx) + src[(y1 * sw + x1) * 4 + channel] * tx;
+                output.data[out + channel] = top * (1 - ty) + bottom * ty;
+            }
+        }
+    }
+    context.putImageData(output, 0, 0);
+    return canvas;
+}
+
+function applyContrast(canvas: HTMLCanvasElement, contrast: number) {
+    const context = canvas.getContext('2d')!;
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+    const data = pixels.data;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = (data[i] - 128) * contrast + 128;
+        data[i + 1] = (data[i + 1] - 128) * contrast + 128;
+        data[i + 2] = (data[i + 2] - 128) * contrast + 128;
+    }
+    context.putImageData(pixels, 0, 0);
+}
+
+/**
+ * Rotates, crops or straightens, boosts contrast and downscales an image, and encodes it as
+ * JPEG. `source` is the unrotated image; the corners are in the rotated image.
+ */
+export function prepareImage(source: HTMLCanvasElement, adjustments: ImageAdjustments): PreparedImage {
+    const rotated = rotateCanvas(source, adjustments.quarterTurns);
+    const { width, height } = getOutputSize(adjustments.corners);
+    let result: HTMLCanvasElement;
+
+    if (isAxisAlignedRectangle(adjustments.corners)) {
+        const [[left, top], , [right, bottom]] = adjustments.corners;
+        result = createCanvas(width, height);
+        const context = result.getContext('2d')!;
+        context.imageSmoothingQuality = 'high';
+        context.drawImage(rotated, left, top, right - left, bottom - top, 0, 0, result.width, result.height);
+    } else {
+        // Shrink first so the per-pixel warp reads a source close to the output's resolution
+        const scale = Math.min(1, Math.max(width, height) / Math.max(...getRegionSize(adjustments.corners)));
+        let warpSource = rotated;
+        if (scale < 1) {
+            warpSource = createCanvas(rotated.width * scale, rotated.height * scale);
+            const context = warpSource.getContext('2d')!;
+            context.imageSmoothingQuality = 'high';
+            context.drawImage(rotated, 0, 0, warpSource.width, warpSource.height);
+        }
+        const scaledCorners = adjustments.corners.map(([x, y]) => [x * warpSource.width / rotated.width, y * warpSource.height / rotated.height]) as Quad;
+        result = warpPerspective(warpSource, scaledCorners, width, height);
+    }
+
+    if (adjustments.contrast !== 1) applyContrast(result, adjustments.contrast);
+
+    // JPEG has no transparency; transparent areas (PNG cut-outs) go white rather than black
+    const flattened = createCanvas(result.width, result.height);
+    const context = flattened.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, flattened.width, flattened.height);
+    context.drawImage(result, 0, 0);
+    const dataUrl = flattened.toDataURL('image/jpeg', JPEG_QUALITY);
+    return { data: dataUrl.split(',')[1], mimeType: 'image/jpeg', width: flattened.width, height: flattened.height };
+}
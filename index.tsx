@@ -2,78 +2,203 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Type, Chat } from '@google/genai';
+import { Type } from '@google/genai';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-
-// --- Interfaces for Data Structures ---
-interface QAPair {
-  question: string;
-  answer: string;
-  answerHtml: string;
-  selectionContext: any | null;
-}
-
-interface Session {
-  id: number;
-  timestamp: number;
-  modelData: string;
-  qaHistory: QAPair[];
-  mode: 'geometry' | 'chemistry';
-  previewImage: string;
-  mimeType: string;
-}
+import { TransformControls } from 'three/addons/controls/TransformControls.js';
+import { classifyError, createProviderFromEnv, ChatTurn, generateWithRetry, GenerationError, generationError, getRequestPolicyFromEnv, ImageInput, ProviderChat, RecordingProvider } from './providers';
+import { checkChemistry, ChemistryReport } from './chemistryChecks';
+import { parseStructureFile, getStructureFormat, STRUCTURE_FILE_EXTENSIONS, writeMolfile, writeXyz, writePdb } from './chemistryFormats';
+import { writeBinaryStl, writeObj, exportGltf } from './geometryExport';
+import { parseMeshFile, isMeshFile, MESH_FILE_EXTENSIONS } from './meshImport';
+import { parseMoleculeText } from './smiles';
+import { embedMolecule } from './embedding';
+import { buildChemistryData, computeBondAngles, getValidBonds } from './molecule';
+import { optimizeGeometry, OptimizationResult } from './forceField';
+import { bondOrderToType, formatElementSymbol, parseBondOrder } from './elements';
+import { createMeasurement, describeMeasurement, getModelLengthUnit, MeasurementAnnotation, MeasurementKind, MeasurementPoint, POINTS_PER_MEASUREMENT } from './measurements';
+import { computeCrossSection, CrossSection } from './crossSection';
+import { computeNet, getHingeMatrix, writeNetSvg, PolyhedronNet } from './net';
+import { getFullQuad, getOutputSize, ImageAdjustments, isPdfFile, loadImageFile, openPdfFile, PdfFile, prepareImage, rotateCanvas, rotateQuad, Quad, UPLOAD_IMAGE_TYPES } from './imagePrep';
+import { AppMode, countSessions, deleteSessions, getDefaultSessionTitle, getSessionTitle, listSessions, ModelVersion, parseSessionFile, QAPair, querySessions, saveSession, serializeSessionFile, Session, SessionInfo, SessionSort, updateSessionInfo } from './sessions';
+import { analyzeCrystal, CrystalAnalysis, CrystalStructure, describeCoordination, fractionalToCartesian, getLatticeVectors, parseCrystalData } from './crystal';
+import { formatValidationIssues, validateModelData, ValidationIssue } from './modelValidation';
+import { CandidateScore, scoreCandidate } from './candidates';
+import { diffModelData, formatChangeValue } from './modelDiff';
+import { addAtom, addBond, deleteAtom, deleteBond, moveAtom, moveVertex, setBondOrder } from './modelEditing';
+import { computeMeshMetrics, compareMetric, parseMeasurement, formatMetricValue, MeshMetrics, METRIC_TOLERANCE } from './meshMetrics';
 
 // --- DOM Elements ---
 const modeSelectionContainer = document.getElementById('mode-selection-container') as HTMLElement;
 const appContainer = document.getElementById('app-container') as HTMLElement;
 const geometryModeBtn = document.getElementById('geometry-mode-btn') as HTMLButtonElement;
 const chemistryModeBtn = document.getElementById('chemistry-mode-btn') as HTMLButtonElement;
+const crystalModeBtn = document.getElementById('crystal-mode-btn') as HTMLButtonElement;
 const loadSessionBtn = document.getElementById('load-session-btn') as HTMLButtonElement;
 const resetBtn = document.getElementById('reset-btn') as HTMLButtonElement;
 const saveSessionBtn = document.getElementById('save-session-btn') as HTMLButtonElement;
+const exportSessionBtn = document.getElementById('export-session-btn') as HTMLButtonElement;
+const importSessionBtn = document.getElementById('import-session-btn') as HTMLButtonElement;
+const sessionFileInput = document.getElementById('session-file-input') as HTMLInputElement;
 const appTitle = document.getElementById('app-title') as HTMLElement;
 const imageInput = document.getElementById('image-input') as HTMLInputElement;
 const generateBtn = document.getElementById('generate-btn') as HTMLButtonElement;
+const candidateCountSelect = document.getElementById('candidate-count-select') as HTMLSelectElement;
+const candidateStrip = document.getElementById('candidate-strip') as HTMLElement;
 const canvasContainer = document.getElementById('canvas-container') as HTMLElement;
 const codeContainer = document.getElementById('code-container') as HTMLElement;
+const codeWrapper = document.querySelector('.code-wrapper') as HTMLElement;
+const codeEditor = document.getElementById('code-editor') as HTMLTextAreaElement;
+const codeEditorStatus = document.getElementById('code-editor-status') as HTMLElement;
 const loadingContainer = document.getElementById('loading-container') as HTMLElement;
 const progressBar = document.getElementById('progress-bar') as HTMLElement;
 const loadingText = document.getElementById('loading-text') as HTMLParagraphElement;
 const errorMessage = document.getElementById('error-message') as HTMLElement;
+const errorActions = document.getElementById('error-actions') as HTMLElement;
+const cancelGenerationBtn = document.getElementById('cancel-generation-btn') as HTMLButtonElement;
 const resultsContainer = document.getElementById('results-container') as HTMLElement;
-const imagePreview = document.getElementById('image-preview') as HTMLImageElement;
+const imagePreviewList = document.getElementById('image-preview-list') as HTMLElement;
 const imagePreviewContainer = document.getElementById('image-preview-container') as HTMLElement;
 const detailsContainer = document.getElementById('details-container') as HTMLElement;
 const detailsContent = document.getElementById('details-content') as HTMLElement;
 const selectionDetailsContainer = document.getElementById('selection-details-container') as HTMLElement;
+const chemistryReportContainer = document.getElementById('chemistry-report-container') as HTMLElement;
+const chemistryReportContent = document.getElementById('chemistry-report-content') as HTMLElement;
+const validationReportContainer = document.getElementById('validation-report-container') as HTMLElement;
+const validationReportContent = document.getElementById('validation-report-content') as HTMLElement;
 const selectionDetailsContent = document.getElementById('selection-details-content') as HTMLElement;
 const qaContainer = document.getElementById('qa-container') as HTMLElement;
 const qaHistoryContainer = document.getElementById('qa-history-container') as HTMLElement;
 const qaInput = document.getElementById('qa-input') as HTMLTextAreaElement;
 const qaBtn = document.getElementById('qa-btn') as HTMLButtonElement;
+const qaStopBtn = document.getElementById('qa-stop-btn') as HTMLButtonElement;
+const qaModeButtons = document.querySelectorAll<HTMLButtonElement>('.qa-mode-btn');
+const editStatus = document.getElementById('edit-status') as HTMLElement;
+const versionsContainer = document.getElementById('versions-container') as HTMLElement;
+const versionsList = document.getElementById('versions-list') as HTMLElement;
+const versionDiff = document.getElementById('version-diff') as HTMLElement;
+const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
+const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
 const loadModal = document.getElementById('load-modal') as HTMLElement;
 const closeModalBtn = document.getElementById('close-modal-btn') as HTMLElement;
 const savedSessionsList = document.getElementById('saved-sessions-list') as HTMLElement;
+const librarySearchInput = document.getElementById('library-search-input') as HTMLInputElement;
+const libraryModeSelect = document.getElementById('library-mode-select') as HTMLSelectElement;
+const libraryDateSelect = document.getElementById('library-date-select') as HTMLSelectElement;
+const librarySortSelect = document.getElementById('library-sort-select') as HTMLSelectElement;
+const librarySelectAll = document.getElementById('library-select-all') as HTMLInputElement;
+const libraryDeleteBtn = document.getElementById('library-delete-btn') as HTMLButtonElement;
+const sessionPreview = document.getElementById('session-preview') as HTMLElement;
+const sessionTitleInput = document.getElementById('session-title-input') as HTMLInputElement;
+const sessionTagsInput = document.getElementById('session-tags-input') as HTMLInputElement;
+const sessionPreviewImages = document.getElementById('session-preview-images') as HTMLElement;
+const sessionPreviewDetails = document.getElementById('session-preview-details') as HTMLElement;
+const sessionPreviewDeleteBtn = document.getElementById('session-preview-delete-btn') as HTMLButtonElement;
+const sessionOpenBtn = document.getElementById('session-open-btn') as HTMLButtonElement;
 const noSessionsMessage = document.getElementById('no-sessions-message') as HTMLElement;
 const notification = document.getElementById('notification') as HTMLElement;
+const downloadFixturesBtn = document.getElementById('download-fixtures-btn') as HTMLButtonElement;
+const exportToolbar = document.getElementById('export-toolbar') as HTMLElement;
+const exportMolBtn = document.getElementById('export-mol-btn') as HTMLButtonElement;
+const exportXyzBtn = document.getElementById('export-xyz-btn') as HTMLButtonElement;
+const exportPdbBtn = document.getElementById('export-pdb-btn') as HTMLButtonElement;
+const exportStlBtn = document.getElementById('export-stl-btn') as HTMLButtonElement;
+const exportObjBtn = document.getElementById('export-obj-btn') as HTMLButtonElement;
+const exportGltfBtn = document.getElementById('export-gltf-btn') as HTMLButtonElement;
+const exportGlbBtn = document.getElementById('export-glb-btn') as HTMLButtonElement;
+const exportLabelsCheckbox = document.getElementById('export-labels-checkbox') as HTMLInputElement;
+const structureTextContainer = document.getElementById('structure-text-container') as HTMLElement;
+const structureTextInput = document.getElementById('structure-text-input') as HTMLInputElement;
+const buildStructureBtn = document.getElementById('build-structure-btn') as HTMLButtonElement;
+const optimizeGeometryBtn = document.getElementById('optimize-geometry-btn') as HTMLButtonElement;
+const measureButtons = document.querySelectorAll<HTMLButtonElement>('.measure-btn');
+const measurementsContainer = document.getElementById('measurements-container') as HTMLElement;
+const measurementHint = document.getElementById('measurement-hint') as HTMLElement;
+const measurementsList = document.getElementById('measurements-list') as HTMLUListElement;
+const measurementsContextCheckbox = document.getElementById('measurements-context-checkbox') as HTMLInputElement;
+const clearMeasurementsBtn = document.getElementById('clear-measurements-btn') as HTMLButtonElement;
+const sectionBtn = document.getElementById('section-btn') as HTMLButtonElement;
+const sectionContainer = document.getElementById('section-container') as HTMLElement;
+const sectionAxisButtons = document.querySelectorAll<HTMLButtonElement>('.section-axis-btn');
+const sectionMoveBtn = document.getElementById('section-move-btn') as HTMLButtonElement;
+const sectionRotateBtn = document.getElementById('section-rotate-btn') as HTMLButtonElement;
+const sectionOffsetInput = document.getElementById('section-offset-input') as HTMLInputElement;
+const sectionTiltInput = document.getElementById('section-tilt-input') as HTMLInputElement;
+const sectionTurnInput = document.getElementById('section-turn-input') as HTMLInputElement;
+const sectionDetailsContent = document.getElementById('section-details-content') as HTMLElement;
+const sectionAskBtn = document.getElementById('section-ask-btn') as HTMLButtonElement;
+const unfoldNetBtn = document.getElementById('unfold-net-btn') as HTMLButtonElement;
+const editModelBtn = document.getElementById('edit-model-btn') as HTMLButtonElement;
+const modelEditorContainer = document.getElementById('model-editor-container') as HTMLElement;
+const modelEditorHint = document.getElementById('model-editor-hint') as HTMLElement;
+const chemistryEditorTools = document.getElementById('chemistry-editor-tools') as HTMLElement;
+const editorElementInput = document.getElementById('editor-element-input') as HTMLInputElement;
+const editorAddAtomBtn = document.getElementById('editor-add-atom-btn') as HTMLButtonElement;
+const editorAddBondBtn = document.getElementById('editor-add-bond-btn') as HTMLButtonElement;
+const editorBondOrderSelect = document.getElementById('editor-bond-order-select') as HTMLSelectElement;
+const editorDeleteBtn = document.getElementById('editor-delete-btn') as HTMLButtonElement;
+const exportNetSvgBtn = document.getElementById('export-net-svg-btn') as HTMLButtonElement;
+const crystalRepeatSelect = document.getElementById('crystal-repeat-select') as HTMLSelectElement;
+const imagePrepModal = document.getElementById('image-prep-modal') as HTMLElement;
+const imagePrepTitle = document.getElementById('image-prep-title') as HTMLElement;
+const closePrepBtn = document.getElementById('close-prep-btn') as HTMLElement;
+const prepPageOption = document.getElementById('prep-page-option') as HTMLElement;
+const prepPageSelect = document.getElementById('prep-page-select') as HTMLSelectElement;
+const prepRotateLeftBtn = document.getElementById('prep-rotate-left-btn') as HTMLButtonElement;
+const prepRotateRightBtn = document.getElementById('prep-rotate-right-btn') as HTMLButtonElement;
+const prepShapeButtons = document.querySelectorAll<HTMLButtonElement>('.prep-shape-btn');
+const prepContrastInput = document.getElementById('prep-contrast-input') as HTMLInputElement;
+const prepResetBtn = document.getElementById('prep-reset-btn') as HTMLButtonElement;
+const prepCanvas = document.getElementById('prep-canvas') as HTMLCanvasElement;
+const prepOverlay = document.getElementById('prep-overlay') as unknown as SVGSVGElement;
+const prepInfo = document.getElementById('prep-info') as HTMLElement;
+const prepCancelBtn = document.getElementById('prep-cancel-btn') as HTMLButtonElement;
+const prepUseBtn = document.getElementById('prep-use-btn') as HTMLButtonElement;
 
 
 // --- State ---
-let currentMode: 'geometry' | 'chemistry' | null = null;
-let selectedImage: { data: string; mimeType: string; } | null = null;
-let highlightedObjects: { object: THREE.Mesh, originalColor: THREE.Color }[] = [];
+let currentMode: AppMode | null = null;
+let selectedImages: ImageInput[] = [];
+let highlightedObjects: { material: THREE.MeshStandardMaterial, originalColor: THREE.Color }[] = [];
 let generatedModelData: string | null = null;
 let currentSelectionDetails: any | null = null;
 let qaHistory: QAPair[] = [];
 let notificationTimeout: number | null = null;
-let chat: Chat | null = null;
+let chat: ProviderChat | null = null;
+let qaAbortController: AbortController | null = null; // the answer being streamed or the edit being made, if any
+let qaMode: 'ask' | 'edit' = 'ask';
+let modelVersions: ModelVersion[] = []; // every state of the current model, oldest first
+let versionIndex = 0; // the version shown; later ones are what redo brings back
+let generationAbortController: AbortController | null = null; // the model being generated, if any
+let modelCandidates: ModelCandidate[] = []; // best first; empty unless several were generated
+let selectedCandidateIndex = 0;
 let currentSessionId: number | null = null;
-
-
-// --- Gemini AI Setup ---
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const model = 'gemini-2.5-pro';
+let currentSessionInfo: SessionInfo = {}; // kept so saving an update doesn't drop the title and tags
+let librarySessions: Session[] = [];
+let librarySelection = new Set<number>(); // ids ticked for deletion
+let libraryPreviewId: number | null = null;
+let optimizationFrameId: number | null = null;
+let measurementKind: MeasurementKind | null = null;
+let pendingMeasurementPoints: MeasurementPoint[] = [];
+let measurements: MeasurementAnnotation[] = [];
+let currentSection: CrossSection | null = null;
+let sectionPlane: THREE.Plane | null = null; // world-space clipping plane while slicing
+let lastGizmoDragEnd = 0;
+let netObject: THREE.Group | null = null; // shown instead of the solid while unfolded
+let netAnimationFrameId: number | null = null;
+let crystalRepeat = 1; // unit cells shown along each lattice vector
+let imagePrep: ImagePrepState | null = null; // the image open in the preparation editor
+let draggedPrepCorner: number | null = null;
+let modelEditing = false; // whether the model is open for editing by hand
+let editorSelection: EditorSelection | null = null;
+let bondingFrom: number | null = null; // the atom a new bond starts from, waiting for the other atom to be clicked
+let jsonEditVersion: number | null = null; // the version the JSON panel's current burst of typing updates
+let jsonEditTimeout: number | null = null;
+
+
+// --- AI Provider Setup ---
+const aiProvider = createProviderFromEnv();
+const requestPolicy = getRequestPolicyFromEnv();
 
 // --- Schemas for JSON output ---
 const geometrySchema = {
@@ -199,6 +324,57 @@ const chemistrySchema = {
     required: ['atoms', 'bonds', 'analysis'],
 };
 
+const crystalSchema = {
+    type: Type.OBJECT,
+    properties: {
+        lattice: {
+            type: Type.OBJECT,
+            description: "The conventional unit cell. Edge lengths in ångströms, angles in degrees.",
+            properties: {
+                a: { type: Type.NUMBER, description: "Edge length a in Å." },
+                b: { type: Type.NUMBER, description: "Edge length b in Å." },
+                c: { type: Type.NUMBER, description: "Edge length c in Å." },
+                alpha: { type: Type.NUMBER, description: "Angle between b and c in degrees." },
+                beta: { type: Type.NUMBER, description: "Angle between a and c in degrees." },
+                gamma: { type: Type.NUMBER, description: "Angle between a and b in degrees." },
+            },
+            required: ['a', 'b', 'c', 'alpha', 'beta', 'gamma'],
+        },
+        basis: {
+            type: Type.ARRAY,
+            description: "Every atom or ion in one unit cell, each site listed once.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    element: { type: Type.STRING, description: "Element symbol (e.g., Na, Cl)." },
+                    fractional: {
+                        type: Type.ARRAY,
+                        description: "Fractional coordinates [x, y, z] along a, b and c, each from 0 up to (not including) 1.",
+                        items: { type: Type.NUMBER },
+                    },
+                },
+                required: ['element', 'fractional'],
+            },
+        },
+        analysis: {
+            type: Type.OBJECT,
+            description: "Overall crystallographic information.",
+            properties: {
+                name: { type: Type.STRING, description: "Name of the substance (e.g., Sodium chloride)." },
+                formula: { type: Type.STRING, description: "Empirical formula (e.g., NaCl)." },
+                structureType: { type: Type.STRING, description: "Structure type (e.g., Rock salt, Caesium chloride, Diamond cubic)." },
+                latticeType: { type: Type.STRING, description: "Bravais lattice (e.g., Face-centred cubic)." },
+                bondingType: { type: Type.STRING, description: "Primary bonding type (e.g., Ionic, Metallic, Covalent network)." },
+                coordinationNumber: { type: Type.STRING, description: "Coordination number of each kind of site (e.g., Na 6, Cl 6)." },
+                packingEfficiency: { type: Type.STRING, description: "Fraction of the cell filled by the atoms or ions (e.g., 74%)." },
+                density: { type: Type.STRING, description: "Density computed from the cell (e.g., 2.16 g/cm^3)." },
+            },
+            required: ['name', 'formula', 'structureType', 'latticeType', 'bondingType', 'coordinationNumber', 'packingEfficiency', 'density'],
+        },
+    },
+    required: ['lattice', 'basis', 'analysis'],
+};
+
 // --- Prompts ---
 const GEOMETRY_PROMPT = `
 You are an expert CAD (Computer-Aided Design) engine. Your task is to analyze the provided 2D technical drawing and generate a precise 3D model in a specific JSON format.
@@ -258,10 +434,53 @@ You are an expert computational chemist. Your task is to analyze the provided im
 `;
 
 
+const CRYSTAL_PROMPT = `
+You are an expert crystallographer. Your task is to analyze the provided image of a crystal structure, unit cell diagram or homework question about a solid, and describe its conventional unit cell in a specific JSON format.
+
+**Instructions:**
+1.  **Identify the Structure:** Determine the substance and its structure type (e.g., rock salt NaCl, caesium chloride CsCl, diamond, face-centred cubic Cu, body-centred cubic Fe, hexagonal close-packed Mg). If the image only names the substance, use its known structure.
+2.  **Lattice Parameters:** Give the conventional cell's edge lengths a, b and c in ångströms and the angles alpha, beta and gamma in degrees. Use values stated in the image; otherwise use standard experimental values (e.g., NaCl a = 5.64 Å, CsCl a = 4.12 Å, Cu a = 3.61 Å).
+3.  **Basis (CRITICAL):**
+    - List every atom or ion that belongs to ONE unit cell with fractional coordinates from 0 up to, but not including, 1.
+    - Each site appears exactly once. Do NOT list the equivalent corner, edge or face images separately: the corner atom is [0, 0, 0] only, and a face centre on the x = 0 face is not repeated on the x = 1 face.
+    - For example, FCC copper is Cu at [0, 0, 0], [0.5, 0.5, 0], [0.5, 0, 0.5] and [0, 0.5, 0.5].
+4.  **Analysis:** Give the name, empirical formula, structure type, Bravais lattice, bonding type, the coordination number of each kind of site, the packing efficiency and the density worked out from the cell.
+5.  **Output Format:** Output a single, valid JSON object adhering strictly to the provided schema.
+`;
+
+// Added to the prompt when several images are sent; each image follows a caption naming it
+const MULTI_IMAGE_PROMPT = `
+**Several Images:** The images are separate views or pages of the same problem (e.g., front, top and side views, "Figure 1" and "Figure 2", or several worksheet pages). Each one follows a caption with its number and, where the student gave one, its role. Combine the information from ALL of them into a single answer.
+`;
+
+const REPAIR_PROMPT = `
+**Correction Needed:** Your previous response to this task failed validation. It is shown below, followed by the exact problems found. Return the complete corrected JSON object: fix every listed problem, keep everything that was already correct, and follow the schema exactly.
+`;
+// Responses that fail validation are sent back with their problems at most this many times
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const EDIT_PROMPT = `
+**Edit Request:** The model for this task has already been made. Its current JSON is shown below, followed by a change the student asked for. Return the complete JSON object for the changed model, following the schema exactly. Change only what the request asks for and keep everything else as it is, but update whatever depends on the change so the model stays consistent: dimension labels and their positions, the analysis values and formulas, indices, and bond angles.
+`;
+
+const MODE_PROMPTS: { [mode in AppMode]: string } = { geometry: GEOMETRY_PROMPT, chemistry: CHEMISTRY_PROMPT, crystal: CRYSTAL_PROMPT };
+const MODE_SCHEMAS: { [mode in AppMode]: object } = { geometry: geometrySchema, chemistry: chemistrySchema, crystal: crystalSchema };
+const QA_PLACEHOLDERS: { [mode in AppMode]: { ask: string, edit: string } } = {
+    geometry: { ask: 'eg. how to calculate the volume?', edit: 'eg. make the cylinder 10 cm tall' },
+    chemistry: { ask: 'what is the shape of the chemical structure around the C atom?', edit: 'eg. replace the OH with an NH2' },
+    crystal: { ask: 'eg. why does each Na+ ion touch six Cl- ions?', edit: 'eg. make it body-centred cubic with a = 3.3 Å' },
+};
+
+
 // --- Three.js Setup ---
 let scene: THREE.Scene, camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer, controls: OrbitControls;
 let generatedObject: THREE.Object3D | null = null;
 let angleVisualizationGroup: THREE.Group;
+let measurementGroup: THREE.Group;
+let sectionGroup: THREE.Group;
+let sectionHandle: THREE.Group;
+let transformControls: TransformControls;
+let editorHandleGroup: THREE.Group;
 
 function initThree() {
     scene = new THREE.Scene();
@@ -272,6 +491,7 @@ function initThree() {
 
     renderer = new THREE.WebGLRenderer({ antialias: true });
     renderer.setPixelRatio(window.devicePixelRatio);
+    renderer.localClippingEnabled = true;
     canvasContainer.appendChild(renderer.domElement);
     
     controls = new OrbitControls(camera, renderer.domElement);
@@ -285,6 +505,29 @@ function initThree() {
     
     angleVisualizationGroup = new THREE.Group();
     scene.add(angleVisualizationGroup);
+    measurementGroup = new THREE.Group();
+    scene.add(measurementGroup);
+    sectionGroup = new THREE.Group();
+    scene.add(sectionGroup);
+
+    // The slicing plane is dragged through this handle; its local Z axis is the plane normal
+    sectionHandle = new THREE.Group();
+    sectionHandle.visible = false;
+    scene.add(sectionHandle);
+    transformControls = new TransformControls(camera, renderer.domElement);
+    transformControls.setSpace('local');
+    transformControls.addEventListener('dragging-changed', (event: any) => {
+        controls.enabled = !event.value;
+        if (!event.value) lastGizmoDragEnd = performance.now();
+    });
+    transformControls.addEventListener('objectChange', handleSectionHandleChange);
+    transformControls.addEventListener('dragging-changed', (event: any) => {
+        if (!event.value) handleEditorDragEnd();
+    });
+    transformControls.addEventListener('objectChange', handleEditorHandleChange);
+    editorHandleGroup = new THREE.Group();
+    scene.add(editorHandleGroup);
+    scene.add(transformControls.getHelper());
 
     renderer.domElement.addEventListener('click', onCanvasClick, false);
 
@@ -309,7 +552,8 @@ window.addEventListener('resize', onWindowResize, false);
 
 
 // --- Interactivity ---
-function drawAngleVisualization(p1: THREE.Vector3, pCenter: THREE.Vector3, p2: THREE.Vector3, angleText: string) {
+function drawAngleVisualization(p1: THREE.Vector3, pCenter: THREE.Vector3, p2: THREE.Vector3, angleText: string,
+    group: THREE.Group = angleVisualizationGroup, arcRadius = 0.4 * CHEM_MODEL_SCALE, labelScale = 0.5) {
     const v1 = new THREE.Vector3().subVectors(p1, pCenter);
     const v2 = new THREE.Vector3().subVectors(p2, pCenter);
 
@@ -331,8 +575,6 @@ function drawAngleVisualization(p1: THREE.Vector3, pCenter: THREE.Vector3, p2: T
     // Don't draw for 0 degrees
     if (angle < 0.01) return;
 
-    const arcRadius = 0.4 * CHEM_MODEL_SCALE;
-
     // Create the arc geometry
     const curve = new THREE.ArcCurve(0, 0, arcRadius, 0, angle, false);
     const points = curve.getPoints(32);
@@ -353,7 +595,7 @@ function drawAngleVisualization(p1: THREE.Vector3, pCenter: THREE.Vector3, p2: T
     pivot.quaternion.setFromRotationMatrix(matrix);
 
     pivot.add(arcLine);
-    angleVisualizationGroup.add(pivot);
+    group.add(pivot);
 
     // Create and position the label
     const labelSprite = createLabelSprite(angleText);
@@ -367,39 +609,35 @@ function drawAngleVisualization(p1: THREE.Vector3, pCenter: THREE.Vector3, p2: T
         
         const labelOffset = (arcRadius + 0.15) * 1.5; // Position label relative to arc
         labelSprite.position.copy(pCenter).add(bisector.multiplyScalar(labelOffset));
-        labelSprite.scale.set(0.5, 0.5, 0.5);
-        angleVisualizationGroup.add(labelSprite);
+        labelSprite.scale.set(labelScale, labelScale, labelScale);
+        group.add(labelSprite);
     }
 }
 
 function handleHighlight(intersect: THREE.Intersection) {
-    angleVisualizationGroup.clear();
+    clearGroup(angleVisualizationGroup);
 
     if (intersect.object instanceof THREE.Mesh && !(intersect.object instanceof THREE.Sprite)) {
         const clickedMesh = intersect.object;
 
         if (currentMode === 'geometry') {
-            const faceId = clickedMesh.userData.faceId;
-            if (faceId === undefined) return;
+            // The whole solid is one mesh; map the hit triangle back to its face group
+            const triangleFaceIds = clickedMesh.userData.triangleFaceIds as Int32Array | undefined;
+            if (!triangleFaceIds || intersect.faceIndex === undefined || intersect.faceIndex === null) return;
+            const faceId = triangleFaceIds[intersect.faceIndex];
+            const faceDetails = clickedMesh.userData.faceDetails?.[faceId];
 
-            if(clickedMesh.userData.details) {
+            if(faceDetails) {
                 const selectionData = {
                     type: 'geometry_face',
                     id: faceId,
-                    details: clickedMesh.userData.details
+                    details: faceDetails
                 };
                 displaySelectionDetails(selectionData.details);
                 currentSelectionDetails = selectionData;
             }
 
-            generatedObject?.children.forEach(child => {
-                if (child instanceof THREE.Mesh && child.userData.faceId === faceId) {
-                    const material = child.material as THREE.MeshStandardMaterial;
-                    const originalColor = material.color.clone();
-                    material.color.setHex(0xffff99); // Light yellow
-                    highlightedObjects.push({ object: child, originalColor: originalColor });
-                }
-            });
+            highlightGeometryFace(faceId);
 
         } else if (currentMode === 'chemistry') {
             let details: any;
@@ -431,10 +669,7 @@ function handleHighlight(intersect: THREE.Intersection) {
                 // Highlight all cylinders in the bond group
                 bondGroup.traverse(child => {
                     if (child instanceof THREE.Mesh) {
-                        const material = child.material as THREE.MeshStandardMaterial;
-                        const originalColor = material.color.clone();
-                        material.color.setHex(0xffff99);
-                        highlightedObjects.push({ object: child, originalColor: originalColor });
+                        highlightMaterial(child.material as THREE.MeshStandardMaterial);
                     }
                 });
             } else if (clickedMesh.userData.details?.element) {
@@ -449,10 +684,7 @@ function handleHighlight(intersect: THREE.Intersection) {
                 currentSelectionDetails = selectionData;
 
                 // Single object highlight for atom
-                const material = clickedMesh.material as THREE.MeshStandardMaterial;
-                const originalColor = material.color.clone();
-                material.color.setHex(0xffff99);
-                highlightedObjects.push({ object: clickedMesh, originalColor: originalColor });
+                highlightMaterial(clickedMesh.material as THREE.MeshStandardMaterial);
 
                 // If it's an atom, draw its angles
                 if (generatedObject && generatedObject.userData.atomPositions) {
@@ -477,27 +709,43 @@ function handleHighlight(intersect: THREE.Intersection) {
                     }
                 }
             }
+        } else if (currentMode === 'crystal') {
+            const details = clickedMesh.userData.details;
+            if (!details?.fractional) return;
+            const selectionData = {
+                type: 'crystal_atom',
+                id: { atomIndex: details.atomIndex, fractional: details.fractional },
+                details: details
+            };
+            displaySelectionDetails(selectionData.details);
+            currentSelectionDetails = selectionData;
+            highlightMaterial(clickedMesh.material as THREE.MeshStandardMaterial);
         }
     }
 }
 
 
-function onCanvasClick(event: MouseEvent) {
-    // 1. Clear previous state
-    if (highlightedObjects.length > 0) {
-        highlightedObjects.forEach(h => {
-            (h.object.material as THREE.MeshStandardMaterial).color.copy(h.originalColor);
-        });
-        highlightedObjects = [];
-    }
-    angleVisualizationGroup.clear();
-    selectionDetailsContainer.classList.add('hidden');
-    selectionDetailsContent.innerHTML = '';
-    currentSelectionDetails = null;
+function highlightMaterial(material: THREE.MeshStandardMaterial) {
+    const originalColor = material.color.clone();
+    material.color.setHex(0xffff99); // Light yellow
+    highlightedObjects.push({ material, originalColor });
+}
 
-    if (!generatedObject) return;
+function highlightGeometryFace(faceId: number) {
+    generatedObject?.children.forEach(child => {
+        if (child instanceof THREE.Mesh && child.userData.triangleFaceIds) {
+            const material = (child.material as THREE.MeshStandardMaterial[])[faceId];
+            if (material) highlightMaterial(material);
+        }
+    });
+}
 
-    // 2. Set up Raycaster
+function clearHighlights() {
+    highlightedObjects.forEach(h => h.material.color.copy(h.originalColor));
+    highlightedObjects = [];
+}
+
+function getCanvasRaycaster(event: MouseEvent): THREE.Raycaster {
     const mouse = new THREE.Vector2();
     const rect = renderer.domElement.getBoundingClientRect();
     mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
@@ -505,9 +753,43 @@ function onCanvasClick(event: MouseEvent) {
 
     const raycaster = new THREE.Raycaster();
     raycaster.setFromCamera(mouse, camera);
+    return raycaster;
+}
+
+function getCanvasIntersections(event: MouseEvent): THREE.Intersection[] {
+    // The net is for looking at; the hidden solid underneath shouldn't be picked
+    if (!generatedObject || netObject) return [];
 
-    // 3. Find intersections
-    const intersects = raycaster.intersectObject(generatedObject, true);
+    const raycaster = getCanvasRaycaster(event);
+    // Parts cut away by the slicing plane aren't drawn, so they can't be clicked either
+    return raycaster.intersectObject(generatedObject, true)
+        .filter((intersect: THREE.Intersection) => !sectionPlane || sectionPlane.distanceToPoint(intersect.point) >= 0);
+}
+
+function onCanvasClick(event: MouseEvent) {
+    // Releasing the slicing plane's or the editor's handle also fires a click
+    if (performance.now() - lastGizmoDragEnd < GIZMO_CLICK_GUARD_MS) return;
+
+    if (modelEditing) {
+        handleEditorClick(event);
+        return;
+    }
+
+    // While measuring, clicks pick points and leave the selection alone
+    if (measurementKind) {
+        handleMeasurementPick(getCanvasIntersections(event));
+        return;
+    }
+
+    // 1. Clear previous state
+    clearHighlights();
+    clearGroup(angleVisualizationGroup);
+    selectionDetailsContainer.classList.add('hidden');
+    selectionDetailsContent.innerHTML = '';
+    currentSelectionDetails = null;
+
+    // 2. Find intersections
+    const intersects = getCanvasIntersections(event);
 
     if (intersects.length > 0) {
         handleHighlight(intersects[0]);
@@ -515,466 +797,1508 @@ function onCanvasClick(event: MouseEvent) {
 }
 
 
-function frameObject(object: THREE.Object3D) {
-    const boundingBox = new THREE.Box3().setFromObject(object);
-    const center = boundingBox.getCenter(new THREE.Vector3());
-    const size = boundingBox.getSize(new THREE.Vector3());
-
-    const maxDim = Math.max(size.x, size.y, size.z);
-    const fov = camera.fov * (Math.PI / 180);
-    let cameraZ = Math.abs(maxDim / 2 / Math.tan(fov / 2));
-    cameraZ *= 1.5; 
-    
-    const direction = controls.object.position.clone().sub(controls.target).normalize();
-    camera.position.copy(center).add(direction.multiplyScalar(cameraZ));
-    camera.lookAt(center);
+// --- Measurements ---
+const VERTEX_SNAP_FRACTION = 0.1; // clicks this close to a corner, relative to the triangle's longest edge, pick the vertex
 
-    controls.target.copy(center);
-    controls.update();
+// Model coordinates (Å or drawing units) to the world position where they are drawn
+function modelToWorld(position: number[]): THREE.Vector3 {
+    const point = new THREE.Vector3().fromArray(position);
+    if (currentMode === 'chemistry') point.multiplyScalar(CHEM_MODEL_SCALE);
+    if (!generatedObject) return point;
+    generatedObject.updateMatrixWorld();
+    return point.applyMatrix4(generatedObject.matrixWorld);
 }
 
-function reHighlightSelection(selectionContext: any) {
-    if (!generatedObject || !selectionContext) return;
+/**
+ * Turns a ray hit into a measurement point in model coordinates. Molecules measure between atom
+ * centres, so a bond hit picks its nearer atom; crystals measure between the atoms as drawn,
+ * which may lie in different cells; solids snap to a nearby vertex of the hit triangle and
+ * otherwise keep the exact point on the face.
+ */
+function getMeasurementPoint(intersect: THREE.Intersection, data: any): MeasurementPoint | null {
+    const object = intersect.object;
+    if (!generatedObject || !(object instanceof THREE.Mesh) || object instanceof THREE.Sprite) return null;
+
+    if (currentMode === 'chemistry') {
+        let atomIndex: number | undefined = object.userData.details?.atomIndex;
+        if (atomIndex === undefined) {
+            let bondGroup: THREE.Object3D | null = object;
+            while (bondGroup && bondGroup.userData.details?.startAtomIndex === undefined) bondGroup = bondGroup.parent;
+            const details = bondGroup?.userData.details;
+            if (!details) return null;
+            const start = modelToWorld(data.atoms[details.startAtomIndex].position);
+            const end = modelToWorld(data.atoms[details.endAtomIndex].position);
+            atomIndex = intersect.point.distanceTo(start) <= intersect.point.distanceTo(end) ? details.startAtomIndex : details.endAtomIndex;
+        }
+        const atom = data.atoms[atomIndex!];
+        if (!atom) return null;
+        return { label: `${atom.element}${atomIndex! + 1}`, position: [...atom.position] as [number, number, number], atomIndex };
+    }
 
-    // 1. Clear any existing highlights
-    if (highlightedObjects.length > 0) {
-        highlightedObjects.forEach(h => {
-            (h.object.material as THREE.MeshStandardMaterial).color.copy(h.originalColor);
+    if (currentMode === 'crystal') {
+        const details = object.userData.details;
+        if (!details?.fractional) return null;
+        return { label: `${details.element}(${details.fractional.join(', ')})`, position: object.position.toArray() };
+    }
+
+    const triangleFaceIds = object.userData.triangleFaceIds as Int32Array | undefined;
+    if (!triangleFaceIds || intersect.faceIndex === undefined || intersect.faceIndex === null) return null;
+    const local = generatedObject.worldToLocal(intersect.point.clone());
+
+    const positionAttribute = object.geometry.getAttribute('position');
+    const corners = [0, 1, 2].map(k => new THREE.Vector3().fromBufferAttribute(positionAttribute, intersect.faceIndex! * 3 + k));
+    const longestEdge = Math.max(corners[0].distanceTo(corners[1]), corners[1].distanceTo(corners[2]), corners[2].distanceTo(corners[0]));
+    const nearest = corners.reduce((best, corner) => corner.distanceTo(local) < best.distanceTo(local) ? corner : best);
+    if (nearest.distanceTo(local) <= VERTEX_SNAP_FRACTION * longestEdge) {
+        // Report the vertex with its original coordinates rather than the Float32 copy
+        let vertexIndex = -1;
+        let bestDistance = Infinity;
+        data.vertices.forEach((vertex: number[], index: number) => {
+            const distance = Array.isArray(vertex) ? nearest.distanceToSquared(new THREE.Vector3().fromArray(vertex)) : Infinity;
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                vertexIndex = index;
+            }
         });
-        highlightedObjects = [];
+        const vertex = data.vertices[vertexIndex];
+        return { label: `vertex ${vertexIndex + 1}`, position: [vertex[0], vertex[1], vertex[2]], vertexIndex };
     }
-    angleVisualizationGroup.clear();
-    selectionDetailsContainer.classList.add('hidden');
-    selectionDetailsContent.innerHTML = '';
-    currentSelectionDetails = null;
 
-    // 2. Perform new highlight based on context
-    currentSelectionDetails = selectionContext;
-    displaySelectionDetails(selectionContext.details);
-    
-    switch(selectionContext.type) {
-        case 'geometry_face':
-            generatedObject?.children.forEach(child => {
-                if (child instanceof THREE.Mesh && child.userData.faceId === selectionContext.id) {
-                    const material = child.material as THREE.MeshStandardMaterial;
-                    const originalColor = material.color.clone();
-                    material.color.setHex(0xffff99); // Light yellow
-                    highlightedObjects.push({ object: child, originalColor: originalColor });
-                }
-            });
-            break;
-        
-        case 'chemistry_atom':
-            generatedObject.traverse(child => {
-                if (child instanceof THREE.Mesh && child.userData.details?.atomIndex === selectionContext.id) {
-                    const material = child.material as THREE.MeshStandardMaterial;
-                    const originalColor = material.color.clone();
-                    material.color.setHex(0xffff99);
-                    highlightedObjects.push({ object: child, originalColor: originalColor });
+    const faceIndex = triangleFaceIds[intersect.faceIndex];
+    return { label: `face ${faceIndex + 1} point`, position: [local.x, local.y, local.z], faceIndex };
+}
 
-                    if (generatedObject && generatedObject.userData.atomPositions) {
-                        const originalAtomPositions = generatedObject.userData.atomPositions as THREE.Vector3[];
-                        const finalAtomPositions = originalAtomPositions.map(p => p.clone().applyMatrix4(generatedObject!.matrixWorld));
-                        const details = selectionContext.details;
+function handleMeasurementPick(intersects: THREE.Intersection[]) {
+    if (!measurementKind || !generatedModelData || !currentMode) return;
+    const data = JSON.parse(generatedModelData);
 
-                        if (details.bondAngles && Array.isArray(details.bondAngles)) {
-                            details.bondAngles.forEach((angleInfo: any) => {
-                                const indices = angleInfo.atomsInvolvedIndices;
-                                if (indices && indices.length === 3) {
-                                    const p1 = finalAtomPositions[indices[0]];
-                                    const pCenter = finalAtomPositions[indices[1]];
-                                    const p2 = finalAtomPositions[indices[2]];
-                                    if (p1 && pCenter && p2) {
-                                        drawAngleVisualization(p1, pCenter, p2, angleInfo.angle);
-                                    }
-                                }
-                            });
-                        }
-                    }
-                }
-            });
-            break;
+    let point: MeasurementPoint | null = null;
+    for (const intersect of intersects) {
+        point = getMeasurementPoint(intersect, data);
+        if (point) break;
+    }
+    if (!point) return;
 
-        case 'chemistry_bond':
-             generatedObject.traverse(child => {
-                if (child instanceof THREE.Group && child.userData.details?.startAtomIndex === selectionContext.id.start && child.userData.details?.endAtomIndex === selectionContext.id.end) {
-                    child.traverse(mesh => {
-                         if (mesh instanceof THREE.Mesh) {
-                            const material = mesh.material as THREE.MeshStandardMaterial;
-                            const originalColor = material.color.clone();
-                            material.color.setHex(0xffff99);
-                            highlightedObjects.push({ object: mesh, originalColor: originalColor });
-                        }
-                    });
-                }
-            });
-            break;
+    // A second click on the point just picked would only give a zero-length measurement
+    const previous = pendingMeasurementPoints[pendingMeasurementPoints.length - 1];
+    if (previous && previous.label === point.label && previous.position.every((c, i) => c === point!.position[i])) return;
+
+    pendingMeasurementPoints.push(point);
+    if (pendingMeasurementPoints.length === POINTS_PER_MEASUREMENT[measurementKind]) {
+        measurements.push(createMeasurement(measurementKind, pendingMeasurementPoints, getModelLengthUnit(data, currentMode)));
+        pendingMeasurementPoints = [];
     }
+    renderMeasurements();
 }
 
-// --- Helper Functions for AI ---
+function setMeasurementKind(kind: MeasurementKind | null) {
+    if (kind && modelEditing) setModelEditing(false);
+    measurementKind = kind;
+    pendingMeasurementPoints = [];
+    measureButtons.forEach(button => button.classList.toggle('active', button.dataset.measure === kind));
+    renderMeasurements();
+}
+
+function drawMeasurements() {
+    clearGroup(measurementGroup);
+    if (!generatedObject) return;
+
+    // Markers and labels are sized from the model so they read the same on a molecule and on a large solid
+    const size = new THREE.Box3().setFromObject(generatedObject).getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z) || 1;
+    const labelScale = maxDim / 20;
+    const material = new THREE.LineBasicMaterial({ color: 0xffff99, depthTest: false });
+
+    const addMarker = (position: THREE.Vector3) => {
+        const marker = new THREE.Mesh(new THREE.SphereGeometry(maxDim / 80, 12, 12), new THREE.MeshBasicMaterial({ color: 0xffff99, depthTest: false }));
+        marker.position.copy(position);
+        marker.renderOrder = 1;
+        measurementGroup.add(marker);
+    };
+    const addLine = (points: THREE.Vector3[]) => {
+        const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), material.clone());
+        line.renderOrder = 1;
+        measurementGroup.add(line);
+    };
+    const addLabel = (text: string, position: THREE.Vector3) => {
+        const labelSprite = createLabelSprite(text);
+        if (!labelSprite) return;
+        labelSprite.position.copy(position);
+        labelSprite.scale.multiplyScalar(labelScale);
+        measurementGroup.add(labelSprite);
+    };
+
+    measurements.forEach(measurement => {
+        const points = measurement.points.map(point => modelToWorld(point.position));
+        points.forEach(addMarker);
+        if (measurement.kind === 'distance') {
+            addLine(points);
+            addLabel(measurement.text, points[0].clone().lerp(points[1], 0.5).add(new THREE.Vector3(0, labelScale * 0.8, 0)));
+        } else if (measurement.kind === 'angle') {
+            addLine(points);
+            const arcRadius = 0.3 * Math.min(points[0].distanceTo(points[1]), points[2].distanceTo(points[1]));
+            drawAngleVisualization(points[0], points[1], points[2], measurement.text, measurementGroup, arcRadius, labelScale);
+        } else {
+            addLine(points);
+            addLabel(measurement.text, points[1].clone().lerp(points[2], 0.5).add(new THREE.Vector3(0, labelScale * 0.8, 0)));
+        }
+    });
+    pendingMeasurementPoints.forEach(point => addMarker(modelToWorld(point.position)));
+    material.dispose();
+}
+
+function renderMeasurements() {
+    drawMeasurements();
+
+    measurementsList.innerHTML = '';
+    measurements.forEach((measurement, index) => {
+        const item = document.createElement('li');
+        const text = document.createElement('span');
+        text.textContent = describeMeasurement(measurement);
+        const removeBtn = document.createElement('button');
+        removeBtn.innerHTML = '<span class="material-icons">close</span>';
+        removeBtn.title = 'Remove measurement';
+        removeBtn.addEventListener('click', () => {
+            measurements.splice(index, 1);
+            renderMeasurements();
+        });
+        item.append(text, removeBtn);
+        measurementsList.appendChild(item);
+    });
+
+    if (measurementKind) {
+        const remaining = POINTS_PER_MEASUREMENT[measurementKind] - pendingMeasurementPoints.length;
+        const noun = currentMode === 'geometry' ? 'point' : 'atom';
+        const picked = pendingMeasurementPoints.map(point => point.label).join(', ');
+        measurementHint.textContent = `Click ${remaining} more ${noun}${remaining === 1 ? '' : 's'} to measure the ${measurementKind}.${picked ? ` Picked: ${picked}.` : ''}`;
+    } else {
+        measurementHint.textContent = 'Choose Distance, Angle or Dihedral in the toolbar to add a measurement.';
+    }
+    measurementHint.classList.toggle('hidden', !measurementKind && measurements.length > 0);
+    measurementsContainer.classList.toggle('hidden', !measurementKind && measurements.length === 0);
+}
+
+function resetMeasurements() {
+    measurements = [];
+    setMeasurementKind(null);
+}
 
 /**
- * Converts a response string with potential Markdown into formatted HTML.
- * @param text The raw response string.
- * @returns An HTML string.
+ * Atom and vertex points follow their atoms and vertices when the coordinates change; other points
+ * stay where they were picked. Measurements using an atom or vertex that no longer exists are dropped.
  */
-function formatResponseTextToHtml(text: string): string {
-    // 1. Strip any potential LaTeX delimiters just in case.
-    let processedText = text.replace(/\$\$([\s\S]*?)\$\$|\$([\s\S]*?)\$/g, (match, displayMath, inlineMath) => {
-        return displayMath || inlineMath || '';
+function refreshMeasurements(data: any) {
+    const unit = getModelLengthUnit(data, currentMode!);
+    const updatePoint = (point: MeasurementPoint): MeasurementPoint | null => {
+        if (point.atomIndex !== undefined) {
+            const atom = data.atoms?.[point.atomIndex];
+            return atom ? { ...point, position: [...atom.position] as [number, number, number] } : null;
+        }
+        if (point.vertexIndex !== undefined) {
+            const vertex = data.vertices?.[point.vertexIndex];
+            return vertex ? { ...point, position: [...vertex] as [number, number, number] } : null;
+        }
+        return point;
+    };
+    const updatePoints = (points: MeasurementPoint[]) => {
+        const updated = points.map(updatePoint);
+        return updated.every(point => point !== null) ? updated as MeasurementPoint[] : null;
+    };
+    measurements = measurements.flatMap(measurement => {
+        const points = updatePoints(measurement.points);
+        return points ? [createMeasurement(measurement.kind, points, unit)] : [];
     });
+    pendingMeasurementPoints = updatePoints(pendingMeasurementPoints) ?? [];
+    renderMeasurements();
+}
 
-    // 2. Apply custom math formatting for superscripts, subscripts, etc.
-    processedText = formatMathString(processedText);
 
-    // 3. Convert simple Markdown to HTML tags.
-    processedText = processedText
-        .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold
-        .replace(/\*(.*?)\*/g, '<em>$1</em>')         // Italic
-        .replace(/`([^`]+)`/g, '<code>$1</code>');      // Inline code
+// --- Cross-Sections ---
+const GIZMO_CLICK_GUARD_MS = 300;
+const SECTION_CAP_COLOR = 0xff7043;
 
-    // 4. Convert newlines to <br> for paragraph breaks.
-    processedText = processedText.replace(/\n/g, '<br />');
+type SectionAxis = 'x' | 'y' | 'z';
+const SECTION_AXIS_ANGLES: { [axis in SectionAxis]: { tilt: number, turn: number } } = {
+    x: { tilt: 90, turn: 90 },
+    y: { tilt: 0, turn: 0 },
+    z: { tilt: 90, turn: 0 },
+};
 
-    return processedText;
+// The slider angles describe the normal: tilt away from +Y, then turn about Y starting at +Z
+function getSectionNormal(): THREE.Vector3 {
+    const tilt = THREE.MathUtils.degToRad(Number(sectionTiltInput.value));
+    const turn = THREE.MathUtils.degToRad(Number(sectionTurnInput.value));
+    return new THREE.Vector3(Math.sin(tilt) * Math.sin(turn), Math.cos(tilt), Math.sin(tilt) * Math.cos(turn));
 }
 
-function formatMathString(input: any): string {
-    if (typeof input !== 'string') {
-        return String(input);
+// The model's extent along a direction, as plane distances from the model origin
+function getModelExtent(data: any, normal: THREE.Vector3): { min: number, max: number } {
+    let min = Infinity, max = -Infinity;
+    (data.vertices || []).forEach((vertex: any) => {
+        if (!Array.isArray(vertex) || vertex.length !== 3) return;
+        const distance = normal.dot(new THREE.Vector3().fromArray(vertex));
+        if (!isFinite(distance)) return;
+        min = Math.min(min, distance);
+        max = Math.max(max, distance);
+    });
+    return isFinite(min) ? { min, max } : { min: 0, max: 0 };
+}
+
+// The plane point closest to the model's centre at the offset slider's position
+function getSectionPointFromSliders(data: any, normal: THREE.Vector3): THREE.Vector3 {
+    const { min, max } = getModelExtent(data, normal);
+    const distance = min + Number(sectionOffsetInput.value) * (max - min);
+    const centre = generatedObject!.position.clone().negate();
+    return centre.add(normal.clone().multiplyScalar(distance - normal.dot(centre)));
+}
+
+function setSectionEnabled(enabled: boolean) {
+    sectionBtn.classList.toggle('active', enabled);
+    sectionContainer.classList.toggle('hidden', !enabled);
+    if (!enabled) {
+        sectionPlane = null;
+        currentSection = null;
+        clearGroup(sectionGroup);
+        transformControls.detach();
+        sectionHandle.visible = false;
+        clearGroup(sectionHandle);
+        generatedObject?.traverse(child => {
+            if (child instanceof THREE.Mesh && child.userData.triangleFaceIds) {
+                (child.material as THREE.Material[]).forEach(material => { material.clippingPlanes = null; });
+            }
+        });
+        return;
     }
+    if (!generatedObject || currentMode !== 'geometry') return;
+    if (modelEditing) setModelEditing(false);
 
-    const superscripts: { [key: string]: string } = {
-        '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
-        'a': 'ᵃ', 'b': 'ᵇ', 'c': 'ᶜ', 'd': 'ᵈ', 'e': 'ᵉ', 'f': 'ᶠ', 'g': 'ᵍ', 'h': 'ʰ', 'i': 'ⁱ', 'j': 'ʲ',
-        'k': 'ᵏ', 'l': 'ˡ', 'm': 'ᵐ', 'n': 'ⁿ', 'o': 'ᵒ', 'p': 'ᵖ', 'r': 'ʳ', 's': 'ˢ', 't': 'ᵗ', 'u': 'ᵘ',
-        'v': 'ᵛ', 'w': 'ʷ', 'x': 'ˣ', 'y': 'ʸ', 'z': 'ᶻ',
-        'A': 'ᴬ', 'B': 'ᴮ', 'C': 'ᶜ', 'D': 'ᴰ', 'E': 'ᴱ', 'F': 'ᶠ', 'G': 'ᴳ', 'H': 'ᴴ', 'I': 'ᴵ', 'J': 'ᴶ', 
-        'K': 'ᴷ', 'L': 'ᴸ', 'M': 'ᴹ', 'N': 'ᴺ', 'O': 'ᴼ', 'P': 'ᴾ', 'R': 'ᴿ', 'T': 'ᵀ', 'U': 'ᵁ', 'V': 'ⱽ', 'W': 'ᵂ',
-        'X': 'ᵡ', 'Y': 'ʸ', 'Z': 'ᶻ',
-        '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾'
-    };
-    
-    const subscripts: { [key: string]: string } = {
-        '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
-        'a': 'ₐ', 'e': 'ₑ', 'h': 'ₕ', 'i': 'ᵢ', 'j': 'ⱼ', 'k': 'ₖ', 'l': 'ₗ', 'm': 'ₘ', 'n': 'ₙ', 'o': 'ₒ',
-        'p': 'ₚ', 'r': 'ᵣ', 's': 'ₛ', 't': 'ₜ', 'u': 'ᵤ', 'v': 'ᵥ', 'x': 'ₓ',
-        '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎'
-    };
+    sectionPlane = new THREE.Plane();
+    generatedObject.traverse(child => {
+        if (child instanceof THREE.Mesh && child.userData.triangleFaceIds) {
+            (child.material as THREE.Material[]).forEach(material => { material.clippingPlanes = [sectionPlane]; });
+        }
+    });
 
-    const toSuper = (chars: string) => chars.split('').map(c => superscripts[c.toLowerCase()] || c).join('');
-    const toSub = (chars: string) => chars.split('').map(c => subscripts[c.toLowerCase()] || c).join('');
+    // A faint square shows where the plane is, sized to cover the model
+    const size = new THREE.Box3().setFromObject(generatedObject).getSize(new THREE.Vector3());
+    const planeSize = Math.max(size.x, size.y, size.z) * 1.5;
+    const planeMesh = new THREE.Mesh(
+        new THREE.PlaneGeometry(planeSize, planeSize),
+        new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.08, side: THREE.DoubleSide, depthWrite: false }),
+    );
+    sectionHandle.add(planeMesh);
+    sectionHandle.visible = true;
+    transformControls.attach(sectionHandle);
+    setSectionDragMode('translate');
+    setSectionAxis('y');
+}
 
-    let formatted = input;
+function setSectionDragMode(mode: 'translate' | 'rotate') {
+    transformControls.setMode(mode);
+    // Sliding only makes sense along the normal, and spinning about the normal changes nothing
+    transformControls.showX = mode === 'rotate';
+    transformControls.showY = mode === 'rotate';
+    transformControls.showZ = mode === 'translate';
+    sectionMoveBtn.classList.toggle('active', mode === 'translate');
+    sectionRotateBtn.classList.toggle('active', mode === 'rotate');
+}
 
-    // Replace sqrt keyword with symbol
-    formatted = formatted.replace(/sqrt/gi, '√');
+function setSectionAxis(axis: SectionAxis) {
+    sectionTiltInput.value = String(SECTION_AXIS_ANGLES[axis].tilt);
+    sectionTurnInput.value = String(SECTION_AXIS_ANGLES[axis].turn);
+    sectionOffsetInput.value = '0.5';
+    handleSectionSliderInput();
+}
 
-    // Replace common fractions
-    formatted = formatted.replace(/1\/2/g, '½').replace(/1\/4/g, '¼').replace(/3\/4/g, '¾').replace(/1\/3/g, '⅓').replace(/2\/3/g, '⅔');
+function handleSectionSliderInput() {
+    if (!generatedModelData || !generatedObject || !sectionPlane) return;
+    const data = JSON.parse(generatedModelData);
+    const normal = getSectionNormal();
+    updateCrossSection(data, getSectionPointFromSliders(data, normal), normal);
+}
 
-    // Handle grouped superscripts like ^(text) or ^{text}
-    formatted = formatted.replace(/\^[\({]([^)}]+)[\)}]/g, (_, content) => toSuper(content));
-    // Handle single character superscripts like ^2 or ^n
-    formatted = formatted.replace(/\^([a-zA-Z0-9+\-=()])/g, (_, char) => toSuper(char));
+function handleSectionHandleChange() {
+    if (!generatedModelData || !generatedObject || !sectionPlane) return;
+    const data = JSON.parse(generatedModelData);
+    const normal = new THREE.Vector3(0, 0, 1).applyQuaternion(sectionHandle.quaternion).normalize();
+    const point = generatedObject.worldToLocal(sectionHandle.position.clone());
 
-    // Handle grouped subscripts like _(text) or _{text}
-    formatted = formatted.replace(/_[\({]([^)}]+)[\)}]/g, (_, content) => toSub(content));
-    // Handle single character subscripts like _2 or _n
-    formatted = formatted.replace(/_([a-zA-Z0-9+\-=()])/g, (_, char) => toSub(char));
+    // Keep the sliders in step with the handle
+    sectionTiltInput.value = String(Math.round(THREE.MathUtils.radToDeg(Math.acos(THREE.MathUtils.clamp(normal.y, -1, 1)))));
+    sectionTurnInput.value = String(Math.round(THREE.MathUtils.radToDeg(Math.atan2(normal.x, normal.z))));
+    const { min, max } = getModelExtent(data, normal);
+    sectionOffsetInput.value = String(max > min ? THREE.MathUtils.clamp((normal.dot(point) - min) / (max - min), 0, 1) : 0.5);
 
-    return formatted;
+    updateCrossSection(data, point, normal, false);
 }
 
+/**
+ * Moves the clipping plane to `point` (model units) with the given normal, recomputes the exact
+ * section there and redraws its cap. The handle is left alone while it is being dragged.
+ */
+function updateCrossSection(data: any, point: THREE.Vector3, normal: THREE.Vector3, moveHandle = true) {
+    if (!generatedObject || !sectionPlane) return;
+    generatedObject.updateMatrixWorld();
+    const worldPoint = generatedObject.localToWorld(point.clone());
+    // Three.js keeps the side the normal points to and clips the rest
+    sectionPlane.setFromNormalAndCoplanarPoint(normal, worldPoint);
+    if (moveHandle) {
+        sectionHandle.position.copy(worldPoint);
+        sectionHandle.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
+    }
 
-function createLabelSprite(text: string) {
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (!context) return null;
+    currentSection = computeCrossSection(data, point.toArray(), normal.toArray());
+    drawSectionCap(currentSection);
+    displaySectionDetails(data, currentSection);
+}
 
-    const fontSize = 90;
-    const font = `Bold ${fontSize}px 'Roboto', sans-serif`;
-    context.font = font;
-    const metrics = context.measureText(text);
-    const textWidth = metrics.width;
-    canvas.width = textWidth;
-    canvas.height = fontSize;
-    context.font = font;
-    context.fillStyle = 'white';
-    context.textAlign = 'center';
-    context.textBaseline = 'middle';
-    context.fillText(text, textWidth / 2, fontSize / 2);
+function drawSectionCap(section: CrossSection) {
+    clearGroup(sectionGroup);
+    if (!generatedObject) return;
 
-    const texture = new THREE.CanvasTexture(canvas);
-    texture.minFilter = THREE.LinearFilter;
-    const spriteMaterial = new THREE.SpriteMaterial({ map: texture, transparent: true });
-    const sprite = new THREE.Sprite(spriteMaterial);
-    sprite.scale.set(1.0 * (textWidth / fontSize), 1.0, 1.0);
-    return sprite;
+    const basis = new THREE.Matrix4().makeBasis(
+        new THREE.Vector3().fromArray(section.u), new THREE.Vector3().fromArray(section.v), new THREE.Vector3().fromArray(section.normal));
+    basis.setPosition(new THREE.Vector3().fromArray(section.origin));
+    const toWorld = generatedObject.matrixWorld.clone().multiply(basis);
+    const outlineMaterial = new THREE.LineBasicMaterial({ color: 0xffffff });
+
+    section.polygons.forEach(polygon => {
+        const shape = new THREE.Shape(polygon.outer.map(([x, y]) => new THREE.Vector2(x, y)));
+        shape.holes = polygon.holes.map(hole => new THREE.Path(hole.map(([x, y]) => new THREE.Vector2(x, y))));
+        const cap = new THREE.Mesh(new THREE.ShapeGeometry(shape), new THREE.MeshBasicMaterial({ color: SECTION_CAP_COLOR, side: THREE.DoubleSide }));
+        cap.applyMatrix4(toWorld);
+        sectionGroup.add(cap);
+
+        [polygon.outer, ...polygon.holes].forEach(loop => {
+            const outline = new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(loop.map(([x, y]) => new THREE.Vector3(x, y, 0))), outlineMaterial.clone());
+            outline.applyMatrix4(toWorld);
+            sectionGroup.add(outline);
+        });
+    });
+    section.openChains.forEach(chain => {
+        const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(chain.map(p => new THREE.Vector3().fromArray(p))), outlineMaterial.clone());
+        line.applyMatrix4(generatedObject!.matrixWorld);
+        sectionGroup.add(line);
+    });
+    outlineMaterial.dispose();
 }
 
-const CHEM_MODEL_SCALE = 3.0;
-const CPK_COLORS: { [key: string]: number } = { H: 0xffffff, C: 0x808080, N: 0x0000ff, O: 0xff0000, F: 0x00ff00, CL: 0x00ff00, BR: 0xa52a2a, I: 0x800080, P: 0xffa500, S: 0xffff00, B: 0xfa8072, DEFAULT: 0xffc0cb };
-const ATOM_RADII: { [key: string]: number } = { 
-    H: 0.2 * CHEM_MODEL_SCALE, C: 0.35 * CHEM_MODEL_SCALE, N: 0.3 * CHEM_MODEL_SCALE, O: 0.3 * CHEM_MODEL_SCALE, F: 0.25 * CHEM_MODEL_SCALE, CL: 0.5 * CHEM_MODEL_SCALE, BR: 0.55 * CHEM_MODEL_SCALE, I: 0.65 * CHEM_MODEL_SCALE, P: 0.5 * CHEM_MODEL_SCALE, S: 0.5 * CHEM_MODEL_SCALE, B: 0.4 * CHEM_MODEL_SCALE, DEFAULT: 0.25 * CHEM_MODEL_SCALE 
-};
+// The section summary used in the panel and, when asked about, as the selection context
+function getSectionDetails(data: any, section: CrossSection) {
+    const unit = getModelLengthUnit(data, 'geometry');
+    const round = (value: number) => Number(value.toFixed(4));
+    const toModel = ([x, y]: [number, number]) => section.origin.map((c, i) => round(c + x * section.u[i] + y * section.v[i]));
+    return {
+        sectionArea: formatMetricValue(section.area, unit, 2),
+        sectionPerimeter: formatMetricValue(section.perimeter, unit, 1),
+        planePoint: section.origin.map(round),
+        planeNormal: section.normal.map(round),
+        regions: section.polygons.map(polygon => ({
+            outline: polygon.outer.map(toModel),
+            holes: polygon.holes.map(hole => hole.map(toModel)),
+        })),
+        isClosed: section.openChains.length === 0,
+    };
+}
 
-function createAtom(atomData: any, position: THREE.Vector3, index: number) {
-    const group = new THREE.Group();
-    const el = atomData.element.toUpperCase();
-    const color = CPK_COLORS[el] || CPK_COLORS['DEFAULT'];
-    const radius = ATOM_RADII[el] || ATOM_RADII['DEFAULT'];
+function displaySectionDetails(data: any, section: CrossSection) {
+    const details = getSectionDetails(data, section);
+    const holeCount = section.polygons.reduce((total, polygon) => total + polygon.holes.length, 0);
+    const cornerCounts = section.polygons.map(polygon => polygon.outer.length).join(', ');
+    sectionDetailsContent.innerHTML = section.polygons.length === 0 && section.openChains.length === 0
+        ? '<p class="measured-value">The plane does not cut the solid here.</p>'
+        : `<ul>
+            <li><strong>Area:</strong> <span>${formatMathHtml(details.sectionArea)}</span></li>
+            <li><strong>Perimeter:</strong> <span>${formatMathHtml(details.sectionPerimeter)}</span></li>
+            <li><strong>Regions:</strong> <span>${section.polygons.length}${holeCount ? ` (${holeCount} hole${holeCount === 1 ? '' : 's'})` : ''}</span></li>
+            ${cornerCounts ? `<li><strong>Corners:</strong> <span>${cornerCounts}</span></li>` : ''}
+            ${details.isClosed ? '' : '<li class="measured-value">Some cut edges do not close into loops because the surface has gaps; the area counts closed loops only.</li>'}
+        </ul>`;
+    sectionAskBtn.disabled = section.polygons.length === 0;
+}
 
-    const sphereGeometry = new THREE.SphereGeometry(radius, 32, 16);
-    const sphereMaterial = new THREE.MeshStandardMaterial({ color, roughness: 0.5, metalness: 0.2 });
-    const atomMesh = new THREE.Mesh(sphereGeometry, sphereMaterial);
-    atomMesh.userData.details = {
-        element: atomData.element,
-        bondAngles: atomData.bondAngles,
-        vseprShape: atomData.vseprShape,
-        atomIndex: index,
+function handleSectionAsk() {
+    if (!generatedModelData || !currentSection) return;
+    clearHighlights();
+    clearGroup(angleVisualizationGroup);
+    currentSelectionDetails = {
+        type: 'cross_section',
+        id: null,
+        details: getSectionDetails(JSON.parse(generatedModelData), currentSection),
     };
-    group.add(atomMesh);
-    
-    const label = createLabelSprite(atomData.element);
-    if (label) {
-        label.position.y += radius + (0.15 * CHEM_MODEL_SCALE); // Offset label above the atom
-        label.scale.multiplyScalar(radius * 2.5); // Scale label with atom size
-        group.add(label);
-    }
-    
-    group.position.copy(position);
-    return group;
+    displaySelectionDetails(currentSelectionDetails.details);
+    qaInput.focus();
 }
 
-function createBond(bondData: any, startPos: THREE.Vector3, endPos: THREE.Vector3, bondName: string): THREE.Group {
-    const bondGroup = new THREE.Group();
-    bondGroup.userData.details = {
-        name: bondName,
-        type: bondData.type,
-        energy: bondData.energy,
-        startAtomIndex: bondData.start,
-        endAtomIndex: bondData.end,
-    };
+// Puts the plane back where a slice was asked about, e.g. when its question is clicked
+function restoreCrossSection(details: any) {
+    if (!generatedModelData || !generatedObject || !Array.isArray(details.planePoint) || !Array.isArray(details.planeNormal)) return;
+    if (!sectionPlane) setSectionEnabled(true);
+    const normal = new THREE.Vector3().fromArray(details.planeNormal).normalize();
+    const point = new THREE.Vector3().fromArray(details.planePoint);
+    updateCrossSection(JSON.parse(generatedModelData), point, normal);
+    handleSectionHandleChange();
+}
 
-    const path = new THREE.Vector3().subVectors(endPos, startPos);
-    const length = path.length();
-    const baseMaterial = new THREE.MeshStandardMaterial({ color: 0xcccccc, roughness: 0.5, metalness: 0.2 });
-    const bondRadius = 0.05 * CHEM_MODEL_SCALE;
 
-    const createCylinder = () => {
-        const cylinderGeometry = new THREE.CylinderGeometry(bondRadius, bondRadius, length, 16);
-        return new THREE.Mesh(cylinderGeometry, baseMaterial.clone()); // CLONE material here
-    };
+// --- Nets ---
+const NET_ANIMATION_MS = 2000;
+const NET_OVERLAP_MESSAGE = 'Some faces overlap in this net; no layout without overlaps was found.';
 
-    const cylinders: THREE.Mesh[] = [];
-    const bondType = bondData.type.toLowerCase();
-    
-    if (bondType === 'double') {
-        cylinders.push(createCylinder(), createCylinder());
-    } else if (bondType === 'triple') {
-        cylinders.push(createCylinder(), createCylinder(), createCylinder());
-    } else { // Single bond
-        cylinders.push(createCylinder());
-    }
+// The face's label: the AI's surface area when it gave a value, otherwise the computed one
+function getNetFaceLabels(data: any, net: PolyhedronNet): string[] {
+    const metrics = computeMeshMetrics(data);
+    const unit = getModelLengthUnit(data, 'geometry');
+    return net.flatFaces.map(face => {
+        const claimed = data.faces[face.faceIndex]?.details?.surfaceArea;
+        if (parseMeasurement(claimed)) return String(claimed);
+        return formatMetricValue(metrics.faces[face.faceIndex]?.surfaceArea ?? 0, unit, 2);
+    });
+}
 
-    if (cylinders.length > 1) {
-        let offsetDirection = new THREE.Vector3().crossVectors(path, new THREE.Vector3(0, 1, 0));
-        if (offsetDirection.length() < 0.01) { // Handle case where bond is parallel to Y-axis
-            offsetDirection = new THREE.Vector3().crossVectors(path, new THREE.Vector3(1, 0, 0));
-        }
-        offsetDirection.normalize().multiplyScalar(bondRadius * 1.5);
+/**
+ * Builds the net as nested groups, one per face, so each face's hinge rotation carries its
+ * children along with it. Geometry stays in model units, matching `buildGeometryModel`.
+ */
+function buildNetObject(net: PolyhedronNet, labels: string[]): THREE.Group {
+    const root = new THREE.Group();
+    root.position.copy(generatedObject!.position);
+
+    const size = new THREE.Box3().setFromObject(generatedObject!).getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z) || 1;
+    const faceMaterial = new THREE.MeshStandardMaterial({ color: 0x03dac6, side: THREE.DoubleSide, metalness: 0.2, roughness: 0.7 });
+    const edgeMaterial = new THREE.LineBasicMaterial({ color: 0x004d40 });
+
+    const nodes: THREE.Group[] = [];
+    net.faces.forEach((face, index) => {
+        const node = new THREE.Group();
+        node.matrixAutoUpdate = false;
+        node.userData.netFace = face;
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.Float32BufferAttribute(face.triangles.flat(2), 3));
+        geometry.computeVertexNormals();
+        node.add(new THREE.Mesh(geometry, faceMaterial.clone()));
+        face.loops.forEach(loop => {
+            node.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(loop.map(p => new THREE.Vector3().fromArray(p))), edgeMaterial.clone()));
+        });
 
-        if (cylinders.length === 2) {
-             cylinders[0].position.add(offsetDirection);
-             cylinders[1].position.sub(offsetDirection);
-        } else if (cylinders.length === 3) {
-            cylinders[1].position.add(offsetDirection);
-            cylinders[2].position.sub(offsetDirection);
+        const labelSprite = createLabelSprite(labels[index]);
+        if (labelSprite) {
+            // Lifted off the face so the label isn't buried in it
+            labelSprite.position.fromArray(face.centroid).addScaledVector(new THREE.Vector3().fromArray(face.normal), maxDim * 0.01);
+            labelSprite.scale.multiplyScalar(maxDim / 20);
+            node.add(labelSprite);
         }
-    }
 
-    cylinders.forEach(cylinder => {
-        const cylinderGroup = new THREE.Group();
-        cylinderGroup.position.copy(startPos).add(path.clone().multiplyScalar(0.5));
-        cylinderGroup.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), path.clone().normalize());
-        cylinderGroup.add(cylinder);
-        bondGroup.add(cylinderGroup);
+        (face.parent === null ? root : nodes[face.parent]).add(node);
+        nodes.push(node);
     });
-
-    return bondGroup;
+    faceMaterial.dispose();
+    edgeMaterial.dispose();
+    return root;
 }
 
+function setNetProgress(progress: number) {
+    netObject?.traverse(child => {
+        const face = child.userData.netFace;
+        if (!face) return;
+        if (face.parent === null) child.matrix.identity();
+        else child.matrix.copy(getHingeMatrix(face, progress));
+        child.matrixWorldNeedsUpdate = true;
+    });
+}
 
-// --- Model Builders from JSON ---
-function buildGeometryModel(data: any): THREE.Group {
-    const group = new THREE.Group();
+function animateNet(from: number, to: number, onDone: () => void) {
+    const start = performance.now();
+    const step = (now: number) => {
+        const t = Math.min(1, (now - start) / NET_ANIMATION_MS);
+        // Ease in and out so the faces settle rather than stop dead
+        const eased = t * t * (3 - 2 * t);
+        setNetProgress(from + (to - from) * eased);
+        if (t < 1) {
+            netAnimationFrameId = requestAnimationFrame(step);
+            return;
+        }
+        netAnimationFrameId = null;
+        onDone();
+    };
+    netAnimationFrameId = requestAnimationFrame(step);
+}
 
-    if (!data.vertices || !Array.isArray(data.vertices) || data.vertices.length === 0) {
-        throw new Error("Invalid JSON structure: 'vertices' array not found or is empty.");
+function removeNetObject() {
+    if (netAnimationFrameId !== null) {
+        cancelAnimationFrame(netAnimationFrameId);
+        netAnimationFrameId = null;
     }
-    if (!data.faces || !Array.isArray(data.faces) || data.faces.length === 0) {
-        throw new Error("Invalid JSON structure: 'faces' array not found or is empty.");
+    if (netObject) {
+        scene.remove(netObject);
+        disposeObject(netObject);
+        netObject = null;
     }
+    if (generatedObject) generatedObject.visible = true;
+    measurementGroup.visible = true;
+    unfoldNetBtn.textContent = 'Unfold';
+    [unfoldNetBtn, sectionBtn, editModelBtn, ...measureButtons].forEach(button => { button.disabled = false; });
+}
 
-    const baseFaceMaterial = new THREE.MeshStandardMaterial({
-        color: 0x03dac6, side: THREE.DoubleSide, flatShading: false,
-        metalness: 0.2, roughness: 0.7, polygonOffset: true,
-        polygonOffsetFactor: 1, polygonOffsetUnits: 1,
-    });
+function handleToggleNet() {
+    if (!generatedModelData || !generatedObject || currentMode !== 'geometry' || netAnimationFrameId !== null) return;
 
-    const allVertices = data.vertices;
+    if (netObject) {
+        unfoldNetBtn.disabled = true;
+        animateNet(1, 0, () => {
+            removeNetObject();
+            frameObject(generatedObject!);
+        });
+        return;
+    }
 
-    data.faces.forEach((faceGroup: any, faceIndex: number) => {
-        if (!faceGroup.triangles || !Array.isArray(faceGroup.triangles)) return;
+    let net: PolyhedronNet;
+    let labels: string[];
+    try {
+        const data = JSON.parse(generatedModelData);
+        net = computeNet(data);
+        labels = getNetFaceLabels(data, net);
+    } catch (error) {
+        console.error('Error unfolding model:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not unfold the model.'}`);
+        return;
+    }
 
-        faceGroup.triangles.forEach((triangleData: any) => {
-            const triangleIndices = triangleData.indices;
-            if (!triangleIndices || !Array.isArray(triangleIndices) || triangleIndices.length !== 3) {
-                 console.warn('Skipping triangle with invalid indices:', triangleData);
-                return;
-            }
+    // Slices, measurements, selections and editing belong to the folded solid
+    setSectionEnabled(false);
+    setMeasurementKind(null);
+    setModelEditing(false);
+    measurementGroup.visible = false;
+    clearHighlights();
+    clearGroup(angleVisualizationGroup);
+    [unfoldNetBtn, sectionBtn, editModelBtn, ...measureButtons].forEach(button => { button.disabled = true; });
+
+    netObject = buildNetObject(net, labels);
+    setNetProgress(0);
+    scene.add(netObject);
+    generatedObject.visible = false;
+    animateNet(0, 1, () => {
+        unfoldNetBtn.disabled = false;
+        unfoldNetBtn.textContent = 'Fold';
+        frameObject(netObject!);
+        if (net.overlaps) showNotification(NET_OVERLAP_MESSAGE);
+    });
+}
 
-            // Validate vertices to prevent NaN errors in Three.js
-            const faceVerticesArrays = triangleIndices.map((index: number) => allVertices[index]);
-            const hasInvalidVertex = faceVerticesArrays.some(v => 
-                !v || !Array.isArray(v) || v.length !== 3 || v.some(coord => typeof coord !== 'number' || !isFinite(coord))
-            );
+function handleNetSvgExport() {
+    if (!generatedModelData || currentMode !== 'geometry') return;
+    try {
+        const data = JSON.parse(generatedModelData);
+        const net = computeNet(data);
+        const svg = writeNetSvg(net, getNetFaceLabels(data, net), getModelLengthUnit(data, 'geometry'));
+        downloadFile(svg, `${getExportBaseName(data)}-net.svg`, 'image/svg+xml');
+        if (net.overlaps) showNotification(NET_OVERLAP_MESSAGE);
+    } catch (error) {
+        console.error('Error exporting net:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not export the net.'}`);
+    }
+}
 
-            if (hasInvalidVertex) {
-                console.warn('Skipping triangle with invalid vertex data:', faceVerticesArrays);
-                return; // Prevent crash by skipping this triangle
-            }
 
-            const faceGeometry = new THREE.BufferGeometry();
-            const positions = new Float32Array(faceVerticesArrays.flat());
-            faceGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-            
-            faceGeometry.setIndex([0, 1, 2]);
-            faceGeometry.computeVertexNormals();
-
-            const faceMesh = new THREE.Mesh(faceGeometry, baseFaceMaterial.clone());
-            faceMesh.userData.details = faceGroup.details; // Details for the whole face
-            faceMesh.userData.faceId = faceIndex; // Group identifier
-            group.add(faceMesh);
-        });
-    });
+// --- Crystals ---
+// Rebuilds the crystal with a different number of cells, keeping the previous block if the new one is too large
+function handleCrystalRepeatChange() {
+    if (!generatedModelData || currentMode !== 'crystal') return;
+    const data = JSON.parse(generatedModelData);
+    const previous = crystalRepeat;
 
+    clearHighlights();
+    clearGroup(angleVisualizationGroup);
+    selectionDetailsContainer.classList.add('hidden');
+    selectionDetailsContent.innerHTML = '';
+    currentSelectionDetails = null;
+    removeGeneratedObject();
 
-    if (group.children.filter(c => c.type === "Mesh").length === 0) {
-         throw new Error("Could not create any valid geometric shapes from the provided JSON.");
+    crystalRepeat = Number(crystalRepeatSelect.value);
+    try {
+        displayModel(data);
+    } catch (error) {
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not build the crystal.'}`);
+        crystalRepeat = previous;
+        crystalRepeatSelect.value = String(previous);
+        displayModel(data);
     }
+    renderMeasurements();
+}
 
-    if (data.labels && Array.isArray(data.labels)) {
-        data.labels.forEach((labelData: any) => {
-            if (labelData.text && Array.isArray(labelData.position)) {
-                const labelSprite = createLabelSprite(labelData.text);
-                if (labelSprite) {
-                    labelSprite.position.fromArray(labelData.position);
-                    group.add(labelSprite);
-                }
-            }
-        });
-    }
 
-    // Dynamically scale labels based on overall model size
-    const modelBox = new THREE.Box3().setFromObject(group);
-    const modelSize = modelBox.getSize(new THREE.Vector3());
-    const maxDim = Math.max(modelSize.x, modelSize.y, modelSize.z);
+// --- Image Preparation ---
+type PrepShape = 'crop' | 'straighten';
 
-    if (maxDim > 0.001) {
-        const labelScale = maxDim / 15; // Tuned for geometry
-        group.children.forEach(child => {
-            if (child instanceof THREE.Sprite) {
-                child.scale.multiplyScalar(labelScale);
-            }
-        });
-    }
+interface ImagePrepState {
+    source: HTMLCanvasElement; // as uploaded, before rotation
+    rotated: HTMLCanvasElement;
+    adjustments: ImageAdjustments;
+    shape: PrepShape;
+    pdf: PdfFile | null;
+    resolve: (image: ImageInput | null) => void;
+}
 
-    return group;
+const PREP_DISPLAY_DIMENSION = 1000; // the editor shows a copy no larger than this
+// The corners of a crop rectangle that share a corner's y and x coordinates
+const CROP_NEIGHBOURS: [number, number][] = [[1, 3], [0, 2], [3, 1], [2, 0]];
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Opens the editor on an image and resolves with the prepared image, or null if cancelled.
+ * PDFs show a page picker; the first page is already rendered into `source`.
+ */
+function openImagePrep(source: HTMLCanvasElement, title: string, pdf: PdfFile | null): Promise<ImageInput | null> {
+    return new Promise(resolve => {
+        imagePrep = { source, rotated: source, adjustments: createPrepAdjustments(source), shape: 'crop', pdf, resolve };
+        imagePrepTitle.textContent = title;
+        prepPageOption.classList.toggle('hidden', !pdf || pdf.pageCount < 2);
+        prepPageSelect.innerHTML = '';
+        for (let page = 1; page <= (pdf?.pageCount || 0); page++) {
+            prepPageSelect.add(new Option(`${page} of ${pdf!.pageCount}`, String(page)));
+        }
+        imagePrepModal.classList.remove('hidden');
+        updatePrepView();
+    });
 }
 
+function createPrepAdjustments(source: HTMLCanvasElement): ImageAdjustments {
+    return { quarterTurns: 0, corners: getFullQuad(source.width, source.height), contrast: 1 };
+}
 
-function buildChemistryModel(data: any): THREE.Group {
-    const group = new THREE.Group();
-    if (!data.atoms || !Array.isArray(data.atoms)) throw new Error("Invalid JSON: 'atoms' array not found.");
-    if (data.atoms.length === 0) throw new Error("Invalid JSON: 'atoms' array cannot be empty.");
+function closeImagePrep(image: ImageInput | null) {
+    if (!imagePrep) return;
+    const { resolve } = imagePrep;
+    imagePrep = null;
+    draggedPrepCorner = null;
+    imagePrepModal.classList.add('hidden');
+    resolve(image);
+}
 
-    const atomPositions: THREE.Vector3[] = [];
-    data.atoms.forEach((atom: any, index: number) => {
-        const position = new THREE.Vector3().fromArray(atom.position || [0, 0, 0]).multiplyScalar(CHEM_MODEL_SCALE);
-        atomPositions.push(position);
-        const atomGroup = createAtom(atom, position, index);
-        group.add(atomGroup);
+// Redraws the rotated image and the region overlay after the image or its rotation changed
+function updatePrepView() {
+    if (!imagePrep) return;
+    const { rotated, adjustments, shape } = imagePrep;
+    const scale = Math.min(1, PREP_DISPLAY_DIMENSION / Math.max(rotated.width, rotated.height));
+    prepCanvas.width = Math.round(rotated.width * scale);
+    prepCanvas.height = Math.round(rotated.height * scale);
+    prepCanvas.getContext('2d')!.drawImage(rotated, 0, 0, prepCanvas.width, prepCanvas.height);
+    // The preview uses a CSS filter; the pixels are only changed when the image is used
+    prepCanvas.style.filter = adjustments.contrast === 1 ? '' : `contrast(${adjustments.contrast})`;
+    prepContrastInput.value = String(adjustments.contrast);
+    prepShapeButtons.forEach(button => button.classList.toggle('active', button.dataset.shape === shape));
+    prepOverlay.setAttribute('viewBox', `0 0 ${rotated.width} ${rotated.height}`);
+    renderPrepOverlay();
+}
+
+function renderPrepOverlay() {
+    if (!imagePrep) return;
+    const { rotated, adjustments } = imagePrep;
+    const points = adjustments.corners.map(([x, y]) => `${x},${y}`).join(' L ');
+    prepOverlay.innerHTML = '';
+
+    const shade = document.createElementNS(SVG_NS, 'path');
+    shade.setAttribute('class', 'prep-shade');
+    shade.setAttribute('d', `M 0,0 L ${rotated.width},0 L ${rotated.width},${rotated.height} L 0,${rotated.height} Z M ${points} Z`);
+    const outline = document.createElementNS(SVG_NS, 'path');
+    outline.setAttribute('class', 'prep-outline');
+    outline.setAttribute('d', `M ${points} Z`);
+    outline.setAttribute('vector-effect', 'non-scaling-stroke');
+    prepOverlay.append(shade, outline);
+
+    const radius = Math.max(rotated.width, rotated.height) / 70;
+    adjustments.corners.forEach(([x, y], index) => {
+        const handle = document.createElementNS(SVG_NS, 'circle');
+        handle.setAttribute('class', 'prep-handle');
+        handle.setAttribute('cx', String(x));
+        handle.setAttribute('cy', String(y));
+        handle.setAttribute('r', String(radius));
+        handle.setAttribute('vector-effect', 'non-scaling-stroke');
+        handle.dataset.corner = String(index);
+        prepOverlay.appendChild(handle);
     });
 
-    if (data.bonds && Array.isArray(data.bonds)) {
-        data.bonds.forEach((bond: any) => {
-            if (bond.start >= 0 && bond.start < atomPositions.length &&
-                bond.end >= 0 && bond.end < atomPositions.length) {
-                const startPos = atomPositions[bond.start];
-                const endPos = atomPositions[bond.end];
-                const startElement = data.atoms[bond.start].element;
-                const endElement = data.atoms[bond.end].element;
-                const bondName = `${startElement}-${endElement}`;
-                const bondGroup = createBond(bond, startPos, endPos, bondName);
-                group.add(bondGroup);
-            }
-        });
-    }
+    const { width, height } = getOutputSize(adjustments.corners);
+    prepInfo.textContent = `Sent as ${width} × ${height} px`;
+}
 
-    group.userData.atomPositions = atomPositions;
-    
-    // Dynamically scale labels based on overall model size for readability
-    const modelBox = new THREE.Box3().setFromObject(group);
-    const modelSize = modelBox.getSize(new THREE.Vector3());
-    const maxDim = Math.max(modelSize.x, modelSize.y, modelSize.z);
+function handlePrepPointerDown(event: PointerEvent) {
+    const corner = (event.target as Element).getAttribute('data-corner');
+    if (!imagePrep || corner === null) return;
+    draggedPrepCorner = Number(corner);
+    prepOverlay.setPointerCapture(event.pointerId);
+    event.preventDefault();
+}
 
-    if (maxDim > 0.001) {
-        const labelScale = maxDim / 30; // Tuned for chemistry
-        group.traverse(child => {
-            if (child instanceof THREE.Sprite) {
-                child.scale.multiplyScalar(labelScale);
-            }
-        });
+function handlePrepPointerMove(event: PointerEvent) {
+    if (!imagePrep || draggedPrepCorner === null) return;
+    const { rotated, adjustments, shape } = imagePrep;
+    const rect = prepOverlay.getBoundingClientRect();
+    const x = Math.round(THREE.MathUtils.clamp((event.clientX - rect.left) / rect.width, 0, 1) * rotated.width);
+    const y = Math.round(THREE.MathUtils.clamp((event.clientY - rect.top) / rect.height, 0, 1) * rotated.height);
+    const corners = adjustments.corners.map(corner => [...corner]) as Quad;
+    corners[draggedPrepCorner] = [x, y];
+    if (shape === 'crop') {
+        const [sameY, sameX] = CROP_NEIGHBOURS[draggedPrepCorner];
+        corners[sameY][1] = y;
+        corners[sameX][0] = x;
     }
+    // A region collapsed to a line or turned inside out has nothing to straighten
+    if (getPrepQuadArea(corners) < 1) return;
+    adjustments.corners = corners;
+    renderPrepOverlay();
+}
 
-    return group;
+function handlePrepPointerUp() {
+    draggedPrepCorner = null;
 }
 
-// --- Main Application Logic ---
+// Signed area (shoelace formula); positive while the corners stay in clockwise screen order
+function getPrepQuadArea(corners: Quad): number {
+    let area = 0;
+    corners.forEach(([x0, y0], i) => {
+        const [x1, y1] = corners[(i + 1) % 4];
+        area += x0 * y1 - x1 * y0;
+    });
+    return area / 2;
+}
 
-function selectMode(mode: 'geometry' | 'chemistry') {
-    currentMode = mode;
-    modeSelectionContainer.classList.add('hidden');
-    appContainer.classList.remove('hidden');
-    appTitle.textContent = `AI 3D ${mode.charAt(0).toUpperCase() + mode.slice(1)} Generator`;
-    saveSessionBtn.classList.add('hidden');
+function rotatePrepImage(clockwiseTurns: number) {
+    if (!imagePrep) return;
+    const { adjustments } = imagePrep;
+    let height = imagePrep.rotated.height;
+    let width = imagePrep.rotated.width;
+    for (let turn = 0; turn < (clockwiseTurns + 4) % 4; turn++) {
+        adjustments.corners = rotateQuad(adjustments.corners, height);
+        [width, height] = [height, width];
+    }
+    adjustments.quarterTurns = (adjustments.quarterTurns + clockwiseTurns + 4) % 4;
+    imagePrep.rotated = rotateCanvas(imagePrep.source, adjustments.quarterTurns);
+    updatePrepView();
+}
 
-    if (mode === 'geometry') {
-        qaInput.placeholder = "eg. how to calculate the volume?";
-    } else { // 'chemistry'
-        qaInput.placeholder = "what is the shape of the chemical structure around the C atom?";
+function setPrepShape(shape: PrepShape) {
+    if (!imagePrep) return;
+    imagePrep.shape = shape;
+    if (shape === 'crop') {
+        // A skewed region becomes the rectangle around it
+        const xs = imagePrep.adjustments.corners.map(corner => corner[0]);
+        const ys = imagePrep.adjustments.corners.map(corner => corner[1]);
+        const [left, right, top, bottom] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+        imagePrep.adjustments.corners = [[left, top], [right, top], [right, bottom], [left, bottom]];
     }
+    updatePrepView();
+}
 
-    onWindowResize();
+function resetPrepImage() {
+    if (!imagePrep) return;
+    imagePrep.rotated = imagePrep.source;
+    imagePrep.adjustments = createPrepAdjustments(imagePrep.source);
+    imagePrep.shape = 'crop';
+    updatePrepView();
 }
 
-function resetApp() {
-    currentMode = null;
-    selectedImage = null;
-    generatedModelData = null;
-    currentSelectionDetails = null;
-    qaHistory = [];
-    chat = null;
+async function handlePrepPageChange() {
+    if (!imagePrep?.pdf) return;
+    const state = imagePrep;
+    try {
+        const source = await state.pdf!.renderPage(Number(prepPageSelect.value));
+        if (imagePrep !== state) return; // closed while the page was rendering
+        state.source = source;
+        resetPrepImage();
+    } catch (error) {
+        console.error('Error rendering PDF page:', error);
+        showNotification('Error: Could not render that page.');
+    }
+}
+
+function handlePrepUse() {
+    if (!imagePrep) return;
+    try {
+        const { data, mimeType } = prepareImage(imagePrep.source, imagePrep.adjustments);
+        closeImagePrep({ data, mimeType });
+    } catch (error) {
+        console.error('Error preparing image:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not prepare the image.'}`);
+    }
+}
+
+// Re-opens a selected image in the editor; the edit starts from the image as it was last prepared
+async function handleEditImage(image: ImageInput) {
+    try {
+        const blob = await (await fetch(`data:${image.mimeType};base64,${image.data}`)).blob();
+        const edited = await openImagePrep(await loadImageFile(blob), 'Edit Image', null);
+        const index = selectedImages.indexOf(image);
+        if (!edited || index === -1) return;
+        selectedImages[index] = { ...edited, role: image.role };
+        renderImagePreviews();
+    } catch (error) {
+        console.error('Error editing image:', error);
+        showError('Failed to open the image for editing.');
+    }
+}
+
+
+// --- Resource Disposal ---
+function disposeMaterial(material: THREE.Material) {
+    Object.values(material).forEach((value: any) => {
+        if (value instanceof THREE.Texture) value.dispose();
+    });
+    material.dispose();
+}
+
+/**
+ * Frees the GPU resources (geometries, materials, textures such as label `CanvasTexture`s)
+ * held by an object and all of its descendants.
+ */
+function disposeObject(object: THREE.Object3D) {
+    object.traverse(child => {
+        const renderable = child as THREE.Mesh;
+        if (renderable.geometry) renderable.geometry.dispose();
+        if (renderable.material) {
+            const materials = Array.isArray(renderable.material) ? renderable.material : [renderable.material];
+            materials.forEach(disposeMaterial);
+        }
+    });
+}
+
+function clearGroup(group: THREE.Group) {
+    [...group.children].forEach(child => {
+        group.remove(child);
+        disposeObject(child);
+    });
+}
+
+function removeGeneratedObject() {
+    if (generatedObject) {
+        scene.remove(generatedObject);
+        disposeObject(generatedObject);
+        generatedObject = null;
+    }
+}
+
+function frameObject(object: THREE.Object3D) {
+    const boundingBox = new THREE.Box3().setFromObject(object);
+    const center = boundingBox.getCenter(new THREE.Vector3());
+    const size = boundingBox.getSize(new THREE.Vector3());
+
+    const maxDim = Math.max(size.x, size.y, size.z);
+    const fov = camera.fov * (Math.PI / 180);
+    let cameraZ = Math.abs(maxDim / 2 / Math.tan(fov / 2));
+    cameraZ *= 1.5; 
+    
+    const direction = controls.object.position.clone().sub(controls.target).normalize();
+    camera.position.copy(center).add(direction.multiplyScalar(cameraZ));
+    camera.lookAt(center);
+
+    controls.target.copy(center);
+    controls.update();
+}
+
+function reHighlightSelection(selectionContext: any) {
+    if (!generatedObject || !selectionContext) return;
+
+    // 1. Clear any existing highlights
+    clearHighlights();
+    clearGroup(angleVisualizationGroup);
+    selectionDetailsContainer.classList.add('hidden');
+    selectionDetailsContent.innerHTML = '';
+    currentSelectionDetails = null;
+
+    // 2. Perform new highlight based on context
+    currentSelectionDetails = selectionContext;
+    displaySelectionDetails(selectionContext.details);
+    
+    switch(selectionContext.type) {
+        case 'geometry_face':
+            highlightGeometryFace(selectionContext.id);
+            break;
+
+        case 'cross_section':
+            restoreCrossSection(selectionContext.details);
+            break;
+        
+        case 'chemistry_atom':
+            generatedObject.traverse(child => {
+                if (child instanceof THREE.Mesh && child.userData.details?.atomIndex === selectionContext.id) {
+                    highlightMaterial(child.material as THREE.MeshStandardMaterial);
+
+                    if (generatedObject && generatedObject.userData.atomPositions) {
+                        const originalAtomPositions = generatedObject.userData.atomPositions as THREE.Vector3[];
+                        const finalAtomPositions = originalAtomPositions.map(p => p.clone().applyMatrix4(generatedObject!.matrixWorld));
+                        const details = selectionContext.details;
+
+                        if (details.bondAngles && Array.isArray(details.bondAngles)) {
+                            details.bondAngles.forEach((angleInfo: any) => {
+                                const indices = angleInfo.atomsInvolvedIndices;
+                                if (indices && indices.length === 3) {
+                                    const p1 = finalAtomPositions[indices[0]];
+                                    const pCenter = finalAtomPositions[indices[1]];
+                                    const p2 = finalAtomPositions[indices[2]];
+                                    if (p1 && pCenter && p2) {
+                                        drawAngleVisualization(p1, pCenter, p2, angleInfo.angle);
+                                    }
+                                }
+                            });
+                        }
+                    }
+                }
+            });
+            break;
+
+        case 'crystal_atom':
+            generatedObject.traverse(child => {
+                const details = child.userData.details;
+                if (child instanceof THREE.Mesh && details?.atomIndex === selectionContext.id.atomIndex
+                    && details.fractional?.join() === selectionContext.id.fractional.join()) {
+                    highlightMaterial(child.material as THREE.MeshStandardMaterial);
+                }
+            });
+            break;
+
+        case 'chemistry_bond':
+             generatedObject.traverse(child => {
+                if (child instanceof THREE.Group && child.userData.details?.startAtomIndex === selectionContext.id.start && child.userData.details?.endAtomIndex === selectionContext.id.end) {
+                    child.traverse(mesh => {
+                         if (mesh instanceof THREE.Mesh) {
+                            highlightMaterial(mesh.material as THREE.MeshStandardMaterial);
+                        }
+                    });
+                }
+            });
+            break;
+    }
+}
+
+// --- Helper Functions for AI ---
+
+/**
+ * Converts a response string with potential Markdown into formatted HTML.
+ * @param text The raw response string.
+ * @returns An HTML string.
+ */
+function formatResponseTextToHtml(text: string): string {
+    // 1. Strip any potential LaTeX delimiters just in case.
+    let processedText = text.replace(/\$\$([\s\S]*?)\$\$|\$([\s\S]*?)\$/g, (match, displayMath, inlineMath) => {
+        return displayMath || inlineMath || '';
+    });
+
+    // 2. Apply custom math formatting for superscripts, subscripts, etc.
+    processedText = formatMathString(processedText);
+
+    // 3. Convert simple Markdown to HTML tags.
+    processedText = processedText
+        .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>') // Bold
+        .replace(/\*(.*?)\*/g, '<em>$1</em>')         // Italic
+        .replace(/`([^`]+)`/g, '<code>$1</code>');      // Inline code
+
+    // 4. Convert newlines to <br> for paragraph breaks.
+    processedText = processedText.replace(/\n/g, '<br />');
+
+    return processedText;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// formatMathString for text going into innerHTML. Model strings come from the AI, imported
+// structure files and shared sessions, so they are escaped first.
+function formatMathHtml(input: any): string {
+    return formatMathString(escapeHtml(String(input)));
+}
+
+function formatMathString(input: any): string {
+    if (typeof input !== 'string') {
+        return String(input);
+    }
+
+    const superscripts: { [key: string]: string } = {
+        '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+        'a': 'ᵃ', 'b': 'ᵇ', 'c': 'ᶜ', 'd': 'ᵈ', 'e': 'ᵉ', 'f': 'ᶠ', 'g': 'ᵍ', 'h': 'ʰ', 'i': 'ⁱ', 'j': 'ʲ',
+        'k': 'ᵏ', 'l': 'ˡ', 'm': 'ᵐ', 'n': 'ⁿ', 'o': 'ᵒ', 'p': 'ᵖ', 'r': 'ʳ', 's': 'ˢ', 't': 'ᵗ', 'u': 'ᵘ',
+        'v': 'ᵛ', 'w': 'ʷ', 'x': 'ˣ', 'y': 'ʸ', 'z': 'ᶻ',
+        'A': 'ᴬ', 'B': 'ᴮ', 'C': 'ᶜ', 'D': 'ᴰ', 'E': 'ᴱ', 'F': 'ᶠ', 'G': 'ᴳ', 'H': 'ᴴ', 'I': 'ᴵ', 'J': 'ᴶ', 
+        'K': 'ᴷ', 'L': 'ᴸ', 'M': 'ᴹ', 'N': 'ᴺ', 'O': 'ᴼ', 'P': 'ᴾ', 'R': 'ᴿ', 'T': 'ᵀ', 'U': 'ᵁ', 'V': 'ⱽ', 'W': 'ᵂ',
+        'X': 'ᵡ', 'Y': 'ʸ', 'Z': 'ᶻ',
+        '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾'
+    };
+    
+    const subscripts: { [key: string]: string } = {
+        '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+        'a': 'ₐ', 'e': 'ₑ', 'h': 'ₕ', 'i': 'ᵢ', 'j': 'ⱼ', 'k': 'ₖ', 'l': 'ₗ', 'm': 'ₘ', 'n': 'ₙ', 'o': 'ₒ',
+        'p': 'ₚ', 'r': 'ᵣ', 's': 'ₛ', 't': 'ₜ', 'u': 'ᵤ', 'v': 'ᵥ', 'x': 'ₓ',
+        '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎'
+    };
+
+    const toSuper = (chars: string) => chars.split('').map(c => superscripts[c.toLowerCase()] || c).join('');
+    const toSub = (chars: string) => chars.split('').map(c => subscripts[c.toLowerCase()] || c).join('');
+
+    let formatted = input;
+
+    // Replace sqrt keyword with symbol
+    formatted = formatted.replace(/sqrt/gi, '√');
+
+    // Replace common fractions
+    formatted = formatted.replace(/1\/2/g, '½').replace(/1\/4/g, '¼').replace(/3\/4/g, '¾').replace(/1\/3/g, '⅓').replace(/2\/3/g, '⅔');
+
+    // Handle grouped superscripts like ^(text) or ^{text}
+    formatted = formatted.replace(/\^[\({]([^)}]+)[\)}]/g, (_, content) => toSuper(content));
+    // Handle single character superscripts like ^2 or ^n
+    formatted = formatted.replace(/\^([a-zA-Z0-9+\-=()])/g, (_, char) => toSuper(char));
+
+    // Handle grouped subscripts like _(text) or _{text}
+    formatted = formatted.replace(/_[\({]([^)}]+)[\)}]/g, (_, content) => toSub(content));
+    // Handle single character subscripts like _2 or _n
+    formatted = formatted.replace(/_([a-zA-Z0-9+\-=()])/g, (_, char) => toSub(char));
+
+    return formatted;
+}
+
+
+function createLabelSprite(text: string) {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    const fontSize = 90;
+    const font = `Bold ${fontSize}px 'Roboto', sans-serif`;
+    context.font = font;
+    const metrics = context.measureText(text);
+    const textWidth = metrics.width;
+    canvas.width = textWidth;
+    canvas.height = fontSize;
+    context.font = font;
+    context.fillStyle = 'white';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(text, textWidth / 2, fontSize / 2);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.minFilter = THREE.LinearFilter;
+    const spriteMaterial = new THREE.SpriteMaterial({ map: texture, transparent: true });
+    const sprite = new THREE.Sprite(spriteMaterial);
+    sprite.scale.set(1.0 * (textWidth / fontSize), 1.0, 1.0);
+    return sprite;
+}
+
+const CHEM_MODEL_SCALE = 3.0;
+const OPTIMIZE_ANIMATION_MS = 1500; // the optimizer's frames are spread over this time
+const CRYSTAL_BALL_FRACTION = 0.4; // crystal atoms are drawn at this fraction of their hard-sphere radius
+const CRYSTAL_MAX_ATOMS = 3000;
+const LATTICE_VECTOR_COLORS = [0xff5252, 0x69f0ae, 0x448aff]; // a, b, c
+const CPK_COLORS: { [key: string]: number } = {
+    H: 0xffffff, C: 0x808080, N: 0x0000ff, O: 0xff0000, F: 0x00ff00, CL: 0x00ff00, BR: 0xa52a2a, I: 0x800080, P: 0xffa500, S: 0xffff00, B: 0xfa8072,
+    LI: 0xcc80ff, NA: 0xab5cf2, K: 0x8f40d4, CS: 0x57178f, MG: 0x8aff00, CA: 0x3dff00, SI: 0xf0c8a0, FE: 0xe06633, CU: 0xc88033, ZN: 0x7d80b0, AG: 0xc0c0c0, AU: 0xffd123,
+    DEFAULT: 0xffc0cb,
+};
+const ATOM_RADII: { [key: string]: number } = { 
+    H: 0.2 * CHEM_MODEL_SCALE, C: 0.35 * CHEM_MODEL_SCALE, N: 0.3 * CHEM_MODEL_SCALE, O: 0.3 * CHEM_MODEL_SCALE, F: 0.25 * CHEM_MODEL_SCALE, CL: 0.5 * CHEM_MODEL_SCALE, BR: 0.55 * CHEM_MODEL_SCALE, I: 0.65 * CHEM_MODEL_SCALE, P: 0.5 * CHEM_MODEL_SCALE, S: 0.5 * CHEM_MODEL_SCALE, B: 0.4 * CHEM_MODEL_SCALE, DEFAULT: 0.25 * CHEM_MODEL_SCALE 
+};
+
+function createAtom(atomData: any, position: THREE.Vector3, index: number) {
+    const group = new THREE.Group();
+    const el = atomData.element.toUpperCase();
+    const color = CPK_COLORS[el] || CPK_COLORS['DEFAULT'];
+    const radius = ATOM_RADII[el] || ATOM_RADII['DEFAULT'];
+
+    const sphereGeometry = new THREE.SphereGeometry(radius, 32, 16);
+    const sphereMaterial = new THREE.MeshStandardMaterial({ color, roughness: 0.5, metalness: 0.2 });
+    const atomMesh = new THREE.Mesh(sphereGeometry, sphereMaterial);
+    atomMesh.userData.details = {
+        element: atomData.element,
+        bondAngles: atomData.bondAngles,
+        vseprShape: atomData.vseprShape,
+        atomIndex: index,
+    };
+    group.add(atomMesh);
+    
+    const label = createLabelSprite(atomData.element);
+    if (label) {
+        label.position.y += radius + (0.15 * CHEM_MODEL_SCALE); // Offset label above the atom
+        label.scale.multiplyScalar(radius * 2.5); // Scale label with atom size
+        group.add(label);
+    }
+    
+    group.position.copy(position);
+    return group;
+}
+
+function createBond(bondData: any, startPos: THREE.Vector3, endPos: THREE.Vector3, bondName: string, bondIndex: number): THREE.Group {
+    const bondGroup = new THREE.Group();
+    bondGroup.userData.details = {
+        bondIndex,
+        name: bondName,
+        type: bondData.type,
+        energy: bondData.energy,
+        startAtomIndex: bondData.start,
+        endAtomIndex: bondData.end,
+    };
+
+    const path = new THREE.Vector3().subVectors(endPos, startPos);
+    const length = path.length();
+    const baseMaterial = new THREE.MeshStandardMaterial({ color: 0xcccccc, roughness: 0.5, metalness: 0.2 });
+    const bondRadius = 0.05 * CHEM_MODEL_SCALE;
+
+    const createCylinder = () => {
+        const cylinderGeometry = new THREE.CylinderGeometry(bondRadius, bondRadius, length, 16);
+        return new THREE.Mesh(cylinderGeometry, baseMaterial.clone()); // CLONE material here
+    };
+
+    const cylinders: THREE.Mesh[] = [];
+    const bondType = bondData.type.toLowerCase();
+    
+    if (bondType === 'double') {
+        cylinders.push(createCylinder(), createCylinder());
+    } else if (bondType === 'triple') {
+        cylinders.push(createCylinder(), createCylinder(), createCylinder());
+    } else { // Single bond
+        cylinders.push(createCylinder());
+    }
+
+    if (cylinders.length > 1) {
+        let offsetDirection = new THREE.Vector3().crossVectors(path, new THREE.Vector3(0, 1, 0));
+        if (offsetDirection.length() < 0.01) { // Handle case where bond is parallel to Y-axis
+            offsetDirection = new THREE.Vector3().crossVectors(path, new THREE.Vector3(1, 0, 0));
+        }
+        offsetDirection.normalize().multiplyScalar(bondRadius * 1.5);
+
+        if (cylinders.length === 2) {
+             cylinders[0].position.add(offsetDirection);
+             cylinders[1].position.sub(offsetDirection);
+        } else if (cylinders.length === 3) {
+            cylinders[1].position.add(offsetDirection);
+            cylinders[2].position.sub(offsetDirection);
+        }
+    }
+
+    cylinders.forEach(cylinder => {
+        const cylinderGroup = new THREE.Group();
+        cylinderGroup.position.copy(startPos).add(path.clone().multiplyScalar(0.5));
+        cylinderGroup.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), path.clone().normalize());
+        cylinderGroup.add(cylinder);
+        bondGroup.add(cylinderGroup);
+    });
+
+    return bondGroup;
+}
+
+
+// --- Model Builders from JSON ---
+function buildGeometryModel(data: any): THREE.Group {
+    const group = new THREE.Group();
+
+    if (!data.vertices || !Array.isArray(data.vertices) || data.vertices.length === 0) {
+        throw new Error("Invalid JSON structure: 'vertices' array not found or is empty.");
+    }
+    if (!data.faces || !Array.isArray(data.faces) || data.faces.length === 0) {
+        throw new Error("Invalid JSON structure: 'faces' array not found or is empty.");
+    }
+
+    const baseFaceMaterial = new THREE.MeshStandardMaterial({
+        color: 0x03dac6, side: THREE.DoubleSide, flatShading: false,
+        metalness: 0.2, roughness: 0.7, polygonOffset: true,
+        polygonOffsetFactor: 1, polygonOffsetUnits: 1,
+    });
+
+    const allVertices = data.vertices;
+    const metrics = computeMeshMetrics(data);
+    group.userData.metrics = metrics;
+
+    // All face groups share one BufferGeometry; each group gets a geometry group and its own
+    // material so it can be highlighted, and triangleFaceIds maps a picked triangle to its face.
+    // positionVertexIndices maps each drawn corner back to its vertex, so the editor can move it.
+    const positions: number[] = [];
+    const triangleFaceIds: number[] = [];
+    const positionVertexIndices: number[] = [];
+    const materials: THREE.MeshStandardMaterial[] = [];
+    const faceDetails: any[] = [];
+    const geometry = new THREE.BufferGeometry();
+
+    data.faces.forEach((faceGroup: any, faceIndex: number) => {
+        materials.push(baseFaceMaterial.clone());
+        // Keep the AI's strings and the locally computed values side by side
+        faceDetails.push({ ...faceGroup.details, computed: metrics.faces[faceIndex] });
+        if (!faceGroup.triangles || !Array.isArray(faceGroup.triangles)) return;
+
+        const groupStart = positions.length / 3;
+        faceGroup.triangles.forEach((triangleData: any) => {
+            const triangleIndices = triangleData.indices;
+            if (!triangleIndices || !Array.isArray(triangleIndices) || triangleIndices.length !== 3) {
+                 console.warn('Skipping triangle with invalid indices:', triangleData);
+                return;
+            }
+
+            // Validate vertices to prevent NaN errors in Three.js
+            const faceVerticesArrays = triangleIndices.map((index: number) => allVertices[index]);
+            const hasInvalidVertex = faceVerticesArrays.some(v => 
+                !v || !Array.isArray(v) || v.length !== 3 || v.some(coord => typeof coord !== 'number' || !isFinite(coord))
+            );
+
+            if (hasInvalidVertex) {
+                console.warn('Skipping triangle with invalid vertex data:', faceVerticesArrays);
+                return; // Prevent crash by skipping this triangle
+            }
+
+            positions.push(...faceVerticesArrays.flat());
+            positionVertexIndices.push(...triangleIndices);
+            triangleFaceIds.push(faceIndex);
+        });
+
+        const vertexCount = positions.length / 3 - groupStart;
+        if (vertexCount > 0) {
+            geometry.addGroup(groupStart, vertexCount, faceIndex);
+        }
+    });
+    baseFaceMaterial.dispose();
+
+    if (triangleFaceIds.length === 0) {
+        geometry.dispose();
+        materials.forEach(material => material.dispose());
+        throw new Error("Could not create any valid geometric shapes from the provided JSON.");
+    }
+
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.computeVertexNormals(); // Non-indexed, so each triangle keeps its flat normal
+
+    const solidMesh = new THREE.Mesh(geometry, materials);
+    solidMesh.userData.triangleFaceIds = Int32Array.from(triangleFaceIds);
+    solidMesh.userData.positionVertexIndices = Int32Array.from(positionVertexIndices);
+    solidMesh.userData.faceDetails = faceDetails;
+    group.add(solidMesh);
+
+    if (data.labels && Array.isArray(data.labels)) {
+        data.labels.forEach((labelData: any) => {
+            if (labelData.text && Array.isArray(labelData.position)) {
+                const labelSprite = createLabelSprite(labelData.text);
+                if (labelSprite) {
+                    labelSprite.position.fromArray(labelData.position);
+                    group.add(labelSprite);
+                }
+            }
+        });
+    }
+
+    // Dynamically scale labels based on overall model size
+    const modelBox = new THREE.Box3().setFromObject(group);
+    const modelSize = modelBox.getSize(new THREE.Vector3());
+    const maxDim = Math.max(modelSize.x, modelSize.y, modelSize.z);
+
+    if (maxDim > 0.001) {
+        const labelScale = maxDim / 15; // Tuned for geometry
+        group.children.forEach(child => {
+            if (child instanceof THREE.Sprite) {
+                child.scale.multiplyScalar(labelScale);
+            }
+        });
+    }
+
+    return group;
+}
+
+
+function buildChemistryModel(data: any): THREE.Group {
+    const group = new THREE.Group();
+    if (!data.atoms || !Array.isArray(data.atoms)) throw new Error("Invalid JSON: 'atoms' array not found.");
+    if (data.atoms.length === 0) throw new Error("Invalid JSON: 'atoms' array cannot be empty.");
+
+    const atomPositions: THREE.Vector3[] = [];
+    data.atoms.forEach((atom: any, index: number) => {
+        const position = new THREE.Vector3().fromArray(atom.position || [0, 0, 0]).multiplyScalar(CHEM_MODEL_SCALE);
+        atomPositions.push(position);
+        const atomGroup = createAtom(atom, position, index);
+        group.add(atomGroup);
+    });
+
+    if (data.bonds && Array.isArray(data.bonds)) {
+        data.bonds.forEach((bond: any, bondIndex: number) => {
+            if (bond.start >= 0 && bond.start < atomPositions.length &&
+                bond.end >= 0 && bond.end < atomPositions.length) {
+                const startPos = atomPositions[bond.start];
+                const endPos = atomPositions[bond.end];
+                const startElement = data.atoms[bond.start].element;
+                const endElement = data.atoms[bond.end].element;
+                const bondName = `${startElement}-${endElement}`;
+                const bondGroup = createBond(bond, startPos, endPos, bondName, bondIndex);
+                group.add(bondGroup);
+            }
+        });
+    }
+
+    group.userData.atomPositions = atomPositions;
+    group.userData.chemistryReport = checkChemistry(data);
+    
+    // Dynamically scale labels based on overall model size for readability
+    const modelBox = new THREE.Box3().setFromObject(group);
+    const modelSize = modelBox.getSize(new THREE.Vector3());
+    const maxDim = Math.max(modelSize.x, modelSize.y, modelSize.z);
+
+    if (maxDim > 0.001) {
+        const labelScale = maxDim / 30; // Tuned for chemistry
+        group.traverse(child => {
+            if (child instanceof THREE.Sprite) {
+                child.scale.multiplyScalar(labelScale);
+            }
+        });
+    }
+
+    return group;
+}
+
+/**
+ * Builds a block of `repeat`×`repeat`×`repeat` unit cells. Atoms are drawn at a fraction of their
+ * hard-sphere radius so the cell stays see-through; the cell edges, lattice vectors and
+ * nearest-neighbour contacts are guides only and can't be picked.
+ */
+function buildCrystalModel(data: any, repeat: number): THREE.Group {
+    const structure = parseCrystalData(data);
+    const analysis = analyzeCrystal(structure);
+    const vectors = getLatticeVectors(structure.lattice);
+    const toWorld = (fractional: [number, number, number]) => new THREE.Vector3().fromArray(fractionalToCartesian(fractional, vectors));
+    const group = new THREE.Group();
+    group.userData.crystal = { structure, analysis };
+
+    // Sites on the far faces, edges and corners of the block are drawn too, so the cells look whole
+    const images: { atomIndex: number, fractional: [number, number, number] }[] = [];
+    structure.atoms.forEach((atom, atomIndex) => {
+        for (let u = 0; u <= repeat; u++) {
+            for (let v = 0; v <= repeat; v++) {
+                for (let w = 0; w <= repeat; w++) {
+                    const fractional = [atom.fractional[0] + u, atom.fractional[1] + v, atom.fractional[2] + w] as [number, number, number];
+                    if (fractional.every(c => c <= repeat + 1e-6)) images.push({ atomIndex, fractional });
+                }
+            }
+        }
+    });
+    if (images.length > CRYSTAL_MAX_ATOMS) {
+        throw new Error(`${repeat}×${repeat}×${repeat} cells would show ${images.length} atoms (at most ${CRYSTAL_MAX_ATOMS}). Choose fewer cells.`);
+    }
+
+    const positions = images.map(image => toWorld(image.fractional));
+    images.forEach(({ atomIndex, fractional }, i) => {
+        const atom = structure.atoms[atomIndex];
+        const site = analysis.sites[atomIndex];
+        const radius = analysis.radii[atom.element] * CRYSTAL_BALL_FRACTION;
+        const color = CPK_COLORS[atom.element] || CPK_COLORS['DEFAULT'];
+        const mesh = new THREE.Mesh(new THREE.SphereGeometry(radius, 24, 12), new THREE.MeshStandardMaterial({ color, roughness: 0.5, metalness: 0.2 }));
+        mesh.position.copy(positions[i]);
+        mesh.userData.details = {
+            element: formatElementSymbol(atom.element),
+            atomIndex,
+            fractional: fractional.map(c => Number(c.toFixed(4))),
+            coordinationNumber: site.coordinationNumber,
+            neighbourDistance: `${site.neighbourDistance.toFixed(3)} Å`,
+            neighbours: Object.entries(site.neighbours).map(([element, count]) => `${count} ${formatElementSymbol(element)}`).join(', '),
+        };
+        group.add(mesh);
+    });
+
+    const guides = new THREE.Group();
+
+    // Contacts between displayed atoms that are in each other's first coordination shell
+    const contactPoints: THREE.Vector3[] = [];
+    images.forEach((image, i) => {
+        const reach = analysis.sites[image.atomIndex].neighbourDistance * 1.05;
+        for (let j = i + 1; j < images.length; j++) {
+            const distance = positions[i].distanceTo(positions[j]);
+            if (distance > 1e-6 && distance <= Math.max(reach, analysis.sites[images[j].atomIndex].neighbourDistance * 1.05)) {
+                contactPoints.push(positions[i], positions[j]);
+            }
+        }
+    });
+    if (contactPoints.length > 0) {
+        guides.add(new THREE.LineSegments(
+            new THREE.BufferGeometry().setFromPoints(contactPoints),
+            new THREE.LineBasicMaterial({ color: 0x9e9e9e, transparent: true, opacity: 0.6 }),
+        ));
+    }
+
+    // Every cell edge in the block, as lines along each lattice vector through the grid points
+    const edgePoints: THREE.Vector3[] = [];
+    for (let i = 0; i <= repeat; i++) {
+        for (let j = 0; j <= repeat; j++) {
+            edgePoints.push(toWorld([0, i, j]), toWorld([repeat, i, j]));
+            edgePoints.push(toWorld([i, 0, j]), toWorld([i, repeat, j]));
+            edgePoints.push(toWorld([i, j, 0]), toWorld([i, j, repeat]));
+        }
+    }
+    guides.add(new THREE.LineSegments(
+        new THREE.BufferGeometry().setFromPoints(edgePoints),
+        new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.35 }),
+    ));
+
+    const maxDim = Math.max(...new THREE.Box3().setFromPoints(edgePoints).getSize(new THREE.Vector3()).toArray()) || 1;
+    ['a', 'b', 'c'].forEach((name, axis) => {
+        const vector = new THREE.Vector3().fromArray(vectors[axis]);
+        const length = vector.length();
+        const direction = vector.clone().normalize();
+        guides.add(new THREE.ArrowHelper(direction, new THREE.Vector3(), length, LATTICE_VECTOR_COLORS[axis], length * 0.12, length * 0.06));
+        const label = createLabelSprite(name);
+        if (label) {
+            label.position.copy(direction.multiplyScalar(length + maxDim / 30));
+            label.scale.multiplyScalar(maxDim / 20);
+            guides.add(label);
+        }
+    });
+
+    guides.traverse(child => { child.raycast = () => {}; });
+    group.add(guides);
+    return group;
+}
+
+// --- Main Application Logic ---
+
+function selectMode(mode: AppMode) {
+    currentMode = mode;
+    modeSelectionContainer.classList.add('hidden');
+    appContainer.classList.remove('hidden');
+    appTitle.textContent = `AI 3D ${mode.charAt(0).toUpperCase() + mode.slice(1)} Generator`;
+    saveSessionBtn.classList.add('hidden');
+    exportSessionBtn.classList.add('hidden');
+
+    if (mode === 'geometry') {
+        imageInput.accept = [...UPLOAD_IMAGE_TYPES, ...MESH_FILE_EXTENSIONS].join(', ');
+        structureTextContainer.classList.add('hidden');
+    } else if (mode === 'chemistry') {
+        imageInput.accept = [...UPLOAD_IMAGE_TYPES, ...STRUCTURE_FILE_EXTENSIONS].join(', ');
+        structureTextContainer.classList.remove('hidden');
+    } else { // 'crystal'
+        imageInput.accept = UPLOAD_IMAGE_TYPES.join(', ');
+        structureTextContainer.classList.add('hidden');
+    }
+    setQaMode('ask');
+
+    onWindowResize();
+}
+
+function resetApp() {
+    cancelGeneration();
+    setModelEditing(false);
+    currentMode = null;
+    selectedImages = [];
+    generatedModelData = null;
+    currentSelectionDetails = null;
+    qaHistory = [];
+    stopQaAnswer();
+    chat = null;
     currentSessionId = null;
+    currentSessionInfo = {};
+    modelCandidates = [];
+    candidateStrip.classList.add('hidden');
+    candidateStrip.innerHTML = '';
+    modelVersions = [];
+    versionsContainer.classList.add('hidden');
+    editStatus.classList.add('hidden');
     
     imageInput.value = '';
-    imagePreviewContainer.classList.add('hidden');
-    generateBtn.disabled = true;
+    structureTextInput.value = '';
+    renderImagePreviews();
     resultsContainer.classList.add('hidden');
     detailsContainer.classList.add('hidden');
+    chemistryReportContainer.classList.add('hidden');
+    validationReportContainer.classList.add('hidden');
     detailsContent.innerHTML = '';
     selectionDetailsContainer.classList.add('hidden');
     selectionDetailsContent.innerHTML = '';
@@ -982,348 +2306,1478 @@ function resetApp() {
     qaHistoryContainer.innerHTML = '';
     qaInput.value = '';
     saveSessionBtn.classList.add('hidden');
+    exportSessionBtn.classList.add('hidden');
+    
+    clearError();
+
+    highlightedObjects = [];
+    removeGeneratedObject();
+    clearGroup(angleVisualizationGroup);
+    resetMeasurements();
+    setSectionEnabled(false);
+    removeNetObject();
+    crystalRepeat = 1;
+    crystalRepeatSelect.value = '1';
+    modeSelectionContainer.classList.remove('hidden');
+    appContainer.classList.add('hidden');
+    checkSavedSessions();
+}
+
+const MAX_UPLOAD_IMAGES = 6;
+
+async function handleImageUpload(event: Event) {
+    const files = Array.from((event.target as HTMLInputElement).files || []);
+    // Picking the same file again after removing it should still fire a change
+    imageInput.value = '';
+    if (files.length === 0) return;
+
+    const modelFile = files.find(file => (currentMode === 'chemistry' && getStructureFormat(file.name)) || (currentMode === 'geometry' && isMeshFile(file.name)));
+    if (modelFile) {
+        if (files.length > 1) {
+            showError(`Import ${modelFile.name} on its own, without other files.`);
+            return;
+        }
+        handleModelFileImport(modelFile);
+        return;
+    }
+
+    if (files.some(file => !UPLOAD_IMAGE_TYPES.includes(file.type) && !isPdfFile(file))) {
+        showError(currentMode === 'chemistry'
+            ? 'Please upload JPG, PNG or WebP images or a PDF, or a .mol, .sdf, .xyz or .pdb structure file.'
+            : currentMode === 'geometry'
+                ? 'Please upload JPG, PNG or WebP images or a PDF, or an .obj or .stl mesh.'
+                : 'Please upload JPG, PNG or WebP images or a PDF.');
+        return;
+    }
+    if (selectedImages.length + files.length > MAX_UPLOAD_IMAGES) {
+        showError(`Up to ${MAX_UPLOAD_IMAGES} images can be sent together.`);
+        return;
+    }
+    clearError();
+
+    // Each file goes through the preparation editor in turn; cancelling one leaves it out
+    for (const [index, file] of files.entries()) {
+        try {
+            const pdf = isPdfFile(file) ? await openPdfFile(file) : null;
+            const source = pdf ? await pdf.renderPage(1) : await loadImageFile(file);
+            const title = files.length > 1 ? `Prepare Image ${index + 1} of ${files.length}` : 'Prepare Image';
+            const image = await openImagePrep(source, title, pdf);
+            if (image) {
+                selectedImages.push(image);
+                renderImagePreviews();
+            }
+        } catch (error) {
+            console.error('Error reading image:', error);
+            showError(`Failed to read ${file.name}.`);
+        }
+    }
+}
+
+/**
+ * Shows the selected images in upload order, each with a role tag (e.g. "Top view") that is
+ * sent with it, and a button to remove it.
+ */
+function renderImagePreviews() {
+    imagePreviewList.innerHTML = '';
+    imagePreviewList.classList.toggle('multiple', selectedImages.length > 1);
+    selectedImages.forEach((image, index) => {
+        const item = document.createElement('figure');
+        item.className = 'image-preview-item';
+        const img = document.createElement('img');
+        img.src = `data:${image.mimeType};base64,${image.data}`;
+        img.alt = `Selected image ${index + 1}`;
+
+        const caption = document.createElement('figcaption');
+        const roleInput = document.createElement('input');
+        roleInput.type = 'text';
+        roleInput.placeholder = selectedImages.length > 1 ? `Image ${index + 1} role (optional)` : 'Role (optional)';
+        roleInput.value = image.role || '';
+        roleInput.setAttribute('list', 'image-role-options');
+        roleInput.setAttribute('aria-label', `Role of image ${index + 1}`);
+        roleInput.addEventListener('input', () => { image.role = roleInput.value.trim() || undefined; });
+        const editBtn = document.createElement('button');
+        editBtn.innerHTML = '<span class="material-icons">crop</span>';
+        editBtn.title = 'Crop, rotate or straighten';
+        editBtn.addEventListener('click', () => handleEditImage(image));
+        const removeBtn = document.createElement('button');
+        removeBtn.innerHTML = '<span class="material-icons">close</span>';
+        removeBtn.title = 'Remove image';
+        removeBtn.addEventListener('click', () => {
+            selectedImages.splice(index, 1);
+            renderImagePreviews();
+        });
+        caption.append(roleInput, editBtn, removeBtn);
+        item.append(img, caption);
+        imagePreviewList.appendChild(item);
+    });
+    imagePreviewContainer.classList.toggle('hidden', selectedImages.length === 0);
+    generateBtn.disabled = selectedImages.length === 0;
+}
+
+function getChatPrompt(modelData: string) {
+    return `
+You are an expert educator and tutor for secondary school students, with deep knowledge in chemistry, crystallography and geometry. A 3D model has been generated, and its underlying data is provided below.
+Your task is to answer user questions about this model. Use the model's data as the primary context for your calculations, but explain everything in simple, intuitive terms.
+
+**CRITICAL RULE: Speak like a helpful teacher, not a computer program.**
+- **NEVER** mention technical computer graphics terms like "vertices", "indices", "faces", "meshes", "coordinates", or "triangulation". The user does not know what these are.
+- Instead, describe the model using familiar geometric shapes (e.g., "a rectangular block", "a hollow cylinder", "a flat circular face").
+- Refer to dimensions with common terms (e.g., "length", "width", "height", "radius", "diameter", "thickness").
+- Your primary goal is to make the 3D model understandable to a 14-year-old student. Be clear, encouraging, and focus on the concepts, not the raw data.
+
+**Answering Style:**
+- When a user asks "how to calculate..." something, provide a step-by-step explanation using the relevant formula and plugging in the dimensions from the model data.
+- For example, instead of saying 'the volume is in the analysis object', explain HOW that volume was calculated (e.g., "The model is a rectangular prism. To find its volume, we multiply its length (14 cm) by its width (12 cm) by its height (30 cm)...").
+
+**Formatting Rules:**
+- Use markdown for emphasis where needed, such as **bold** for key terms or *italics*.
+- For superscripts, use the caret symbol \`^\`. For single characters, use it directly (e.g., \`r^2\`). For multiple characters, group them in parentheses (e.g., \`10^(-3)\`).
+- For subscripts, use the underscore symbol \`_\`. For single characters, use it directly (e.g., \`H_2O\` should be written as \`H_2O\`). For multiple characters, group them in parentheses (e.g., \`rate_(initial)\`).
+- Use the \`sqrt\` keyword for square roots, like \`sqrt(b^2-4ac)\`.
+
+Your responses should foster a positive learning experience, encouraging curiosity and further questions from the students.
+
+OVERALL MODEL DATA:
+---
+${modelData}
+---
+${currentMode === 'crystal' ? getCrystalPromptContext(modelData) : ''}`;
+}
+
+// The AI's own analysis of a crystal can be wrong, so the chat gets the values worked out from the cell
+function getCrystalPromptContext(modelData: string): string {
+    try {
+        const structure = parseCrystalData(JSON.parse(modelData));
+        const analysis = analyzeCrystal(structure);
+        return `
+PROPERTIES COMPUTED FROM THE UNIT CELL (prefer these over the analysis above where they differ):
+- Formula: ${analysis.formula}, ${analysis.formulaUnits} formula unit(s) per cell
+- Cell volume: ${analysis.cellVolume.toFixed(2)} Å^3
+- Coordination numbers: ${describeCoordination(structure, analysis)}
+- Packing efficiency: ${(analysis.packingEfficiency * 100).toFixed(1)}% (hard spheres touching at the closest contact)
+- Density: ${analysis.density !== null ? `${analysis.density.toFixed(3)} g/cm^3` : 'unknown'}
+`;
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Builds the opening chat turns for a model, replaying any earlier Q&A (stored newest first).
+ */
+function getChatHistory(modelData: string, history: QAPair[]): ChatTurn[] {
+    const turns: ChatTurn[] = [
+        { role: 'user', text: getChatPrompt(modelData) },
+        { role: 'model', text: 'Understood. I am ready to answer questions about the provided 3D model data.' },
+    ];
+    history.slice().reverse().forEach(pair => {
+        turns.push({ role: 'user', text: pair.question });
+        turns.push({ role: 'model', text: pair.answer });
+    });
+    return turns;
+}
+
+function updateLoadingProgress(progress: number, text: string) {
+    progressBar.style.width = `${progress}%`;
+    loadingText.textContent = text;
+}
+
+/**
+ * Clears the current model, its chat and all result panels before a new model is shown.
+ */
+function resetModelState() {
+    setModelEditing(false);
+    clearModelView();
     
+    qaInput.value = '';
+    qaBtn.disabled = true;
+    qaHistory = [];
+    qaHistoryContainer.innerHTML = '';
+    generatedModelData = null;
+    stopQaAnswer();
+    chat = null;
+    currentSessionId = null;
+    currentSessionInfo = {};
+    modelCandidates = [];
+    candidateStrip.classList.add('hidden');
+    candidateStrip.innerHTML = '';
+    modelVersions = [];
+    versionsContainer.classList.add('hidden');
+    editStatus.classList.add('hidden');
+    resetMeasurements();
+    crystalRepeat = 1;
+    crystalRepeatSelect.value = '1';
+    qaContainer.classList.add('hidden');
+    saveSessionBtn.classList.add('hidden');
+    exportSessionBtn.classList.add('hidden');
+}
+
+/**
+ * Removes the displayed model with everything drawn on or worked out from it, but keeps the
+ * chat, measurements and version history, for when another version of the same model is shown.
+ */
+function clearModelView() {
+    if (optimizationFrameId !== null) {
+        cancelAnimationFrame(optimizationFrameId);
+        optimizationFrameId = null;
+        optimizeGeometryBtn.disabled = false;
+    }
+    highlightedObjects = [];
+    removeGeneratedObject();
+    currentSelectionDetails = null;
+    clearGroup(angleVisualizationGroup);
+    clearGroup(editorHandleGroup);
+    setSectionEnabled(false);
+    removeNetObject();
+    detailsContainer.classList.add('hidden');
+    chemistryReportContainer.classList.add('hidden');
+    validationReportContainer.classList.add('hidden');
+    detailsContent.innerHTML = '';
+    selectionDetailsContainer.classList.add('hidden');
+    selectionDetailsContent.innerHTML = '';
+}
+
+/**
+ * Builds the scene object for a mode from parsed model data, centred on the origin. Throws
+ * when the data produces nothing to show.
+ */
+function buildModelObject(mode: AppMode, data: any): THREE.Object3D {
+    let resultObject;
+
+    if (mode === 'geometry') {
+        resultObject = buildGeometryModel(data);
+    } else if (mode === 'crystal') {
+        resultObject = buildCrystalModel(data, crystalRepeat);
+    } else {
+        resultObject = buildChemistryModel(data);
+    }
+
+    const isModelValid = (obj: THREE.Object3D) => {
+        if (!obj) return false;
+        if (obj instanceof THREE.Mesh) return true;
+        if (obj instanceof THREE.Group) return obj.children.length > 0;
+        return false;
+    };
+
+    if (!isModelValid(resultObject)) {
+        disposeObject(resultObject);
+        throw new Error("Generated JSON did not produce a valid 3D model.");
+    }
+    const box = new THREE.Box3().setFromObject(resultObject);
+    const center = box.getCenter(new THREE.Vector3());
+    resultObject.position.sub(center);
+    return resultObject;
+}
+
+/**
+ * Builds the scene object for the current mode from parsed model data, shows its details
+ * and centres the camera on it. A model edited by hand passes the position of the one it
+ * replaces instead, so the parts that didn't change and the camera stay where they were.
+ */
+function displayModel(data: any, position?: THREE.Vector3) {
+    const resultObject = buildModelObject(currentMode!, data);
+    if (position) resultObject.position.copy(position);
+
+    if (data.analysis) {
+        displayDetails(data.analysis, resultObject.userData.metrics, resultObject.userData.crystal);
+    }
+    if (resultObject.userData.chemistryReport) {
+        displayChemistryReport(resultObject.userData.chemistryReport);
+    }
+
+    scene.add(resultObject);
+    generatedObject = resultObject;
+    if (!position) frameObject(generatedObject);
+    updateExportToolbar();
+}
+
+/**
+ * Renders the current view into a PNG, used as the session thumbnail when there is no photo.
+ */
+function captureThumbnail(): { data: string; mimeType: string; } {
+    renderer.render(scene, camera);
+    const dataUrl = renderer.domElement.toDataURL('image/png');
+    return { data: dataUrl.split(',')[1], mimeType: 'image/png' };
+}
+
+/**
+ * Shows a model that was built locally (an imported file or a typed structure) rather than
+ * generated from a photo, and starts a Q&A chat about it.
+ */
+function displayLocalModel(data: any) {
+    resetModelState();
+
+    const jsonString = JSON.stringify(data);
+    generatedModelData = jsonString;
+    chat = aiProvider.createChat(getChatHistory(jsonString, []));
+    displayCode(jsonString);
+    displayModel(data);
+    startVersionHistory(jsonString);
+
+    resultsContainer.classList.remove('hidden');
+    qaContainer.classList.remove('hidden');
+    qaBtn.disabled = false;
+    saveSessionBtn.classList.remove('hidden');
+    exportSessionBtn.classList.remove('hidden');
+    onWindowResize();
+
+    // There's no photo behind this model; saving it captures the rendered view instead
+    selectedImages = [];
+    renderImagePreviews();
+}
+
+async function handleModelFileImport(file: File) {
+    clearError();
+    try {
+        const data = currentMode === 'geometry'
+            ? parseMeshFile(await file.arrayBuffer(), file.name)
+            : parseStructureFile(await file.text(), file.name);
+        displayLocalModel(data);
+        showNotification(`Imported ${file.name}`);
+    } catch (error) {
+        console.error('Error importing model file:', error);
+        showError(error instanceof Error ? error.message : 'Failed to import the model file.');
+    }
+}
+
+function handleStructureTextSubmit() {
+    const text = structureTextInput.value.trim();
+    if (!text || currentMode !== 'chemistry') return;
+    clearError();
+    try {
+        const parsed = parseMoleculeText(text);
+        const { atoms, bonds } = embedMolecule(parsed.graph);
+        const data = buildChemistryData(atoms, bonds, parsed.name);
+        data.analysis.source = parsed.source;
+        imageInput.value = '';
+        displayLocalModel(data);
+        showNotification(`Built ${parsed.name}`);
+    } catch (error) {
+        console.error('Error building structure from text:', error);
+        showError(error instanceof Error ? error.message : 'Could not read that structure.');
+    }
+}
+
+// What one model request is doing, for the waiting text
+interface RequestProgress {
+    label: string;
+    attempt: number;
+    attemptStart: number; // in the future while waiting to retry
+    retryReason: string;
+    done: boolean;
+}
+
+interface ModelResponse {
+    jsonString: string;
+    data: any;
+    issues: ValidationIssue[];
+    repairs: number;
+}
+
+function createRequestProgress(): RequestProgress {
+    return { label: `Waiting for ${aiProvider.name}`, attempt: 1, attemptStart: Date.now(), retryReason: '', done: false };
+}
+
+// Nothing is known about progress until the answer arrives, so this shows the time waited instead
+function describeRequestProgress(state: RequestProgress): string {
+    const now = Date.now();
+    const attemptText = state.attempt > 1 ? ` (attempt ${state.attempt} of ${requestPolicy.retries + 1})` : '';
+    return now < state.attemptStart
+        ? `${state.retryReason} Retrying in ${Math.ceil((state.attemptStart - now) / 1000)} s${attemptText}...`
+        : `${state.label}${attemptText}... ${Math.floor((now - state.attemptStart) / 1000)} s`;
+}
+
+/**
+ * Asks the AI for model JSON and sends the exact validation problems back until it passes or
+ * MAX_REPAIR_ATTEMPTS run out; models usually fix an index or a missing field when told where it
+ * is. Throws when the last response still isn't JSON.
+ */
+async function requestModelData(mode: AppMode, task: string, prompt: string, images: ImageInput[], signal: AbortSignal,
+                                state: RequestProgress, onProgress: () => void): Promise<ModelResponse> {
+    const requestModel = async (requestPrompt: string, waitingLabel: string) => {
+        Object.assign(state, { label: waitingLabel, attempt: 1, attemptStart: Date.now(), retryReason: '' });
+        onProgress();
+        const response = await generateWithRetry(aiProvider, {
+            task,
+            prompt: requestPrompt,
+            images,
+            schema: MODE_SCHEMAS[mode],
+            thinkingBudget: mode === 'geometry' ? 8192 : undefined,
+        }, {
+            ...requestPolicy,
+            signal,
+            onRetry: (error, nextAttempt, delayMs) => {
+                Object.assign(state, { attempt: nextAttempt, attemptStart: Date.now() + delayMs, retryReason: error.message });
+                onProgress();
+            },
+        });
+        return response.text;
+    };
+
+    let jsonString = await requestModel(prompt, `Waiting for ${aiProvider.name}`);
+    let { data, issues } = checkModelResponse(mode, jsonString);
+    let repairs = 0;
+    while (issues.length > 0 && repairs < MAX_REPAIR_ATTEMPTS) {
+        repairs++;
+        console.warn(`Response failed validation; repair attempt ${repairs}:`, issues);
+        const repairPrompt = `${prompt}\n${REPAIR_PROMPT}\nPREVIOUS RESPONSE:\n${jsonString}\n\nPROBLEMS FOUND:\n${formatValidationIssues(issues)}`;
+        const problems = issues.length === 1 ? '1 problem' : `${issues.length} problems`;
+        jsonString = await requestModel(repairPrompt, `Found ${problems} in the response; ${aiProvider.name} is fixing them (repair ${repairs} of ${MAX_REPAIR_ATTEMPTS})`);
+        ({ data, issues } = checkModelResponse(mode, jsonString));
+    }
+    state.done = true;
+    onProgress();
+    if (data === null) {
+        throw generationError('invalidJson', `The AI's response was not valid model data${repairs > 0 ? `, even after ${repairs} repair attempts` : ''}.`);
+    }
+    return { jsonString, data, issues, repairs };
+}
+
+/**
+ * The message for a response whose 3D model could not be built, with the first of any
+ * validation problems that might explain it.
+ */
+function modelBuildError(error: unknown, issues: ValidationIssue[]): GenerationError {
+    const remaining = issues.length > 0 ? ` Problems found: ${issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ')}${issues.length > 3 ? '; ...' : ''}.` : '';
+    return generationError('modelBuild', `The 3D model could not be built from the AI's response. ${error instanceof Error ? error.message : ''}${remaining}`, error);
+}
+
+interface ModelCandidate extends ModelResponse {
+    score: CandidateScore;
+    thumbnail: string | null; // PNG data URL, or null when no 3D model could be built from it
+    buildError: string | null;
+}
+
+const CANDIDATE_THUMBNAIL_WIDTH = 240;
+
+async function handleGenerateClick() {
+    if (selectedImages.length === 0 || !currentMode) {
+        showError('An error occurred. Please select a mode and upload an image.');
+        return;
+    }
+    if (generationAbortController) return;
+
+    const controller = new AbortController();
+    const mode = currentMode;
+    const count = Number(candidateCountSelect.value) || 1;
+    generationAbortController = controller;
+    setLoading(true);
     clearError();
+    resetModelState();
+
+    try {
+        updateLoadingProgress(5, 'Preparing request...');
+        
+        const prompt = selectedImages.length > 1 ? MODE_PROMPTS[mode] + MULTI_IMAGE_PROMPT : MODE_PROMPTS[mode];
+        const generationStart = Date.now();
+        const progress = Array.from({ length: count }, createRequestProgress);
+        const showWaiting = () => {
+            const ready = progress.filter(state => state.done).length;
+            loadingText.textContent = count > 1
+                ? `Generating ${count} candidates with ${aiProvider.name}: ${ready} of ${count} ready... ${Math.floor((Date.now() - generationStart) / 1000)} s`
+                : describeRequestProgress(progress[0]);
+        };
+
+        updateLoadingProgress(10, '');
+        progressBar.classList.add('indeterminate');
+        cancelGenerationBtn.classList.remove('hidden');
+        showWaiting();
+        const waitingInterval = window.setInterval(showWaiting, 1000);
+        // Settles only once every candidate has, so one failure doesn't lose the others
+        const results = await Promise.allSettled(progress.map(state => requestModelData(mode, mode, prompt, selectedImages, controller.signal, state, showWaiting)));
+        window.clearInterval(waitingInterval);
+        progressBar.classList.remove('indeterminate');
+        cancelGenerationBtn.classList.add('hidden');
+        // Cancelling drops the candidates that had already arrived too
+        if (controller.signal.aborted) throw generationError('cancelled', 'Generation cancelled.');
+
+        const responses = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+        const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+        if (responses.length === 0) throw failures[0];
+        failures.forEach(error => console.error('Candidate failed:', error));
+
+        updateLoadingProgress(75, 'Received response, parsing data...');
+        await new Promise(resolve => setTimeout(resolve, 200));
+        updateLoadingProgress(85, count > 1 ? 'Checking and ranking the candidates...' : 'Constructing 3D model...');
+
+        // The viewer has to be laid out before thumbnails can be rendered into it
+        resultsContainer.classList.remove('hidden');
+        qaContainer.classList.remove('hidden'); // Show Q&A panel with results
+        onWindowResize();
+
+        const candidates: ModelCandidate[] = responses.map(response => {
+            const candidate: ModelCandidate = { ...response, score: scoreCandidate(mode, response.data, response.issues), thumbnail: null, buildError: null };
+            if (count === 1) return candidate;
+            try {
+                candidate.thumbnail = renderCandidateThumbnail(mode, response.data);
+            } catch (error) {
+                candidate.buildError = error instanceof Error ? error.message : String(error);
+            }
+            return candidate;
+        });
+        // Candidates that can't be shown go last, whatever their score
+        candidates.sort((a, b) => Number(a.buildError !== null) - Number(b.buildError !== null) || b.score.total - a.score.total);
+
+        const best = candidates[0];
+        try {
+            if (best.buildError !== null) throw new Error(best.buildError);
+            showModelCandidate(candidates, 0);
+        } catch (error) {
+            throw modelBuildError(error, best.issues);
+        }
+        if (failures.length > 0) {
+            showNotification(`${failures.length} of ${count} candidates failed: ${classifyError(failures[0]).message}`);
+        }
+        
+        await new Promise(resolve => setTimeout(resolve, 200));
+        updateLoadingProgress(95, 'Finalizing scene...');
+
+        // If successful, we reach here.
+        updateLoadingProgress(100, 'Done!');
+        setTimeout(() => setLoading(false), 500);
+
+    } catch (error) {
+        // Changing mode or loading a session already cleared everything
+        if (generationAbortController !== controller) return;
+        const classified = classifyError(error);
+        if (classified.kind === 'cancelled') {
+            showNotification('Generation cancelled.');
+        } else {
+            console.error('Error generating 3D model:', error);
+            showGenerationError(classified);
+        }
+        resultsContainer.classList.add('hidden');
+        qaContainer.classList.add('hidden');
+        detailsContainer.classList.add('hidden');
+        chemistryReportContainer.classList.add('hidden');
+        validationReportContainer.classList.add('hidden');
+        setLoading(false); // On error, just hide the loading screen.
+    } finally {
+        if (generationAbortController === controller) generationAbortController = null;
+    }
+}
+
+/**
+ * Renders a model on its own and returns the view as a small PNG data URL. The model is
+ * removed again, so the scene is left as it was apart from the camera.
+ */
+function renderCandidateThumbnail(mode: AppMode, data: any): string {
+    const object = buildModelObject(mode, data);
+    scene.add(object);
+    try {
+        frameObject(object);
+        renderer.render(scene, camera);
+        const source = renderer.domElement;
+        const canvas = document.createElement('canvas');
+        canvas.width = CANDIDATE_THUMBNAIL_WIDTH;
+        canvas.height = Math.max(1, Math.round(CANDIDATE_THUMBNAIL_WIDTH * source.height / Math.max(1, source.width)));
+        canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/png');
+    } finally {
+        scene.remove(object);
+        disposeObject(object);
+    }
+}
+
+/**
+ * Shows one of the generated candidates as the current model, with a fresh chat about it.
+ */
+function showModelCandidate(candidates: ModelCandidate[], index: number) {
+    const candidate = candidates[index];
+    resetModelState();
+    displayCode(candidate.jsonString);
+    displayModel(candidate.data);
+    displayValidationReport(candidate.issues, candidate.repairs);
+
+    generatedModelData = candidate.jsonString; // Store data for QA
+    // Initialize a new chat session with the model data as context
+    chat = aiProvider.createChat(getChatHistory(generatedModelData, []));
+
+    startVersionHistory(candidate.jsonString);
+
+    qaBtn.disabled = false; // Enable asking questions
+    saveSessionBtn.classList.remove('hidden');
+    exportSessionBtn.classList.remove('hidden');
+    resultsContainer.classList.remove('hidden');
+    qaContainer.classList.remove('hidden');
+
+    if (candidates.length > 1) {
+        modelCandidates = candidates;
+        selectedCandidateIndex = index;
+        renderCandidateStrip();
+    }
+    onWindowResize();
+}
+
+function describeCandidateScore(score: CandidateScore): string {
+    return [`Score ${score.total}/100`, ...score.parts.map(part => `${part.label}: ${Math.round(part.score * 100)}% (${part.detail})`)].join('\n');
+}
+
+function renderCandidateStrip() {
+    candidateStrip.innerHTML = '';
+    modelCandidates.forEach((candidate, index) => {
+        const item = document.createElement('button');
+        item.className = 'candidate-item';
+        item.classList.toggle('active', index === selectedCandidateIndex);
+        item.setAttribute('role', 'option');
+        item.setAttribute('aria-selected', String(index === selectedCandidateIndex));
+        if (candidate.thumbnail) {
+            const image = document.createElement('img');
+            image.src = candidate.thumbnail;
+            image.alt = `Candidate ${index + 1}`;
+            item.appendChild(image);
+        } else {
+            const unavailable = document.createElement('span');
+            unavailable.className = 'candidate-unavailable material-icons';
+            unavailable.textContent = 'broken_image';
+            item.appendChild(unavailable);
+        }
+        const caption = document.createElement('span');
+        if (candidate.buildError !== null) {
+            item.disabled = true;
+            item.title = `This candidate could not be built: ${candidate.buildError}`;
+            caption.textContent = `#${index + 1} · unusable`;
+        } else {
+            item.title = describeCandidateScore(candidate.score);
+            caption.textContent = `#${index + 1} · ${candidate.score.total}/100`;
+        }
+        item.appendChild(caption);
+        if (index === 0 && candidate.buildError === null) {
+            const badge = document.createElement('span');
+            badge.className = 'candidate-best';
+            badge.textContent = 'Best';
+            item.appendChild(badge);
+        }
+        item.addEventListener('click', () => handleSelectCandidate(index));
+        candidateStrip.appendChild(item);
+    });
+    candidateStrip.classList.remove('hidden');
+}
 
-    if (generatedObject) {
-        scene.remove(generatedObject);
-        generatedObject = null;
-    }
+function handleSelectCandidate(index: number) {
+    if (index === selectedCandidateIndex || qaAbortController) return;
+    if ((qaHistory.length > 0 || modelVersions.length > 1)
+        && !confirm('Switching to another candidate starts a new conversation and version history. Discard the questions and edits made to this one?')) return;
+    showModelCandidate(modelCandidates, index);
+}
 
-    if (highlightedObjects.length > 0) {
-        highlightedObjects.forEach(h => {
-            (h.object.material as THREE.MeshStandardMaterial).color.copy(h.originalColor);
-        });
-        highlightedObjects = [];
+/**
+ * Parses and validates a response; text that isn't JSON at all is reported as one issue.
+ */
+function checkModelResponse(mode: AppMode, text: string): { data: any, issues: ValidationIssue[] } {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { data: null, issues: [{ path: '(root)', message: `is not valid JSON: ${error instanceof Error ? error.message : error}` }] };
     }
-    
-    angleVisualizationGroup.clear();
-    modeSelectionContainer.classList.remove('hidden');
-    appContainer.classList.add('hidden');
-    checkSavedSessions();
+    return { data, issues: validateModelData(mode, data, MODE_SCHEMAS[mode]) };
+}
+
+/**
+ * Shows whether the AI's response passed validation, and what is still wrong with it if the
+ * repair attempts ran out.
+ */
+function displayValidationReport(issues: ValidationIssue[], repairs: number) {
+    const repairText = repairs === 1 ? '1 automatic repair' : `${repairs} automatic repairs`;
+    const summary = issues.length === 0
+        ? (repairs === 0 ? "The AI's response passed every check." : `The AI's response passed every check after ${repairText}.`)
+        : `${issues.length} problem(s) remain after ${repairText}. Parts of the model may be missing or misplaced.`;
+    validationReportContent.innerHTML = `
+        <ul>
+            <li class="report-summary">${summary}</li>
+            ${issues.map(issue => `<li class="metric-warning"><span class="material-icons">warning</span> <code>${escapeHtml(issue.path)}</code> ${escapeHtml(issue.message)}</li>`).join('')}
+        </ul>
+    `;
+    validationReportContainer.classList.remove('hidden');
+}
+
+/**
+ * Abandons the model being generated, for when the app is reset underneath it.
+ */
+function cancelGeneration() {
+    if (!generationAbortController) return;
+    generationAbortController.abort();
+    generationAbortController = null;
+    setLoading(false);
 }
 
-function handleImageUpload(event: Event) {
-    const file = (event.target as HTMLInputElement).files?.[0];
-    if (!file) {
-        selectedImage = null;
-        generateBtn.disabled = true;
-        imagePreviewContainer.classList.add('hidden');
+async function handleAskQuestion() {
+    const question = qaInput.value.trim();
+    if (!question || !chat || qaAbortController) {
         return;
     }
 
-    if (!['image/jpeg', 'image/png'].includes(file.type)) {
-        showError('Please upload a valid JPG or PNG image.');
-        return;
+    const controller = new AbortController();
+    qaAbortController = controller;
+    qaBtn.disabled = true;
+    qaBtn.classList.add('hidden');
+    qaStopBtn.classList.remove('hidden');
+
+    const pendingPair = document.createElement('div');
+    pendingPair.className = 'qa-pair';
+    const questionDiv = document.createElement('div');
+    questionDiv.className = 'qa-question';
+    questionDiv.textContent = question;
+    const answerDiv = document.createElement('div');
+    answerDiv.className = 'qa-answer';
+    answerDiv.textContent = 'Thinking...';
+    pendingPair.append(questionDiv, answerDiv);
+    qaHistoryContainer.prepend(pendingPair);
+    qaHistoryContainer.scrollTop = 0;
+
+    const selectionContext = currentSelectionDetails;
+    let answerText = '';
+    try {
+        let fullQuestion = question;
+        if (selectionContext) {
+            fullQuestion += `\n\n(Note: I have the following part of the model currently selected, please use this as additional context for my question: ${JSON.stringify(selectionContext.details)})`;
+        }
+        if (measurements.length > 0 && measurementsContextCheckbox.checked) {
+            fullQuestion += `\n\n(Note: I measured the following on the model from its coordinates: ${measurements.map(describeMeasurement).join('; ')})`;
+        }
+
+        // Markdown is re-applied to the whole answer so far, so bold and code spans format as soon as they close.
+        // Answers can quote the model's strings, which may come from an imported file or session, so they are escaped.
+        for await (const chunk of chat.sendMessageStream(fullQuestion, controller.signal)) {
+            answerText += chunk;
+            answerDiv.innerHTML = formatResponseTextToHtml(escapeHtml(answerText));
+        }
+        qaHistory.unshift({ question, answer: answerText, answerHtml: formatResponseTextToHtml(escapeHtml(answerText)), selectionContext });
+        qaInput.value = '';
+
+    } catch (error) {
+        // The model was reset or replaced while answering; its history is gone
+        if (qaAbortController !== controller) return;
+        if (controller.signal.aborted) {
+            // The chat keeps the partial answer too, so the two histories stay in step
+            const stoppedHtml = `${formatResponseTextToHtml(escapeHtml(answerText))}${answerText ? ' ' : ''}<em class="qa-stopped">(stopped)</em>`;
+            qaHistory.unshift({ question, answer: answerText, answerHtml: stoppedHtml, selectionContext });
+            qaInput.value = '';
+        } else {
+            console.error('Error asking question:', error);
+            const errorAnswer = 'Sorry, I was unable to answer that question.';
+            qaHistory.unshift({ question, answer: errorAnswer, answerHtml: errorAnswer, selectionContext: null });
+        }
+    } finally {
+        if (qaAbortController === controller) {
+            qaAbortController = null;
+            renderQaHistory();
+            qaStopBtn.classList.add('hidden');
+            qaBtn.classList.remove('hidden');
+            qaBtn.disabled = false;
+            qaInput.focus();
+        }
     }
-    clearError();
+}
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        const result = e.target?.result as string;
-        imagePreview.src = result;
-        imagePreviewContainer.classList.remove('hidden');
-        
-        selectedImage = { data: result.split(',')[1], mimeType: file.type };
-        generateBtn.disabled = false;
-    };
-    reader.onerror = () => {
-        showError('Failed to read the image file.');
-        selectedImage = null;
-        generateBtn.disabled = true;
-        imagePreviewContainer.classList.add('hidden');
-    };
-    reader.readAsDataURL(file);
+/**
+ * Cancels the answer being streamed without keeping it, for when the model it was about goes away.
+ */
+function stopQaAnswer() {
+    qaAbortController?.abort();
+    qaAbortController = null;
+    qaStopBtn.classList.add('hidden');
+    qaBtn.classList.remove('hidden');
 }
 
-function getChatPrompt(modelData: string) {
-    return `
-You are an expert educator and tutor for secondary school students, with deep knowledge in chemistry and geometry. A 3D model has been generated, and its underlying data is provided below.
-Your task is to answer user questions about this model. Use the model's data as the primary context for your calculations, but explain everything in simple, intuitive terms.
+function renderQaHistory() {
+    qaHistoryContainer.innerHTML = '';
+    qaHistory.forEach(pair => {
+        const pairDiv = document.createElement('div');
+        pairDiv.className = 'qa-pair';
+        
+        const questionDiv = document.createElement('div');
+        questionDiv.className = 'qa-question';
+        questionDiv.textContent = pair.question;
 
-**CRITICAL RULE: Speak like a helpful teacher, not a computer program.**
-- **NEVER** mention technical computer graphics terms like "vertices", "indices", "faces", "meshes", "coordinates", or "triangulation". The user does not know what these are.
-- Instead, describe the model using familiar geometric shapes (e.g., "a rectangular block", "a hollow cylinder", "a flat circular face").
-- Refer to dimensions with common terms (e.g., "length", "width", "height", "radius", "diameter", "thickness").
-- Your primary goal is to make the 3D model understandable to a 14-year-old student. Be clear, encouraging, and focus on the concepts, not the raw data.
+        if (pair.selectionContext) {
+            questionDiv.classList.add('clickable-question');
+            questionDiv.title = "Click to re-select this part of the model";
+            questionDiv.addEventListener('click', () => {
+                reHighlightSelection(pair.selectionContext);
+            });
+        }
 
-**Answering Style:**
-- When a user asks "how to calculate..." something, provide a step-by-step explanation using the relevant formula and plugging in the dimensions from the model data.
-- For example, instead of saying 'the volume is in the analysis object', explain HOW that volume was calculated (e.g., "The model is a rectangular prism. To find its volume, we multiply its length (14 cm) by its width (12 cm) by its height (30 cm)...").
+        const answerDiv = document.createElement('div');
+        answerDiv.className = 'qa-answer';
+        answerDiv.innerHTML = pair.answerHtml;
 
-**Formatting Rules:**
-- Use markdown for emphasis where needed, such as **bold** for key terms or *italics*.
-- For superscripts, use the caret symbol \`^\`. For single characters, use it directly (e.g., \`r^2\`). For multiple characters, group them in parentheses (e.g., \`10^(-3)\`).
-- For subscripts, use the underscore symbol \`_\`. For single characters, use it directly (e.g., \`H_2O\` should be written as \`H_2O\`). For multiple characters, group them in parentheses (e.g., \`rate_(initial)\`).
-- Use the \`sqrt\` keyword for square roots, like \`sqrt(b^2-4ac)\`.
+        pairDiv.appendChild(questionDiv);
+        pairDiv.appendChild(answerDiv);
+        qaHistoryContainer.appendChild(pairDiv);
+    });
+    qaHistoryContainer.scrollTop = 0;
+}
 
-Your responses should foster a positive learning experience, encouraging curiosity and further questions from the students.
 
-OVERALL MODEL DATA:
----
-${modelData}
----
-`;
+function handleQaSubmit() {
+    if (qaMode === 'edit') {
+        handleEditModel();
+    } else {
+        handleAskQuestion();
+    }
 }
 
-function updateLoadingProgress(progress: number, text: string) {
-    progressBar.style.width = `${progress}%`;
-    loadingText.textContent = text;
+function setQaMode(mode: 'ask' | 'edit') {
+    qaMode = mode;
+    qaModeButtons.forEach(button => button.classList.toggle('active', button.dataset.qaMode === mode));
+    if (currentMode) qaInput.placeholder = QA_PLACEHOLDERS[currentMode][mode];
+    qaBtn.textContent = mode === 'edit' ? 'Apply' : 'Ask';
 }
 
-async function handleGenerateClick() {
-    if (!selectedImage || !currentMode) {
-        showError('An error occurred. Please select a mode and upload an image.');
-        return;
-    }
-
-    setLoading(true);
-    clearError();
-    
-    if (generatedObject) {
-        scene.remove(generatedObject);
-        generatedObject = null;
-    }
-    
-    // Reset states for new generation
-    qaInput.value = '';
+/**
+ * Asks the AI to change the model as the student described. The answer goes through the same
+ * validation and repair as a generated model and becomes a new version; if it fails, the
+ * current version stays.
+ */
+async function handleEditModel() {
+    const instruction = qaInput.value.trim();
+    if (!instruction || !generatedModelData || !currentMode || qaAbortController) return;
+
+    const controller = new AbortController();
+    const mode = currentMode;
+    // The edit is made to this version; a result arriving after it has changed would undo the change
+    const baseModelData = generatedModelData;
+    qaAbortController = controller;
     qaBtn.disabled = true;
-    qaHistory = [];
-    qaHistoryContainer.innerHTML = '';
-    generatedModelData = null;
-    currentSelectionDetails = null;
-    chat = null;
-    currentSessionId = null;
-    angleVisualizationGroup.clear();
-    detailsContainer.classList.add('hidden');
-    detailsContent.innerHTML = '';
-    selectionDetailsContainer.classList.add('hidden');
-    selectionDetailsContent.innerHTML = '';
-    qaContainer.classList.add('hidden');
-    saveSessionBtn.classList.add('hidden');
-
-    let slowProgressInterval: number | null = null;
+    qaBtn.classList.add('hidden');
+    qaStopBtn.classList.remove('hidden');
 
+    const state = createRequestProgress();
+    const showProgress = () => {
+        editStatus.textContent = describeRequestProgress(state);
+    };
+    editStatus.classList.remove('hidden');
+    const progressInterval = window.setInterval(showProgress, 1000);
     try {
-        updateLoadingProgress(5, 'Preparing request...');
-        
-        const prompt = currentMode === 'geometry' ? GEOMETRY_PROMPT : CHEMISTRY_PROMPT;
-        const schema = currentMode === 'geometry' ? geometrySchema : chemistrySchema;
-        
-        const textPart = { text: prompt };
-        const imagePart = { inlineData: { mimeType: selectedImage.mimeType, data: selectedImage.data } };
-        
-        const config: any = {
-            responseMimeType: "application/json",
-            responseSchema: schema,
-        };
+        const basePrompt = selectedImages.length > 1 ? MODE_PROMPTS[mode] + MULTI_IMAGE_PROMPT : MODE_PROMPTS[mode];
+        const prompt = `${basePrompt}\n${EDIT_PROMPT}\nCURRENT MODEL:\n${generatedModelData}\n\nREQUESTED CHANGE:\n${instruction}`;
+        const { jsonString, data, issues, repairs } = await requestModelData(mode, `${mode}-edit`, prompt, selectedImages, controller.signal, state, showProgress);
+        if (qaAbortController !== controller) return;
+        if (generatedModelData !== baseModelData) {
+            editStatus.textContent = 'The edit was not applied because the model changed while it was being made. Apply it again to edit the current version.';
+            return;
+        }
 
-        if (currentMode === 'geometry') {
-            config.thinkingConfig = { thinkingBudget: 8192 };
+        // Build it once on the side so a broken edit never replaces a working model
+        try {
+            disposeObject(buildModelObject(mode, data));
+        } catch (error) {
+            throw modelBuildError(error, issues);
+        }
+        recordModelVersion(jsonString, instruction);
+        showModelVersion(versionIndex);
+        displayValidationReport(issues, repairs);
+        editStatus.classList.add('hidden');
+        qaInput.value = '';
+        showNotification(`Edit applied as version ${versionIndex + 1}.`);
+    } catch (error) {
+        // The model was reset or replaced while editing
+        if (qaAbortController !== controller) return;
+        const classified = classifyError(error);
+        if (classified.kind === 'cancelled') {
+            editStatus.classList.add('hidden');
+        } else {
+            console.error('Error editing model:', error);
+            editStatus.textContent = `The edit was not applied. ${classified.message}`;
+        }
+    } finally {
+        window.clearInterval(progressInterval);
+        if (qaAbortController === controller) {
+            qaAbortController = null;
+            qaStopBtn.classList.add('hidden');
+            qaBtn.classList.remove('hidden');
+            qaBtn.disabled = false;
+            qaInput.focus();
         }
+    }
+}
 
-        await new Promise(resolve => setTimeout(resolve, 200)); // Let user see the first message
-        updateLoadingProgress(10, 'Sending to Gemini for analysis...');
-        
-        const responsePromise = ai.models.generateContent({
-            model: model,
-            contents: [{ parts: [textPart, imagePart] }],
-            config,
-        });
+// --- Model Editing ---
+interface EditorSelection {
+    kind: 'vertex' | 'atom' | 'bond';
+    index: number;
+}
 
-        // While waiting, slowly move the bar to show progress
-        let progress = 10;
-        slowProgressInterval = window.setInterval(() => {
-            if (progress < 70) {
-                progress += 1;
-                progressBar.style.width = `${progress}%`;
-            } else {
-                if (slowProgressInterval) clearInterval(slowProgressInterval);
-                slowProgressInterval = null;
-            }
-        }, 250);
+const JSON_EDIT_DELAY_MS = 400; // typing in the JSON panel re-renders after this pause
+const MODEL_BUSY_MESSAGE = 'Wait for the current answer or edit to finish, or stop it, before changing the model.';
+const EDITOR_HINTS: { [mode in AppMode]: string } = {
+    geometry: 'Click a corner and drag the arrows to move it. The JSON on the left can be edited too.',
+    chemistry: 'Click an atom and drag the arrows to move it, or click an atom or bond to delete it or change its order. The JSON on the left can be edited too.',
+    crystal: 'Edit the JSON on the left to change the lattice or the basis atoms.',
+};
 
-        const response = await responsePromise;
-        if(slowProgressInterval) {
-            clearInterval(slowProgressInterval);
-            slowProgressInterval = null;
-        }
+/**
+ * Opens the model for editing by hand, or closes it. Editing owns canvas clicks and the
+ * transform gizmo, so measuring, slicing and the net are closed first.
+ */
+function setModelEditing(enabled: boolean) {
+    if (enabled === modelEditing || (enabled && (!generatedModelData || !generatedObject))) return;
+    if (enabled) {
+        setMeasurementKind(null);
+        setSectionEnabled(false);
+        removeNetObject();
+    }
+    modelEditing = enabled;
+    editorSelection = null;
+    bondingFrom = null;
+    jsonEditVersion = null;
+    if (jsonEditTimeout !== null) {
+        window.clearTimeout(jsonEditTimeout);
+        jsonEditTimeout = null;
+    }
+    editModelBtn.classList.toggle('active', enabled);
+    modelEditorContainer.classList.toggle('hidden', !enabled);
+    codeWrapper.classList.toggle('editing', enabled);
+    codeContainer.parentElement!.classList.toggle('hidden', enabled);
+    codeEditor.classList.toggle('hidden', !enabled);
+    codeEditorStatus.classList.add('hidden');
+    if (enabled) {
+        codeEditor.value = JSON.stringify(JSON.parse(generatedModelData!), null, 2);
+        modelEditorHint.textContent = EDITOR_HINTS[currentMode!];
+        chemistryEditorTools.classList.toggle('hidden', currentMode !== 'chemistry');
+        clearHighlights();
+        clearGroup(angleVisualizationGroup);
+        selectionDetailsContainer.classList.add('hidden');
+        currentSelectionDetails = null;
+        refreshEditorHandles();
+    } else {
+        if (editorHandleGroup) clearGroup(editorHandleGroup);
+        if (transformControls && !sectionPlane) transformControls.detach();
+        if (generatedObject) clearHighlights();
+    }
+    // The JSON panel takes room from the canvas
+    if (renderer) onWindowResize();
+}
 
-        updateLoadingProgress(75, 'Received response, parsing data...');
+// Where a point in the scene is in model coordinates; the inverse of modelToWorld
+function worldToModel(point: THREE.Vector3): number[] {
+    const local = generatedObject!.worldToLocal(point.clone());
+    if (currentMode === 'chemistry') local.divideScalar(CHEM_MODEL_SCALE);
+    return local.toArray();
+}
+
+function getAtomName(data: any, index: number): string {
+    return `${data.atoms[index].element}${index + 1}`;
+}
+
+/**
+ * Redraws what the editor puts over the model: a dot on every corner of a solid, the selected
+ * atom or bond highlighted, and the gizmo on whatever can be dragged.
+ */
+function refreshEditorHandles() {
+    clearGroup(editorHandleGroup);
+    clearHighlights();
+    transformControls.detach();
+    if (!modelEditing || !generatedModelData || !generatedObject) return;
+    const data = JSON.parse(generatedModelData);
 
-        const rawResponseText = response.text;
-        if (!rawResponseText || rawResponseText.trim() === '') {
-            throw new Error(response.promptFeedback?.blockReason
-                ? `Response blocked for safety reasons: ${response.promptFeedback.blockReason}.`
-                : "The AI returned an empty response. It might not have interpreted the image."
+    if (currentMode === 'geometry') {
+        const size = new THREE.Box3().setFromObject(generatedObject).getSize(new THREE.Vector3());
+        const radius = Math.max(size.x, size.y, size.z) / 80;
+        (data.vertices || []).forEach((vertex: number[], index: number) => {
+            const selected = editorSelection?.kind === 'vertex' && editorSelection.index === index;
+            // Drawn through the solid, so corners at the back can be picked too
+            const handle = new THREE.Mesh(
+                new THREE.SphereGeometry(radius, 12, 8),
+                new THREE.MeshBasicMaterial({ color: selected ? 0xffff99 : 0x64b5f6, depthTest: false }),
             );
-        }
-        
-        const jsonString = rawResponseText;
-        generatedModelData = jsonString; // Store data for QA
-
-        // Initialize a new chat session with the model data as context
-        const chatPrompt = getChatPrompt(generatedModelData);
-        chat = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            history: [
-                { role: 'user', parts: [{ text: chatPrompt }] },
-                { role: 'model', parts: [{ text: 'Understood. I am ready to answer questions about the provided 3D model data.' }] }
-            ],
+            handle.renderOrder = 1;
+            handle.position.copy(modelToWorld(vertex));
+            handle.userData.vertexIndex = index;
+            editorHandleGroup.add(handle);
+            if (selected) attachEditorGizmo(handle);
+        });
+    } else if (currentMode === 'chemistry' && editorSelection) {
+        const { kind, index } = editorSelection;
+        generatedObject.traverse(child => {
+            const details = child.userData.details;
+            if (kind === 'atom' && child instanceof THREE.Mesh && details?.element && details.atomIndex === index) {
+                highlightMaterial(child.material as THREE.MeshStandardMaterial);
+            } else if (kind === 'bond' && details?.bondIndex === index) {
+                child.traverse(part => {
+                    if (part instanceof THREE.Mesh) highlightMaterial(part.material as THREE.MeshStandardMaterial);
+                });
+            }
         });
+        if (kind === 'atom') {
+            const handle = new THREE.Object3D();
+            handle.position.copy(modelToWorld(data.atoms[index].position));
+            editorHandleGroup.add(handle);
+            attachEditorGizmo(handle);
+        } else {
+            editorBondOrderSelect.value = String(parseBondOrder(data.bonds[index].type));
+        }
+    }
+    updateEditorTools();
+}
 
-        qaBtn.disabled = false; // Enable asking questions
-        saveSessionBtn.classList.remove('hidden');
+function attachEditorGizmo(handle: THREE.Object3D) {
+    transformControls.attach(handle);
+    transformControls.setMode('translate');
+    transformControls.showX = true;
+    transformControls.showY = true;
+    transformControls.showZ = true;
+}
 
-        displayCode(jsonString);
-        
-        const data = JSON.parse(jsonString);
+function updateEditorTools() {
+    editorAddBondBtn.disabled = editorSelection?.kind !== 'atom';
+    editorAddBondBtn.classList.toggle('active', bondingFrom !== null);
+    editorDeleteBtn.disabled = !editorSelection || editorSelection.kind === 'vertex';
+}
 
-        await new Promise(resolve => setTimeout(resolve, 200));
-        updateLoadingProgress(85, 'Constructing 3D model...');
-        let resultObject;
+function handleEditorClick(event: MouseEvent) {
+    if (!generatedModelData || !generatedObject) return;
 
-        if (currentMode === 'geometry') {
-            resultObject = buildGeometryModel(data);
-        } else {
-            resultObject = buildChemistryModel(data);
+    if (currentMode === 'geometry') {
+        const hit = getCanvasRaycaster(event).intersectObjects(editorHandleGroup.children, false)[0];
+        editorSelection = hit ? { kind: 'vertex', index: hit.object.userData.vertexIndex } : null;
+        refreshEditorHandles();
+        return;
+    }
+    if (currentMode !== 'chemistry') return;
+
+    // Labels and other decorations carry no details; walk up to the atom or bond that was hit
+    let picked: EditorSelection | null = null;
+    for (const intersect of getCanvasIntersections(event)) {
+        for (let object: THREE.Object3D | null = intersect.object; object && !picked; object = object.parent) {
+            const details = object.userData.details;
+            if (details?.element && details.atomIndex !== undefined) picked = { kind: 'atom', index: details.atomIndex };
+            else if (details?.bondIndex !== undefined) picked = { kind: 'bond', index: details.bondIndex };
         }
+        if (picked) break;
+    }
 
-        if (data.analysis) {
-            displayDetails(data.analysis);
+    if (bondingFrom !== null && picked?.kind === 'atom') {
+        const start = bondingFrom;
+        bondingFrom = null;
+        const data = JSON.parse(generatedModelData);
+        const order = Number(editorBondOrderSelect.value);
+        let edited;
+        try {
+            edited = addBond(data, start, picked.index, order);
+        } catch (error) {
+            showNotification(`Error: ${error instanceof Error ? error.message : error}`);
+            updateEditorTools();
+            return;
         }
+        const type = bondOrderToType(order);
+        applyManualEdit(edited, `Added a ${type} bond ${getAtomName(data, start)}–${getAtomName(data, picked.index)}`,
+            { kind: 'bond', index: edited.bonds.length - 1 });
+        return;
+    }
+    bondingFrom = null;
+    editorSelection = picked;
+    refreshEditorHandles();
+}
 
-        const isModelValid = (obj: THREE.Object3D) => {
-            if (!obj) return false;
-            if (obj instanceof THREE.Mesh) return true;
-            if (obj instanceof THREE.Group) return obj.children.length > 0;
-            return false;
-        };
+// Vertices and atoms follow the gizmo while it is dragged; the change is recorded when it is let go
+function handleEditorHandleChange() {
+    if (!modelEditing || !editorSelection || !generatedModelData || !generatedObject) return;
+    const handle = transformControls.object;
+    if (!handle) return;
+    if (currentMode === 'geometry' && editorSelection.kind === 'vertex') {
+        updateGeometryVertexPosition(editorSelection.index, worldToModel(handle.position));
+    } else if (currentMode === 'chemistry' && editorSelection.kind === 'atom') {
+        const data = JSON.parse(generatedModelData);
+        const positions = data.atoms.map((atom: any) => atom.position);
+        positions[editorSelection.index] = worldToModel(handle.position);
+        updateChemistryModelPositions(data, positions);
+    }
+}
 
-        if (isModelValid(resultObject)) {
-            const box = new THREE.Box3().setFromObject(resultObject);
-            const center = box.getCenter(new THREE.Vector3());
-            resultObject.position.sub(center);
+/**
+ * Moves one vertex of the displayed solid in place, for a preview while it is dragged. Labels,
+ * details and measurements catch up when the edit is applied.
+ */
+function updateGeometryVertexPosition(vertexIndex: number, position: number[]) {
+    generatedObject?.children.forEach(child => {
+        if (!(child instanceof THREE.Mesh) || !child.userData.positionVertexIndices) return;
+        const attribute = child.geometry.getAttribute('position') as THREE.BufferAttribute;
+        (child.userData.positionVertexIndices as Int32Array).forEach((index, slot) => {
+            if (index === vertexIndex) attribute.setXYZ(slot, position[0], position[1], position[2]);
+        });
+        attribute.needsUpdate = true;
+        child.geometry.computeVertexNormals();
+        child.geometry.computeBoundingSphere();
+    });
+}
 
-            scene.add(resultObject);
-            generatedObject = resultObject;
-            frameObject(generatedObject);
-        } else {
-             throw new Error("Generated JSON did not produce a valid 3D model.");
+function handleEditorDragEnd() {
+    if (!modelEditing || !editorSelection || !generatedModelData || !generatedObject) return;
+    const handle = transformControls.object;
+    if (!handle) return;
+    const data = JSON.parse(generatedModelData);
+    const { kind, index } = editorSelection;
+    // A click on the gizmo that didn't move it changes nothing
+    const original = kind === 'vertex' ? data.vertices[index] : data.atoms[index]?.position;
+    if (original && handle.position.distanceTo(modelToWorld(original)) < 1e-6) return;
+    if (kind === 'vertex') {
+        // A refused move puts the preview back where the model still has it
+        if (!applyManualEdit(moveVertex(data, index, worldToModel(handle.position)), `Moved vertex ${index + 1}`, editorSelection)) {
+            updateGeometryVertexPosition(index, original);
         }
-        
-        await new Promise(resolve => setTimeout(resolve, 200));
-        updateLoadingProgress(95, 'Finalizing scene...');
+    } else if (kind === 'atom') {
+        if (!applyManualEdit(moveAtom(data, index, worldToModel(handle.position)), `Moved ${getAtomName(data, index)}`, editorSelection)) {
+            updateChemistryModelPositions(data, data.atoms.map((atom: any) => atom.position));
+        }
+    }
+}
 
-        resultsContainer.classList.remove('hidden');
-        qaContainer.classList.remove('hidden'); // Show Q&A panel with results
-        onWindowResize();
+/**
+ * Makes an edited model the next version and shows it without moving the camera. An edit that
+ * leaves nothing to draw, or made while an answer or AI edit is in progress, is refused and the
+ * model stays as it was. Returns whether it was applied.
+ */
+function applyManualEdit(data: any, description: string, selection: EditorSelection | null = null): boolean {
+    // A new version restarts the chat, which an answer or AI edit still in progress relies on
+    if (qaAbortController) {
+        showNotification(MODEL_BUSY_MESSAGE);
+        refreshEditorHandles();
+        return false;
+    }
+    try {
+        disposeObject(buildModelObject(currentMode!, data));
+    } catch (error) {
+        console.error('Error applying edit:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'The edit could not be applied.'}`);
+        refreshEditorHandles();
+        return false;
+    }
+    editorSelection = selection;
+    jsonEditVersion = null;
+    recordModelVersion(JSON.stringify(data), description);
+    showModelVersion(versionIndex, true);
+    return true;
+}
 
-        // If successful, we reach here.
-        updateLoadingProgress(100, 'Done!');
-        setTimeout(() => setLoading(false), 500);
+function handleEditorAddAtom() {
+    if (!generatedModelData || currentMode !== 'chemistry') return;
+    const element = editorElementInput.value.trim();
+    if (!/^[a-z]{1,2}$/i.test(element)) {
+        showNotification('Enter an element symbol, such as C or Cl.');
+        editorElementInput.focus();
+        return;
+    }
+    const data = JSON.parse(generatedModelData);
+    const bondedTo = editorSelection?.kind === 'atom' ? editorSelection.index : null;
+    const edited = addAtom(data, element, bondedTo);
+    const index = edited.atoms.length - 1;
+    const description = bondedTo !== null
+        ? `Added ${getAtomName(edited, index)} bonded to ${getAtomName(data, bondedTo)}`
+        : `Added ${getAtomName(edited, index)}`;
+    applyManualEdit(edited, description, { kind: 'atom', index });
+}
 
-    } catch (error) {
-        if(slowProgressInterval) {
-            clearInterval(slowProgressInterval);
+function handleEditorAddBond() {
+    if (editorSelection?.kind !== 'atom') return;
+    // The bond is made by the next atom clicked
+    bondingFrom = bondingFrom === null ? editorSelection.index : null;
+    updateEditorTools();
+}
+
+function handleEditorBondOrderChange() {
+    if (!generatedModelData || editorSelection?.kind !== 'bond') return;
+    const data = JSON.parse(generatedModelData);
+    const index = editorSelection.index;
+    const order = Number(editorBondOrderSelect.value);
+    if (parseBondOrder(data.bonds[index].type) === order) return;
+    const bond = data.bonds[index];
+    applyManualEdit(setBondOrder(data, index, order),
+        `Made ${getAtomName(data, bond.start)}–${getAtomName(data, bond.end)} a ${bondOrderToType(order)} bond`, editorSelection);
+}
+
+function handleEditorDelete() {
+    if (!generatedModelData || !editorSelection || currentMode !== 'chemistry') return;
+    const data = JSON.parse(generatedModelData);
+    const { kind, index } = editorSelection;
+    if (kind === 'atom') {
+        if (data.atoms.length === 1) {
+            showNotification('A molecule needs at least one atom.');
+            return;
         }
-        console.error('Error generating 3D model:', error);
-        const message = error instanceof Error ? error.message : 'Failed to generate the 3D model. Please try again.';
-        showError(message);
-        resultsContainer.classList.add('hidden');
-        detailsContainer.classList.add('hidden');
-        setLoading(false); // On error, just hide the loading screen.
+        applyManualEdit(deleteAtom(data, index), `Deleted ${getAtomName(data, index)}`);
+    } else if (kind === 'bond') {
+        const bond = data.bonds[index];
+        applyManualEdit(deleteBond(data, index), `Deleted the bond ${getAtomName(data, bond.start)}–${getAtomName(data, bond.end)}`);
+    }
+}
+
+// Delete removes the selected atom or bond and Escape lets go of it, except while typing
+function handleEditorShortcut(event: KeyboardEvent) {
+    if (!modelEditing) return;
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        handleEditorDelete();
+    } else if (event.key === 'Escape') {
+        editorSelection = null;
+        bondingFrom = null;
+        refreshEditorHandles();
+    }
+}
+
+function handleCodeEditorInput() {
+    if (jsonEditTimeout !== null) window.clearTimeout(jsonEditTimeout);
+    jsonEditTimeout = window.setTimeout(() => {
+        jsonEditTimeout = null;
+        applyCodeEditorText();
+    }, JSON_EDIT_DELAY_MS);
+}
+
+/**
+ * Re-renders the model from the JSON panel when the text is a valid model. One burst of typing
+ * becomes one version rather than one per keystroke; text that doesn't validate is left for the
+ * user to finish, with what is wrong shown under it.
+ */
+function applyCodeEditorText() {
+    if (!modelEditing || !currentMode) return;
+    const { data, issues } = checkModelResponse(currentMode, codeEditor.value);
+    const setStatus = (message: string, isError: boolean) => {
+        codeEditorStatus.textContent = message;
+        codeEditorStatus.classList.toggle('error', isError);
+        codeEditorStatus.classList.remove('hidden');
+    };
+    if (issues.length > 0) {
+        const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+        setStatus(`${issues[0].path}: ${issues[0].message}${more}`, true);
+        return;
+    }
+    const modelData = JSON.stringify(data);
+    if (generatedModelData && modelData === JSON.stringify(JSON.parse(generatedModelData))) {
+        setStatus('Up to date.', false);
+        return;
+    }
+    if (qaAbortController) {
+        setStatus(`Not applied yet. ${MODEL_BUSY_MESSAGE}`, true);
+        return;
+    }
+    try {
+        disposeObject(buildModelObject(currentMode, data));
+    } catch (error) {
+        setStatus(error instanceof Error ? error.message : 'The model could not be drawn.', true);
+        return;
+    }
+
+    if (jsonEditVersion !== null && jsonEditVersion === versionIndex && versionIndex > 0) {
+        modelVersions[versionIndex] = { ...modelVersions[versionIndex], modelData, timestamp: Date.now() };
+    } else {
+        recordModelVersion(modelData, 'Edited the JSON');
     }
+    jsonEditVersion = versionIndex;
+    // Indices may have changed under the selection
+    editorSelection = null;
+    bondingFrom = null;
+    showModelVersion(versionIndex, true);
+    setStatus('Applied.', false);
 }
 
-async function handleAskQuestion() {
-    const question = qaInput.value.trim();
-    if (!question || !chat) {
-        return;
-    }
+// --- Model Versions ---
+const MAX_DIFF_LINES = 40;
 
-    qaBtn.disabled = true;
-    const thinkingIndicator = document.createElement('div');
-    thinkingIndicator.className = 'qa-pair';
-    thinkingIndicator.innerHTML = `<div class="qa-question">${question}</div><div class="qa-answer">Thinking...</div>`;
-    qaHistoryContainer.prepend(thinkingIndicator);
-    qaHistoryContainer.scrollTop = 0;
+/**
+ * Starts the history of a newly shown model with the model as its only version.
+ */
+function startVersionHistory(modelData: string) {
+    modelVersions = [{ modelData, instruction: null, timestamp: Date.now() }];
+    versionIndex = 0;
+    renderVersions();
+}
 
-    try {
-        let fullQuestion = question;
-        if (currentSelectionDetails) {
-            const selectionContext = `\n\n(Note: I have the following part of the model currently selected, please use this as additional context for my question: ${JSON.stringify(currentSelectionDetails.details)})`;
-            fullQuestion += selectionContext;
-        }
+/**
+ * Adds a version after the one shown and makes it current. Versions that had been undone are
+ * dropped, as in any editor's undo history.
+ */
+function recordModelVersion(modelData: string, instruction: string) {
+    modelVersions = [...modelVersions.slice(0, versionIndex + 1), { modelData, instruction, timestamp: Date.now() }];
+    versionIndex = modelVersions.length - 1;
+    renderVersions();
+}
 
-        const response = await chat.sendMessage({ message: fullQuestion });
+/**
+ * Rebuilds the scene from one version of the model, and restarts the chat with that version
+ * as its context so answers are about what is on screen. `keepView` leaves the camera alone,
+ * for changes made by hand.
+ */
+function showModelVersion(index: number, keepView = false) {
+    const modelData = modelVersions[index].modelData;
+    const data = JSON.parse(modelData);
+    const position = keepView && generatedObject ? generatedObject.position.clone() : undefined;
+    // Measurements refer to atoms and vertices by index, which mean other ones once the list changes
+    if (generatedModelData && getIndexedPointsKey(JSON.parse(generatedModelData)) !== getIndexedPointsKey(data)) resetMeasurements();
+    clearModelView();
+    displayCode(modelData);
+    displayModel(data, position);
+    refreshMeasurements(data);
+    generatedModelData = modelData;
+    versionIndex = index;
+    chat = aiProvider.createChat(getChatHistory(modelData, qaHistory));
+    renderVersions();
+    if (modelEditing) {
+        // Typing in the JSON panel shouldn't be overwritten by the model it just produced
+        if (document.activeElement !== codeEditor) codeEditor.value = JSON.stringify(data, null, 2);
+        refreshEditorHandles();
+    }
+}
 
-        const answerText = response.text;
-        const answerHtml = formatResponseTextToHtml(answerText);
-       
-        qaHistory.unshift({ question, answer: answerText, answerHtml: answerHtml, selectionContext: currentSelectionDetails });
-        renderQaHistory();
-        qaInput.value = '';
+// What measurement points are numbered against: the atoms' elements in order, or the vertex count.
+// Crystal points are drawn atom positions, so any change to the cell or its atoms moves them.
+function getIndexedPointsKey(data: any): string {
+    if (Array.isArray(data?.atoms)) return data.atoms.map((atom: any) => atom?.element).join(',');
+    if (data?.lattice) return JSON.stringify([data.lattice, data.basis]);
+    return String(Array.isArray(data?.vertices) ? data.vertices.length : 0);
+}
 
+function handleSelectVersion(index: number) {
+    if (index === versionIndex || index < 0 || index >= modelVersions.length || qaAbortController) return;
+    try {
+        showModelVersion(index);
     } catch (error) {
-        console.error('Error asking question:', error);
-        const errorAnswer = 'Sorry, I was unable to answer that question.';
-        qaHistory.unshift({ question, answer: errorAnswer, answerHtml: errorAnswer, selectionContext: null });
-        renderQaHistory();
-    } finally {
-        qaBtn.disabled = false;
-        qaInput.focus();
+        console.error('Error showing model version:', error);
+        showNotification(`Error: Version ${index + 1} could not be shown.`);
     }
 }
 
-function renderQaHistory() {
-    qaHistoryContainer.innerHTML = '';
-    qaHistory.forEach(pair => {
-        const pairDiv = document.createElement('div');
-        pairDiv.className = 'qa-pair';
-        
-        const questionDiv = document.createElement('div');
-        questionDiv.className = 'qa-question';
-        questionDiv.textContent = pair.question;
-
-        if (pair.selectionContext) {
-            questionDiv.classList.add('clickable-question');
-            questionDiv.title = "Click to re-select this part of the model";
-            questionDiv.addEventListener('click', () => {
-                reHighlightSelection(pair.selectionContext);
-            });
-        }
+// Ctrl+Z and Ctrl+Y (or Ctrl+Shift+Z) step through the versions, except while typing
+function handleVersionShortcut(event: KeyboardEvent) {
+    if (!(event.ctrlKey || event.metaKey) || modelVersions.length < 2 || resultsContainer.classList.contains('hidden')) return;
+    const target = event.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleSelectVersion(versionIndex - 1);
+    } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        handleSelectVersion(versionIndex + 1);
+    }
+}
 
-        const answerDiv = document.createElement('div');
-        answerDiv.className = 'qa-answer';
-        answerDiv.innerHTML = pair.answerHtml;
+function renderVersions() {
+    versionsContainer.classList.toggle('hidden', modelVersions.length === 0);
+    undoBtn.disabled = versionIndex === 0;
+    redoBtn.disabled = versionIndex >= modelVersions.length - 1;
+    versionsList.innerHTML = '';
+    modelVersions.forEach((version, index) => {
+        const item = document.createElement('li');
+        item.classList.toggle('active', index === versionIndex);
+        item.classList.toggle('undone', index > versionIndex);
+        item.title = new Date(version.timestamp).toLocaleString();
+        const number = document.createElement('span');
+        number.className = 'version-number';
+        number.textContent = `v${index + 1}`;
+        const text = document.createElement('span');
+        text.textContent = version.instruction ?? 'Original model';
+        item.append(number, text);
+        item.addEventListener('click', () => handleSelectVersion(index));
+        versionsList.appendChild(item);
+    });
+    renderVersionDiff();
+}
 
-        pairDiv.appendChild(questionDiv);
-        pairDiv.appendChild(answerDiv);
-        qaHistoryContainer.appendChild(pairDiv);
+/**
+ * Lists what the shown version changed compared with the one before it.
+ */
+function renderVersionDiff() {
+    if (versionIndex === 0 || !modelVersions[versionIndex]) {
+        versionDiff.innerHTML = '';
+        return;
+    }
+    const changes = diffModelData(JSON.parse(modelVersions[versionIndex - 1].modelData), JSON.parse(modelVersions[versionIndex].modelData));
+    const summary = changes.length === 0
+        ? `Nothing changed from v${versionIndex}.`
+        : `${changes.length === 1 ? '1 change' : `${changes.length} changes`} from v${versionIndex}:`;
+    const lines = changes.slice(0, MAX_DIFF_LINES).map(change => {
+        const path = `<code>${escapeHtml(change.path)}</code>`;
+        if (change.kind === 'added') return `<li class="diff-added">+ ${path} ${escapeHtml(formatChangeValue(change.after))}</li>`;
+        if (change.kind === 'removed') return `<li class="diff-removed">− ${path} ${escapeHtml(formatChangeValue(change.before))}</li>`;
+        return `<li>${path} ${escapeHtml(formatChangeValue(change.before))} → ${escapeHtml(formatChangeValue(change.after))}</li>`;
     });
-    qaHistoryContainer.scrollTop = 0;
+    if (changes.length > MAX_DIFF_LINES) lines.push(`<li class="diff-summary">...and ${changes.length - MAX_DIFF_LINES} more</li>`);
+    versionDiff.innerHTML = `<ul><li class="diff-summary">${summary}</li>${lines.join('')}</ul>`;
+}
+
+/**
+ * Renders a locally computed value next to the AI's claim, with a warning when they disagree.
+ */
+function renderMetricCheck(label: string, claimed: any, computed: number, power: number, note?: string): string {
+    const unit = parseMeasurement(claimed)?.unit || '';
+    let html = `<li><strong>Computed ${label}:</strong> <span>${formatMathHtml(formatMetricValue(computed, unit, power))}</span></li>`;
+    if (note) {
+        html += `<li class="metric-note">${note}</li>`;
+    } else {
+        html += renderMetricWarning(label, claimed, computed);
+    }
+    return html;
 }
 
+function renderMetricWarning(label: string, claimed: any, computed: number): string {
+    const comparison = compareMetric(label, claimed, computed);
+    if (comparison.agrees) return '';
+    const percent = ((comparison.relativeError || 0) * 100).toFixed(1);
+    return `<li class="metric-warning"><span class="material-icons">warning</span> The AI's ${label.toLowerCase()} differs from the value computed from the model by ${percent}% (tolerance ${METRIC_TOLERANCE * 100}%). Check the working before using it.</li>`;
+}
 
-function displayDetails(analysis: any) {
+function displayDetails(analysis: any, metrics?: MeshMetrics, crystal?: { structure: CrystalStructure, analysis: CrystalAnalysis }) {
     detailsContent.innerHTML = '';
     const ul = document.createElement('ul');
 
     if (currentMode === 'geometry') {
-        const volume = formatMathString(analysis.volume || 'N/A');
-        const surfaceArea = formatMathString(analysis.surfaceArea || 'N/A');
+        const volume = formatMathHtml(analysis.volume || 'N/A');
+        const surfaceArea = formatMathHtml(analysis.surfaceArea || 'N/A');
+        let checksHtml = '';
+        if (metrics) {
+            const volumeNote = metrics.isClosed && metrics.isConsistentlyOriented
+                ? undefined
+                : 'The model surface is not a closed, consistently oriented solid, so its volume cannot be checked reliably.';
+            checksHtml = renderMetricCheck('Volume', analysis.volume, metrics.volume, 3, volumeNote)
+                + renderMetricCheck('Surface Area', analysis.surfaceArea, metrics.surfaceArea, 2);
+        }
         ul.innerHTML = `
             <li><strong>Volume:</strong> <span>${volume}</span></li>
             <li><strong>Surface Area:</strong> <span>${surfaceArea}</span></li>
+            ${checksHtml}
         `;
     } else if (currentMode === 'chemistry') {
-        const name = formatMathString(analysis.name || 'N/A');
-        const bondingType = formatMathString(analysis.bondingType || 'N/A');
+        const name = formatMathHtml(analysis.name || 'N/A');
+        const bondingType = formatMathHtml(analysis.bondingType || 'N/A');
         ul.innerHTML = `
             <li><strong>Chemical Name:</strong> <span>${name}</span></li>
             <li><strong>Bonding Type:</strong> <span>${bondingType}</span></li>
         `;
+    } else if (currentMode === 'crystal' && crystal) {
+        const { lattice } = crystal.structure;
+        const computed = crystal.analysis;
+        const angles = [lattice.alpha, lattice.beta, lattice.gamma].every(angle => angle === 90)
+            ? 'α = β = γ = 90°'
+            : `α = ${lattice.alpha}°, β = ${lattice.beta}°, γ = ${lattice.gamma}°`;
+        const packing = `${(computed.packingEfficiency * 100).toFixed(1)}%`;
+        // Packing may be claimed as a percentage or as a fraction such as 0.74
+        const claimedPacking = parseMeasurement(analysis.packingEfficiency);
+        const claimedPercent = claimedPacking && !String(analysis.packingEfficiency).includes('%') && claimedPacking.value <= 1
+            ? String(claimedPacking.value * 100)
+            : analysis.packingEfficiency;
+        ul.innerHTML = `
+            <li><strong>Name:</strong> <span>${formatMathHtml(analysis.name || 'N/A')}</span></li>
+            <li><strong>Structure Type:</strong> <span>${formatMathHtml(analysis.structureType || 'N/A')}</span></li>
+            <li><strong>Lattice:</strong> <span>${formatMathHtml(analysis.latticeType || 'N/A')}</span></li>
+            <li><strong>Cell:</strong> <span>${escapeHtml(`a = ${lattice.a} Å, b = ${lattice.b} Å, c = ${lattice.c} Å; ${angles}`)}</span></li>
+            <li><strong>Bonding Type:</strong> <span>${formatMathHtml(analysis.bondingType || 'N/A')}</span></li>
+            <li><strong>Formula:</strong> <span>${formatMathHtml(analysis.formula || 'N/A')}</span></li>
+            <li><strong>Computed Formula:</strong> <span>${formatMathHtml(computed.formula)} (Z = ${computed.formulaUnits})</span></li>
+            <li><strong>Coordination Number:</strong> <span>${formatMathHtml(analysis.coordinationNumber || 'N/A')}</span></li>
+            <li><strong>Computed Coordination Number:</strong> <span>${formatMathHtml(describeCoordination(crystal.structure, computed))}</span></li>
+            <li><strong>Packing Efficiency:</strong> <span>${formatMathHtml(analysis.packingEfficiency || 'N/A')}</span></li>
+            <li><strong>Computed Packing Efficiency:</strong> <span>${packing}</span></li>
+            ${renderMetricWarning('Packing Efficiency', claimedPercent, computed.packingEfficiency * 100)}
+            <li><strong>Density:</strong> <span>${formatMathHtml(analysis.density || 'N/A')}</span></li>
+            ${computed.density !== null ? `
+                <li><strong>Computed Density:</strong> <span>${formatMathHtml(`${computed.density.toFixed(3)} g/cm^3`)}</span></li>
+                ${renderMetricWarning('Density', analysis.density, computed.density)}
+            ` : ''}
+        `;
     }
 
     if (ul.children.length > 0) {
@@ -1343,28 +3797,64 @@ function displaySelectionDetails(details: any) {
 
     // Geometry Face Details
     if (details.surfaceArea) {
+        const checksHtml = details.computed
+            ? renderMetricCheck('Surface Area', details.surfaceArea, details.computed.surfaceArea, 2)
+                + renderMetricCheck('Perimeter', details.perimeter, details.computed.perimeter, 1)
+            : '';
+        ul.innerHTML = `
+            <li><strong>Surface Area:</strong> <span>${formatMathHtml(details.surfaceArea)}</span></li>
+            <li><strong>Perimeter:</strong> <span>${formatMathHtml(details.perimeter || 'N/A')}</span></li>
+            ${checksHtml}
+        `;
+    }
+    // Cross-Section Details
+    else if (details.sectionArea) {
+        ul.innerHTML = `
+            <li><strong>Section Area:</strong> <span>${formatMathHtml(details.sectionArea)}</span></li>
+            <li><strong>Section Perimeter:</strong> <span>${formatMathHtml(details.sectionPerimeter)}</span></li>
+            <li><strong>Plane Normal:</strong> <span>${formatMathHtml(`[${details.planeNormal.join(', ')}]`)}</span></li>
+        `;
+    }
+    // Crystal Site Details
+    else if (details.fractional) {
         ul.innerHTML = `
-            <li><strong>Surface Area:</strong> <span>${formatMathString(details.surfaceArea)}</span></li>
-            <li><strong>Perimeter:</strong> <span>${formatMathString(details.perimeter || 'N/A')}</span></li>
+            <li><strong>Element:</strong> <span>${formatMathHtml(details.element)}</span></li>
+            <li><strong>Position (fractional):</strong> <span>(${escapeHtml(details.fractional.join(', '))})</span></li>
+            <li><strong>Coordination Number:</strong> <span>${escapeHtml(String(details.coordinationNumber))}</span></li>
+            <li><strong>Nearest Neighbours:</strong> <span>${formatMathHtml(details.neighbours || 'None')} at ${escapeHtml(String(details.neighbourDistance))}</span></li>
         `;
     }
     // Chemistry Atom Details
     else if (details.element) {
+        const report = generatedObject?.userData.chemistryReport as ChemistryReport | undefined;
         let anglesHtml = (details.bondAngles || [])
-            .map((angle: any) => `<li>${formatMathString(angle.atomsInvolved.join('-'))}: ${formatMathString(angle.angle)}</li>`)
+            .map((angle: any) => {
+                // Show the angle measured from the coordinates next to the claimed one
+                const check = report?.angleChecks.find(c =>
+                    c.atomIndex === details.atomIndex && c.atomsInvolvedIndices.join() === (angle.atomsInvolvedIndices || []).join());
+                const measured = check ? ` <em class="measured-value">(measured ${check.computed.toFixed(1)}°)</em>` : '';
+                return `<li>${formatMathHtml((angle.atomsInvolved || []).join('-'))}: ${formatMathHtml(angle.angle)}${measured}</li>`;
+            })
             .join('');
+        const warnings = (report?.issues || []).filter(issue => issue.kind !== 'bond_length' && issue.atomIndices.includes(details.atomIndex));
         ul.innerHTML = `
-            <li><strong>Element:</strong> <span>${formatMathString(details.element)}</span></li>
-            <li><strong>VSEPR Shape:</strong> <span>${formatMathString(details.vseprShape || 'N/A')}</span></li>
+            <li><strong>Element:</strong> <span>${formatMathHtml(details.element)}</span></li>
+            <li><strong>VSEPR Shape:</strong> <span>${formatMathHtml(details.vseprShape || 'N/A')}</span></li>
             ${anglesHtml ? `<li><strong>Bond Angles:</strong><ul class="nested-list">${anglesHtml}</ul></li>` : ''}
+            ${renderChemistryWarnings(warnings)}
         `;
     }
     // Chemistry Bond Details
     else if (details.type) {
+        const report = generatedObject?.userData.chemistryReport as ChemistryReport | undefined;
+        const lengthCheck = report?.bondChecks.find(c => c.bondIndex === details.bondIndex);
+        const warnings = (report?.issues || []).filter(issue => issue.bondIndex === details.bondIndex);
          ul.innerHTML = `
-            <li><strong>Bond Name:</strong> <span>${formatMathString(details.name || 'N/A')}</span></li>
-            <li><strong>Bond Type:</strong> <span>${formatMathString(details.type)}</span></li>
-            <li><strong>Bond Energy:</strong> <span>${formatMathString(details.energy)}</span></li>
+            <li><strong>Bond Name:</strong> <span>${formatMathHtml(details.name || 'N/A')}</span></li>
+            <li><strong>Bond Type:</strong> <span>${formatMathHtml(details.type)}</span></li>
+            <li><strong>Bond Energy:</strong> <span>${formatMathHtml(details.energy)}</span></li>
+            ${lengthCheck ? `<li><strong>Bond Length:</strong> <span>${lengthCheck.length.toFixed(2)} Å</span> <em class="measured-value">(reference ${lengthCheck.reference.toFixed(2)} Å)</em></li>` : ''}
+            ${renderChemistryWarnings(warnings)}
         `;
     }
 
@@ -1376,6 +3866,30 @@ function displaySelectionDetails(details: any) {
 }
 
 
+function renderChemistryWarnings(issues: ChemistryReport['issues']): string {
+    return issues
+        .map(issue => `<li class="metric-warning"><span class="material-icons">${issue.severity === 'error' ? 'error' : 'warning'}</span> ${escapeHtml(issue.message)}</li>`)
+        .join('');
+}
+
+function displayChemistryReport(report: ChemistryReport) {
+    chemistryReportContent.innerHTML = '';
+    const ul = document.createElement('ul');
+
+    const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+    const warningCount = report.issues.length - errorCount;
+    const summary = report.issues.length === 0
+        ? `All ${report.bondChecks.length} bond lengths, valences and ${report.angleChecks.length} listed angles look reasonable.`
+        : `Found ${errorCount} error(s) and ${warningCount} warning(s). Treat these parts of the model with care.`;
+
+    ul.innerHTML = `
+        <li class="report-summary">${summary}</li>
+        ${renderChemistryWarnings(report.issues)}
+    `;
+    chemistryReportContent.appendChild(ul);
+    chemistryReportContainer.classList.remove('hidden');
+}
+
 function displayCode(code: string) {
     try {
         const parsed = JSON.parse(code);
@@ -1393,6 +3907,8 @@ function setLoading(isLoading: boolean) {
         loadingText.textContent = 'Generating 3D model, this may take a moment...'; // Reset text
         resultsContainer.classList.add('hidden');
         detailsContainer.classList.add('hidden');
+        chemistryReportContainer.classList.add('hidden');
+        validationReportContainer.classList.add('hidden');
         selectionDetailsContainer.classList.add('hidden');
     } else {
         loadingContainer.classList.add('hidden');
@@ -1407,21 +3923,49 @@ function showError(message: string) {
 function clearError() {
     errorMessage.classList.add('hidden');
     errorMessage.textContent = '';
+    errorActions.classList.add('hidden');
+    errorActions.innerHTML = '';
 }
 
-// --- Session Management ---
-const SESSIONS_KEY = 'ai3d_sessions';
+// What to suggest after each kind of failed generation
+const GENERATION_ERROR_HINTS: { [kind: string]: string } = {
+    network: 'Try again once you are back online.',
+    timeout: 'The drawing may be too detailed to finish in time. Try again, or crop the image to the part you need.',
+    rateLimit: 'Wait a minute, then try again.',
+    safety: 'Try a different image, or crop it to just the diagram.',
+    invalidJson: 'This happens now and then. Trying again usually works.',
+    modelBuild: 'Try again, or crop or straighten the image so the drawing is clearer.',
+};
 
-function getSavedSessions(): Session[] {
-    try {
-        const saved = localStorage.getItem(SESSIONS_KEY);
-        return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-        console.error("Failed to parse saved sessions:", e);
-        return [];
+/**
+ * Shows a failed generation with the actions that can fix it.
+ */
+function showGenerationError(error: GenerationError) {
+    const hint = GENERATION_ERROR_HINTS[error.kind];
+    showError(hint ? `${error.message} ${hint}` : error.message);
+
+    const actions: { label: string, run: () => void }[] = [];
+    if (error.kind !== 'safety') actions.push({ label: 'Try Again', run: handleGenerateClick });
+    if (['timeout', 'safety', 'modelBuild'].includes(error.kind) && selectedImages.length > 0) {
+        actions.push({ label: 'Edit Image', run: () => handleEditImage(selectedImages[0]) });
     }
+    if (error.kind === 'safety') actions.push({ label: 'Choose Another Image', run: () => imageInput.click() });
+
+    errorActions.innerHTML = '';
+    actions.forEach(action => {
+        const button = document.createElement('button');
+        button.className = 'toolbar-btn';
+        button.textContent = action.label;
+        button.addEventListener('click', () => {
+            clearError();
+            action.run();
+        });
+        errorActions.appendChild(button);
+    });
+    errorActions.classList.toggle('hidden', actions.length === 0);
 }
 
+// --- Session Management ---
 function showNotification(message: string) {
     if (notificationTimeout) {
         clearTimeout(notificationTimeout);
@@ -1433,136 +3977,340 @@ function showNotification(message: string) {
     }, 3000);
 }
 
-function handleSaveSession() {
-    if (!generatedModelData || !selectedImage || !currentMode) {
-        showNotification('Error: Cannot save session, model data is missing.');
-        return;
-    }
-
-    let sessions = getSavedSessions();
-    const sessionToSave: Omit<Session, 'id' | 'timestamp'> & { timestamp: number } = {
-        timestamp: Date.now(),
+/**
+ * The current model, questions and images as a session, or null when there is no model yet.
+ */
+function getCurrentSession(): Session | null {
+    if (!generatedModelData || !currentMode) return null;
+    // Models built locally have no photo; the rendered view stands in as the session preview
+    const images = selectedImages.length > 0 ? selectedImages.map(image => ({ ...image })) : [captureThumbnail()];
+    const timestamp = Date.now();
+    return {
+        id: currentSessionId ?? timestamp,
+        timestamp,
         modelData: generatedModelData,
         qaHistory: qaHistory,
         mode: currentMode,
-        previewImage: selectedImage.data,
-        mimeType: selectedImage.mimeType,
+        images,
+        measurements: measurements,
+        versions: modelVersions,
+        versionIndex,
+        ...currentSessionInfo,
     };
+}
 
-    if (currentSessionId) {
-        // Update existing session
-        const sessionIndex = sessions.findIndex(s => s.id === currentSessionId);
-        if (sessionIndex !== -1) {
-            sessions[sessionIndex] = { ...sessionToSave, id: currentSessionId };
-            // Sort by timestamp to bring the updated one to the top of the list view
-            sessions.sort((a, b) => b.timestamp - a.timestamp);
-            localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
-            showNotification('Session updated successfully!');
-        } else {
-            // ID exists in state but not in storage, something is wrong. Fallback to new save.
-            currentSessionId = null;
-        }
-    } 
-    
-    if (!currentSessionId) {
-        // Create new session
-        const newId = Date.now();
-        currentSessionId = newId;
-        const newSession: Session = { ...sessionToSave, id: newId, timestamp: newId };
-        sessions.unshift(newSession); // Add to front
-        localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
-        showNotification('Session saved successfully!');
+async function handleSaveSession() {
+    const session = getCurrentSession();
+    if (!session) {
+        showNotification('Error: Cannot save session, model data is missing.');
+        return;
+    }
+    const isUpdate = currentSessionId !== null;
+
+    try {
+        await saveSession(session);
+        currentSessionId = session.id;
+        showNotification(isUpdate ? 'Session updated successfully!' : 'Session saved successfully!');
+    } catch (error) {
+        console.error('Error saving session:', error);
+        showError(`The session was not saved. ${error instanceof Error ? error.message : ''}`);
     }
+    checkSavedSessions();
+}
+
+function handleExportSession() {
+    const session = getCurrentSession();
+    if (!session) {
+        showNotification('Error: Cannot export session, model data is missing.');
+        return;
+    }
+    const data = JSON.parse(session.modelData);
+    downloadFile(serializeSessionFile(session), `${getExportBaseName(data)}-session.json`, 'application/json');
+}
 
+async function handleImportSession() {
+    const file = sessionFileInput.files?.[0];
+    sessionFileInput.value = '';
+    if (!file) return;
+
+    try {
+        const imported = parseSessionFile(await file.text());
+        const session: Session = {
+            ...imported,
+            id: Date.now(),
+            // Answers are shown as HTML; rebuild it from the plain text instead of trusting the file's copy
+            qaHistory: imported.qaHistory.map(pair => ({ ...pair, answerHtml: formatResponseTextToHtml(escapeHtml(pair.answer)) })),
+        };
+        await saveSession(session);
+        showNotification('Session imported. Open it from Load Session.');
+    } catch (error) {
+        console.error('Error importing session:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not import the session.'}`);
+    }
     checkSavedSessions();
 }
 
-function handleOpenLoadModal() {
-    const sessions = getSavedSessions();
+// How far back each date filter reaches
+const LIBRARY_DATE_RANGES: { [range: string]: number } = {
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000,
+    year: 365 * 24 * 60 * 60 * 1000,
+};
+
+async function handleOpenLoadModal() {
+    try {
+        librarySessions = await listSessions();
+    } catch (error) {
+        console.error('Error reading saved sessions:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not read saved sessions.'}`);
+        return;
+    }
+    librarySelection = new Set();
+    libraryPreviewId = null;
+    renderSessionLibrary();
+    loadModal.classList.remove('hidden');
+}
+
+function getLibrarySessions(): Session[] {
+    const range = LIBRARY_DATE_RANGES[libraryDateSelect.value];
+    return querySessions(librarySessions, {
+        text: librarySearchInput.value,
+        mode: libraryModeSelect.value as AppMode | 'all',
+        since: range ? Date.now() - range : null,
+        sort: librarySortSelect.value as SessionSort,
+    });
+}
+
+function renderSessionLibrary() {
+    const shown = getLibrarySessions();
+    // Ticks on sessions hidden by the filters would be deleted unseen, so they are dropped
+    librarySelection = new Set(shown.filter(session => librarySelection.has(session.id)).map(session => session.id));
     savedSessionsList.innerHTML = '';
 
-    if (sessions.length === 0) {
-        noSessionsMessage.classList.remove('hidden');
-    } else {
-        noSessionsMessage.classList.add('hidden');
-        sessions.forEach(session => {
-            const item = document.createElement('div');
-            item.className = 'session-item';
-            item.innerHTML = `
-                <img src="data:${session.mimeType};base64,${session.previewImage}" alt="Session preview">
-                <span class="timestamp">${new Date(session.timestamp).toLocaleString()}</span>
-            `;
-            item.addEventListener('click', () => {
-                loadSessionState(session);
-                loadModal.classList.add('hidden');
-            });
-            savedSessionsList.appendChild(item);
+    shown.forEach(session => {
+        const item = document.createElement('div');
+        item.className = 'session-item';
+        item.dataset.sessionId = String(session.id);
+        item.classList.toggle('active', session.id === libraryPreviewId);
+
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = librarySelection.has(session.id);
+        checkbox.setAttribute('aria-label', 'Select session');
+        checkbox.addEventListener('click', (e) => e.stopPropagation());
+        checkbox.addEventListener('change', () => {
+            if (checkbox.checked) librarySelection.add(session.id);
+            else librarySelection.delete(session.id);
+            updateLibrarySelection(shown);
+        });
+
+        const preview = session.images[0];
+        const image = document.createElement('img');
+        image.alt = 'Session preview';
+        if (preview) image.src = `data:${preview.mimeType};base64,${preview.data}`;
+
+        const text = document.createElement('div');
+        text.className = 'session-item-text';
+        const title = document.createElement('span');
+        title.className = 'session-title';
+        title.textContent = getSessionTitle(session);
+        const timestamp = document.createElement('span');
+        timestamp.className = 'timestamp';
+        timestamp.textContent = `${session.mode} · ${new Date(session.timestamp).toLocaleString()} · ${session.qaHistory.length} Q&A`;
+        text.append(title, timestamp, renderSessionTags(session));
+
+        item.append(checkbox, image, text);
+        item.addEventListener('click', () => {
+            libraryPreviewId = session.id;
+            renderSessionLibrary();
+        });
+        savedSessionsList.appendChild(item);
+    });
+
+    noSessionsMessage.textContent = librarySessions.length === 0 ? 'No saved sessions found.' : 'No sessions match the search and filters.';
+    noSessionsMessage.classList.toggle('hidden', shown.length > 0);
+    updateLibrarySelection(shown);
+    renderSessionPreview();
+}
+
+function renderSessionTags(session: Session): HTMLElement {
+    const tags = document.createElement('div');
+    tags.className = 'session-tags';
+    (session.tags || []).forEach(tag => {
+        const chip = document.createElement('span');
+        chip.className = 'session-tag';
+        chip.textContent = tag;
+        tags.appendChild(chip);
+    });
+    return tags;
+}
+
+function updateLibrarySelection(shown: Session[]) {
+    librarySelectAll.checked = shown.length > 0 && shown.every(session => librarySelection.has(session.id));
+    librarySelectAll.indeterminate = librarySelection.size > 0 && !librarySelectAll.checked;
+    libraryDeleteBtn.disabled = librarySelection.size === 0;
+    libraryDeleteBtn.textContent = librarySelection.size > 0 ? `Delete Selected (${librarySelection.size})` : 'Delete Selected';
+}
+
+function handleLibrarySelectAll() {
+    const shown = getLibrarySessions();
+    librarySelection = librarySelectAll.checked ? new Set(shown.map(session => session.id)) : new Set();
+    renderSessionLibrary();
+}
+
+// 'surfaceArea' -> 'Surface Area'
+function formatFieldLabel(key: string): string {
+    const words = key.replace(/([a-z])([A-Z])/g, '$1 $2');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Shows the selected session's details, so the right one can be found before it is loaded.
+ */
+function renderSessionPreview() {
+    const session = librarySessions.find(candidate => candidate.id === libraryPreviewId);
+    sessionPreview.classList.toggle('hidden', !session);
+    if (!session) return;
+
+    sessionTitleInput.value = session.title || '';
+    sessionTitleInput.placeholder = getDefaultSessionTitle(session);
+    sessionTagsInput.value = (session.tags || []).join(', ');
+
+    sessionPreviewImages.innerHTML = '';
+    session.images.forEach(image => {
+        const img = document.createElement('img');
+        img.src = `data:${image.mimeType};base64,${image.data}`;
+        img.alt = image.role || 'Session image';
+        sessionPreviewImages.appendChild(img);
+    });
+
+    const rows: [string, string][] = [
+        ['Mode', session.mode.charAt(0).toUpperCase() + session.mode.slice(1)],
+        ['Saved', new Date(session.timestamp).toLocaleString()],
+    ];
+    try {
+        const data = JSON.parse(session.modelData);
+        if (Array.isArray(data.faces)) rows.push(['Faces', String(data.faces.length)]);
+        if (Array.isArray(data.atoms)) rows.push(['Atoms', String(data.atoms.length)]);
+        if (Array.isArray(data.basis)) rows.push(['Atoms per Cell', String(data.basis.length)]);
+        Object.entries(data.analysis || {}).forEach(([key, value]) => {
+            if (typeof value === 'string' || typeof value === 'number') rows.push([formatFieldLabel(key), formatMathString(String(value))]);
         });
+    } catch {
+        rows.push(['Model', 'Unreadable']);
     }
-    loadModal.classList.remove('hidden');
+    rows.push(['Questions', String(session.qaHistory.length)]);
+    if (session.measurements?.length) rows.push(['Measurements', String(session.measurements.length)]);
+    session.qaHistory.forEach((pair, i) => rows.push([`Q${i + 1}`, pair.question]));
+
+    sessionPreviewDetails.innerHTML = '';
+    rows.forEach(([label, value]) => {
+        const row = document.createElement('li');
+        const strong = document.createElement('strong');
+        strong.textContent = `${label}: `;
+        row.append(strong, value);
+        sessionPreviewDetails.appendChild(row);
+    });
+}
+
+async function handleSessionInfoChange() {
+    const session = librarySessions.find(candidate => candidate.id === libraryPreviewId);
+    if (!session) return;
+    const info: SessionInfo = {
+        title: sessionTitleInput.value.trim() || undefined,
+        tags: [...new Set(sessionTagsInput.value.split(',').map(tag => tag.trim()).filter(Boolean))],
+    };
+    try {
+        await updateSessionInfo(session.id, info);
+        Object.assign(session, info);
+        if (session.id === currentSessionId) currentSessionInfo = info;
+    } catch (error) {
+        console.error('Error updating session:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not update the session.'}`);
+        return;
+    }
+    // Updated in place: this runs on blur, and rebuilding the list would swallow the click that caused it
+    const item = savedSessionsList.querySelector<HTMLElement>(`[data-session-id="${session.id}"]`);
+    if (item) {
+        item.querySelector('.session-title')!.textContent = getSessionTitle(session);
+        item.querySelector('.session-tags')!.replaceWith(renderSessionTags(session));
+    }
+}
+
+async function deleteLibrarySessions(ids: number[]) {
+    if (ids.length === 0) return;
+    const message = ids.length === 1 ? 'Delete this session? This cannot be undone.' : `Delete ${ids.length} sessions? This cannot be undone.`;
+    if (!confirm(message)) return;
+    try {
+        await deleteSessions(ids);
+    } catch (error) {
+        console.error('Error deleting sessions:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not delete the sessions.'}`);
+        return;
+    }
+    librarySessions = librarySessions.filter(session => !ids.includes(session.id));
+    ids.forEach(id => librarySelection.delete(id));
+    if (libraryPreviewId !== null && ids.includes(libraryPreviewId)) libraryPreviewId = null;
+    // The open model stays, but saving it again creates a new session
+    if (currentSessionId !== null && ids.includes(currentSessionId)) {
+        currentSessionId = null;
+        currentSessionInfo = {};
+    }
+    renderSessionLibrary();
+    checkSavedSessions();
+}
+
+function handleOpenPreviewedSession() {
+    const session = librarySessions.find(candidate => candidate.id === libraryPreviewId);
+    if (!session) return;
+    loadSessionState(session);
+    loadModal.classList.add('hidden');
 }
 
 function loadSessionState(session: Session) {
     resetApp();
     currentSessionId = session.id;
+    currentSessionInfo = { title: session.title, tags: session.tags };
     currentMode = session.mode;
     generatedModelData = session.modelData;
     qaHistory = session.qaHistory;
-    selectedImage = { data: session.previewImage, mimeType: session.mimeType };
+    selectedImages = session.images.map(image => ({ ...image }));
+    setQaMode('ask');
 
     // --- Restore UI State ---
     modeSelectionContainer.classList.add('hidden');
     appContainer.classList.remove('hidden');
     appTitle.textContent = `AI 3D ${session.mode.charAt(0).toUpperCase() + session.mode.slice(1)} Generator`;
     
-    imagePreview.src = `data:${session.mimeType};base64,${session.previewImage}`;
-    imagePreviewContainer.classList.remove('hidden');
+    renderImagePreviews();
+    generateBtn.disabled = true;
     
     displayCode(session.modelData);
     renderQaHistory();
 
     // Re-initialize the chat session from the saved model data and history
-    const chatPrompt = getChatPrompt(generatedModelData);
-    const chatHistoryPayload = [
-        { role: 'user', parts: [{ text: chatPrompt }] },
-        { role: 'model', parts: [{ text: 'Understood. I am ready to answer questions about the provided 3D model data.' }] }
-    ];
-
-    session.qaHistory.slice().reverse().forEach(pair => {
-        chatHistoryPayload.push({ role: 'user', parts: [{ text: pair.question }] });
-        chatHistoryPayload.push({ role: 'model', parts: [{ text: pair.answer }] });
-    });
-
-    chat = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        history: chatHistoryPayload
-    });
+    chat = aiProvider.createChat(getChatHistory(session.modelData, session.qaHistory));
 
     try {
         const data = JSON.parse(session.modelData);
-        let resultObject;
-        if (session.mode === 'geometry') {
-            resultObject = buildGeometryModel(data);
+        displayModel(data);
+        measurements = session.measurements || [];
+        renderMeasurements();
+        // Sessions saved before edits existed have only the one version
+        if (session.versions) {
+            modelVersions = session.versions;
+            versionIndex = session.versionIndex ?? session.versions.length - 1;
+            renderVersions();
         } else {
-            resultObject = buildChemistryModel(data);
-        }
-
-        if (data.analysis) {
-            displayDetails(data.analysis);
+            startVersionHistory(session.modelData);
         }
         
-        const box = new THREE.Box3().setFromObject(resultObject);
-        const center = box.getCenter(new THREE.Vector3());
-        resultObject.position.sub(center);
-
-        scene.add(resultObject);
-        generatedObject = resultObject;
-        frameObject(generatedObject);
-        
         resultsContainer.classList.remove('hidden');
         qaContainer.classList.remove('hidden');
         qaBtn.disabled = false;
         saveSessionBtn.classList.remove('hidden');
+        exportSessionBtn.classList.remove('hidden');
         onWindowResize();
 
     } catch (error) {
@@ -1572,26 +4320,300 @@ function loadSessionState(session: Session) {
     }
 }
 
+function downloadFile(content: BlobPart, fileName: string, mimeType: string) {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function handleDownloadFixtures() {
+    if (!('getRecordedFixtures' in aiProvider)) return;
+    const fixtures = (aiProvider as RecordingProvider).getRecordedFixtures();
+    downloadFile(JSON.stringify(fixtures, null, 2), `ai3d-fixtures-${Date.now()}.json`, 'application/json');
+}
+
+// --- Model Export ---
+/**
+ * File name stem for exports, taken from the model's name where it has one.
+ */
+function getExportBaseName(data: any): string {
+    const name = String(data?.analysis?.name || currentMode || 'model');
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'model';
+}
+
+function handleChemistryExport(format: 'mol' | 'xyz' | 'pdb') {
+    if (!generatedModelData || currentMode !== 'chemistry') return;
+    try {
+        const data = JSON.parse(generatedModelData);
+        const writers = { mol: writeMolfile, xyz: writeXyz, pdb: writePdb };
+        const mimeTypes = { mol: 'chemical/x-mdl-molfile', xyz: 'chemical/x-xyz', pdb: 'chemical/x-pdb' };
+        downloadFile(writers[format](data), `${getExportBaseName(data)}.${format}`, mimeTypes[format]);
+    } catch (error) {
+        console.error('Error exporting model:', error);
+        showNotification('Error: Could not export the model.');
+    }
+}
+
+/**
+ * Moves the atoms of the displayed chemistry model to new coordinates (in Å) and rebuilds its
+ * bonds, leaving the camera and labels where they are.
+ */
+function updateChemistryModelPositions(data: any, positions: number[][]) {
+    if (!generatedObject) return;
+    const model = generatedObject;
+    const atomPositions = model.userData.atomPositions as THREE.Vector3[];
+    positions.forEach((position, index) => atomPositions[index]?.fromArray(position).multiplyScalar(CHEM_MODEL_SCALE));
+
+    [...model.children].forEach(child => {
+        const atomMesh = child.children.find(c => c.userData.details?.atomIndex !== undefined);
+        if (atomMesh) {
+            child.position.copy(atomPositions[atomMesh.userData.details.atomIndex]);
+            return;
+        }
+        const details = child.userData.details;
+        if (details?.bondIndex === undefined) return;
+        const bond = data.bonds[details.bondIndex];
+        model.remove(child);
+        disposeObject(child);
+        model.add(createBond(bond, atomPositions[bond.start], atomPositions[bond.end], details.name, details.bondIndex));
+    });
+}
+
+/**
+ * Stores optimized coordinates in the model data, recomputes every atom's bond angles and the
+ * chemistry report from them, and restarts the chat so answers use the new geometry.
+ */
+function applyOptimizedGeometry(data: any, positions: number[][], result: OptimizationResult) {
+    data.atoms.forEach((atom: any, index: number) => {
+        atom.position = positions[index].map(c => Number(c.toFixed(4)));
+    });
+    const bonds = getValidBonds(data);
+    data.atoms.forEach((atom: any, index: number) => {
+        atom.bondAngles = computeBondAngles(data.atoms, bonds, index);
+    });
+
+    generatedModelData = JSON.stringify(data);
+    displayCode(generatedModelData);
+    generatedObject?.traverse(child => {
+        const details = child.userData.details;
+        if (details?.atomIndex !== undefined) details.bondAngles = data.atoms[details.atomIndex].bondAngles;
+    });
+    const report = checkChemistry(data);
+    if (generatedObject) generatedObject.userData.chemistryReport = report;
+    displayChemistryReport(report);
+    refreshMeasurements(data);
+    chat = aiProvider.createChat(getChatHistory(generatedModelData, qaHistory));
+    recordModelVersion(generatedModelData, result.converged ? 'Optimize geometry' : 'Optimize geometry (partly)');
+
+    const energies = `${result.initialEnergy.toFixed(1)} → ${result.finalEnergy.toFixed(1)} kcal/mol`;
+    showNotification(result.converged ? `Geometry optimized (${energies})` : `Geometry partly optimized (${energies}); run again to continue.`);
+}
+
+function handleOptimizeGeometry() {
+    if (!generatedModelData || !generatedObject || currentMode !== 'chemistry' || optimizationFrameId !== null) return;
+    if (qaAbortController) {
+        showNotification(MODEL_BUSY_MESSAGE);
+        return;
+    }
+    setModelEditing(false);
+
+    let data: any;
+    let result: OptimizationResult;
+    try {
+        data = JSON.parse(generatedModelData);
+        const atoms = data.atoms.map((atom: any) => {
+            const position = atom.position;
+            if (!Array.isArray(position) || position.length !== 3 || !position.every((c: any) => typeof c === 'number' && isFinite(c))) {
+                throw new Error('Every atom needs a valid position before the geometry can be optimized.');
+            }
+            return { element: atom.element, position, charge: typeof atom.charge === 'number' ? atom.charge : 0 };
+        });
+        result = optimizeGeometry(atoms, getValidBonds(data));
+    } catch (error) {
+        console.error('Error optimizing geometry:', error);
+        showNotification(`Error: ${error instanceof Error ? error.message : 'Could not optimize the geometry.'}`);
+        return;
+    }
+
+    // Highlights, angle arcs and measurements belong to the old positions
+    clearHighlights();
+    clearGroup(angleVisualizationGroup);
+    clearGroup(measurementGroup);
+    selectionDetailsContainer.classList.add('hidden');
+    selectionDetailsContent.innerHTML = '';
+    currentSelectionDetails = null;
+    optimizeGeometryBtn.disabled = true;
+
+    const start = performance.now();
+    let shownFrame = -1;
+    const animate = (now: number) => {
+        const progress = Math.min(1, (now - start) / OPTIMIZE_ANIMATION_MS);
+        const frameIndex = Math.round(progress * (result.frames.length - 1));
+        if (frameIndex !== shownFrame) {
+            updateChemistryModelPositions(data, result.frames[frameIndex]);
+            shownFrame = frameIndex;
+        }
+        if (progress < 1) {
+            optimizationFrameId = requestAnimationFrame(animate);
+            return;
+        }
+        optimizationFrameId = null;
+        optimizeGeometryBtn.disabled = false;
+        applyOptimizedGeometry(data, result.frames[result.frames.length - 1], result);
+    };
+    optimizationFrameId = requestAnimationFrame(animate);
+}
+
+async function handleGeometryExport(format: 'stl' | 'obj' | 'gltf' | 'glb') {
+    if (!generatedModelData || !generatedObject || currentMode !== 'geometry') return;
+    try {
+        const data = JSON.parse(generatedModelData);
+        const baseName = getExportBaseName(data);
+
+        if (format === 'stl') {
+            downloadFile(writeBinaryStl(data, baseName), `${baseName}.stl`, 'model/stl');
+        } else if (format === 'obj') {
+            downloadFile(writeObj(data, baseName), `${baseName}.obj`, 'model/obj');
+        } else {
+            // Label sprites are children of the model group, so their positions are in model units
+            const labelSprites = exportLabelsCheckbox.checked
+                ? generatedObject.children.filter((child): child is THREE.Sprite => child instanceof THREE.Sprite)
+                : [];
+            const result = await exportGltf(data, baseName, format === 'glb', labelSprites);
+            if (format === 'glb') {
+                downloadFile(result as ArrayBuffer, `${baseName}.glb`, 'model/gltf-binary');
+            } else {
+                downloadFile(JSON.stringify(result, null, 2), `${baseName}.gltf`, 'model/gltf+json');
+            }
+        }
+    } catch (error) {
+        console.error('Error exporting model:', error);
+        showNotification('Error: Could not export the model.');
+    }
+}
+
+function updateExportToolbar() {
+    exportToolbar.querySelectorAll<HTMLElement>('[data-export-mode]').forEach(button => {
+        button.classList.toggle('hidden', !currentMode || !button.dataset.exportMode!.split(' ').includes(currentMode));
+    });
+    exportToolbar.classList.toggle('hidden', !generatedObject);
+}
+
 function checkSavedSessions() {
-    const sessions = getSavedSessions();
-    loadSessionBtn.disabled = sessions.length === 0;
+    countSessions()
+        .then(count => { loadSessionBtn.disabled = count === 0; })
+        .catch(error => {
+            console.error('Error reading saved sessions:', error);
+            loadSessionBtn.disabled = true;
+        });
 }
 
 // --- Initialization ---
 function initializeApp() {
     geometryModeBtn.addEventListener('click', () => selectMode('geometry'));
     chemistryModeBtn.addEventListener('click', () => selectMode('chemistry'));
+    crystalModeBtn.addEventListener('click', () => selectMode('crystal'));
     resetBtn.addEventListener('click', resetApp);
     saveSessionBtn.addEventListener('click', handleSaveSession);
     loadSessionBtn.addEventListener('click', handleOpenLoadModal);
+    exportSessionBtn.addEventListener('click', handleExportSession);
+    importSessionBtn.addEventListener('click', () => sessionFileInput.click());
+    sessionFileInput.addEventListener('change', handleImportSession);
     closeModalBtn.addEventListener('click', () => loadModal.classList.add('hidden'));
+    librarySearchInput.addEventListener('input', renderSessionLibrary);
+    [libraryModeSelect, libraryDateSelect, librarySortSelect].forEach(select => select.addEventListener('change', renderSessionLibrary));
+    librarySelectAll.addEventListener('change', handleLibrarySelectAll);
+    libraryDeleteBtn.addEventListener('click', () => deleteLibrarySessions([...librarySelection]));
+    sessionPreviewDeleteBtn.addEventListener('click', () => {
+        if (libraryPreviewId !== null) deleteLibrarySessions([libraryPreviewId]);
+    });
+    sessionOpenBtn.addEventListener('click', handleOpenPreviewedSession);
+    [sessionTitleInput, sessionTagsInput].forEach(input => input.addEventListener('change', handleSessionInfoChange));
     generateBtn.addEventListener('click', handleGenerateClick);
     imageInput.addEventListener('change', handleImageUpload);
-    qaBtn.addEventListener('click', handleAskQuestion);
+    qaBtn.addEventListener('click', handleQaSubmit);
+    qaModeButtons.forEach(button => button.addEventListener('click', () => setQaMode(button.dataset.qaMode as 'ask' | 'edit')));
+    undoBtn.addEventListener('click', () => handleSelectVersion(versionIndex - 1));
+    redoBtn.addEventListener('click', () => handleSelectVersion(versionIndex + 1));
+    document.addEventListener('keydown', handleVersionShortcut);
+    cancelGenerationBtn.addEventListener('click', () => generationAbortController?.abort());
+    qaStopBtn.addEventListener('click', () => qaAbortController?.abort());
+    downloadFixturesBtn.addEventListener('click', handleDownloadFixtures);
+    exportMolBtn.addEventListener('click', () => handleChemistryExport('mol'));
+    exportXyzBtn.addEventListener('click', () => handleChemistryExport('xyz'));
+    exportPdbBtn.addEventListener('click', () => handleChemistryExport('pdb'));
+    exportStlBtn.addEventListener('click', () => handleGeometryExport('stl'));
+    exportObjBtn.addEventListener('click', () => handleGeometryExport('obj'));
+    exportGltfBtn.addEventListener('click', () => handleGeometryExport('gltf'));
+    exportGlbBtn.addEventListener('click', () => handleGeometryExport('glb'));
+    optimizeGeometryBtn.addEventListener('click', handleOptimizeGeometry);
+    measureButtons.forEach(button => {
+        button.addEventListener('click', () => {
+            const kind = button.dataset.measure as MeasurementKind;
+            setMeasurementKind(measurementKind === kind ? null : kind);
+        });
+    });
+    sectionBtn.addEventListener('click', () => setSectionEnabled(!sectionPlane));
+    sectionAxisButtons.forEach(button => {
+        button.addEventListener('click', () => setSectionAxis(button.dataset.axis as SectionAxis));
+    });
+    sectionMoveBtn.addEventListener('click', () => setSectionDragMode('translate'));
+    sectionRotateBtn.addEventListener('click', () => setSectionDragMode('rotate'));
+    [sectionOffsetInput, sectionTiltInput, sectionTurnInput].forEach(input => input.addEventListener('input', handleSectionSliderInput));
+    sectionAskBtn.addEventListener('click', handleSectionAsk);
+    unfoldNetBtn.addEventListener('click', handleToggleNet);
+    editModelBtn.addEventListener('click', () => setModelEditing(!modelEditing));
+    editorAddAtomBtn.addEventListener('click', handleEditorAddAtom);
+    editorAddBondBtn.addEventListener('click', handleEditorAddBond);
+    editorBondOrderSelect.addEventListener('change', handleEditorBondOrderChange);
+    editorDeleteBtn.addEventListener('click', handleEditorDelete);
+    codeEditor.addEventListener('input', handleCodeEditorInput);
+    codeEditor.addEventListener('blur', () => { jsonEditVersion = null; });
+    document.addEventListener('keydown', handleEditorShortcut);
+    exportNetSvgBtn.addEventListener('click', handleNetSvgExport);
+    crystalRepeatSelect.addEventListener('change', handleCrystalRepeatChange);
+    closePrepBtn.addEventListener('click', () => closeImagePrep(null));
+    prepCancelBtn.addEventListener('click', () => closeImagePrep(null));
+    prepUseBtn.addEventListener('click', handlePrepUse);
+    prepRotateLeftBtn.addEventListener('click', () => rotatePrepImage(-1));
+    prepRotateRightBtn.addEventListener('click', () => rotatePrepImage(1));
+    prepShapeButtons.forEach(button => {
+        button.addEventListener('click', () => setPrepShape(button.dataset.shape as PrepShape));
+    });
+    prepResetBtn.addEventListener('click', resetPrepImage);
+    prepPageSelect.addEventListener('change', handlePrepPageChange);
+    prepContrastInput.addEventListener('input', () => {
+        if (!imagePrep) return;
+        imagePrep.adjustments.contrast = Number(prepContrastInput.value);
+        prepCanvas.style.filter = `contrast(${imagePrep.adjustments.contrast})`;
+    });
+    prepOverlay.addEventListener('pointerdown', handlePrepPointerDown);
+    prepOverlay.addEventListener('pointermove', handlePrepPointerMove);
+    prepOverlay.addEventListener('pointerup', handlePrepPointerUp);
+    prepOverlay.addEventListener('pointercancel', handlePrepPointerUp);
+    clearMeasurementsBtn.addEventListener('click', () => {
+        measurements = [];
+        pendingMeasurementPoints = [];
+        renderMeasurements();
+    });
+    if ('getRecordedFixtures' in aiProvider) {
+        downloadFixturesBtn.classList.remove('hidden');
+    }
+    buildStructureBtn.addEventListener('click', handleStructureTextSubmit);
+    structureTextInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            handleStructureTextSubmit();
+        }
+    });
     qaInput.addEventListener('keydown', (e) => {
         if(e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
-            handleAskQuestion();
+            handleQaSubmit();
         }
     });
 
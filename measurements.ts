@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { computeAngle } from './chemistryChecks';
+import { cross, dot, formatMetricValue, length, parseMeasurement, sub } from './meshMetrics';
+
+type Vec3 = [number, number, number];
+
+export type MeasurementKind = 'distance' | 'angle' | 'dihedral';
+
+export const POINTS_PER_MEASUREMENT: { [kind in MeasurementKind]: number } = { distance: 2, angle: 3, dihedral: 4 };
+
+/**
+ * A picked point in model coordinates (Å for molecules and crystals, the drawing's unit for solids).
+ * Atom points remember their atom so they follow it when the geometry is optimized.
+ */
+export interface MeasurementPoint {
+    label: string;
+    position: Vec3;
+    atomIndex?: number;
+    vertexIndex?: number;
+    faceIndex?: number;
+}
+
+export interface MeasurementAnnotation {
+    kind: MeasurementKind;
+    points: MeasurementPoint[];
+    value: number;
+    text: string;
+}
+
+/**
+ * Signed torsion angle a-b-c-d in degrees (IUPAC convention, -180° to 180°).
+ */
+export function computeDihedral(a: Vec3, b: Vec3, c: Vec3, d: Vec3): number {
+    const b1 = sub(b, a), b2 = sub(c, b), b3 = sub(d, c);
+    const n1 = cross(b1, b2), n2 = cross(b2, b3);
+    const y = length(b2) * dot(b1, n2);
+    const x = dot(n1, n2);
+    return Math.atan2(y, x) * 180 / Math.PI;
+}
+
+/**
+ * The length unit for measurements: Å for molecules and crystals; for solids, the first unit the
+ * AI used in its analysis or labels, or none for unitless models.
+ */
+export function getModelLengthUnit(data: any, mode: 'geometry' | 'chemistry' | 'crystal'): string {
+    if (mode !== 'geometry') return 'Å';
+    const candidates = [data?.analysis?.volume, data?.analysis?.surfaceArea, ...(data?.labels || []).map((label: any) => label?.text)];
+    for (const text of candidates) {
+        const unit = parseMeasurement(text)?.unit;
+        if (unit) return unit;
+    }
+    return '';
+}
+
+export function createMeasurement(kind: MeasurementKind, points: MeasurementPoint[], unit: string): MeasurementAnnotation {
+    const p = points.map(point => point.position);
+    let value: number;
+    let text: string;
+    if (kind === 'distance') {
+        value = Math.hypot(p[1][0] - p[0][0], p[1][1] - p[0][1], p[1][2] - p[0][2]);
+        text = unit === 'Å' ? `${value.toFixed(3)} Å` : formatMetricValue(value, unit, 1);
+    } else if (kind === 'angle') {
+        value = computeAngle(p[0], p[1], p[2]);
+        text = `${value.toFixed(1)}°`;
+    } else {
+        value = computeDihedral(p[0], p[1], p[2], p[3]);
+        text = `${value.toFixed(1)}°`;
+    }
+    return { kind, points, value, text };
+}
+
+export function describeMeasurement(measurement: MeasurementAnnotation): string {
+    const names = { distance: 'Distance', angle: 'Angle', dihedral: 'Dihedral' };
+    return `${names[measurement.kind]} ${measurement.points.map(point => point.label).join('–')}: ${measurement.text}`;
+}
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { computeMeshMetrics, formatMetricValue } from './meshMetrics';
+
+export const MESH_FILE_EXTENSIONS = ['.obj', '.stl'];
+
+// Larger meshes are refused; per-face analysis and tutoring are meant for classroom solids.
+export const MAX_IMPORTED_TRIANGLES = 20000;
+
+// Neighbouring triangles whose normals differ by less than this join the same face group.
+const COPLANAR_ANGLE_DEGREES = 1;
+
+// Imported files carry no unit, so measurements are reported in generic units.
+const IMPORT_UNIT = 'units';
+
+type Vec3 = [number, number, number];
+type Triangle = [number, number, number];
+
+export function isMeshFile(fileName: string): boolean {
+    return MESH_FILE_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+}
+
+/**
+ * Merges vertices that share a position (STL repeats them for every triangle) so adjacency
+ * can be found from shared indices.
+ */
+function createVertexWelder() {
+    const vertices: Vec3[] = [];
+    const lookup = new Map<string, number>();
+    return {
+        vertices,
+        add(v: Vec3): number {
+            const key = v.map(c => Math.round(c * 1e6)).join(',');
+            let index = lookup.get(key);
+            if (index === undefined) {
+                index = vertices.length;
+                vertices.push(v);
+                lookup.set(key, index);
+            }
+            return index;
+        },
+    };
+}
+
+// --- OBJ ---
+function parseObj(text: string): { vertices: Vec3[], triangles: Triangle[] } {
+    const vertices: Vec3[] = [];
+    const triangles: Triangle[] = [];
+
+    text.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trim();
+        if (line.startsWith('v ')) {
+            const [x, y, z] = line.substring(2).trim().split(/\s+/).map(Number);
+            if (![x, y, z].every(isFinite)) throw new Error(`Invalid OBJ vertex: "${line}".`);
+            vertices.push([x, y, z]);
+        } else if (line.startsWith('f ')) {
+            // Face entries may be "v", "v/vt", "v//vn" or "v/vt/vn"; negative indices count back
+            const indices = line.substring(2).trim().split(/\s+/).map(token => {
+                const index = parseInt(token.split('/')[0], 10);
+                return index < 0 ? vertices.length + index : index - 1;
+            });
+            if (indices.some(index => !(index >= 0 && index < vertices.length))) {
+                throw new Error(`OBJ face refers to a vertex that does not exist: "${line}".`);
+            }
+            // Fan-triangulate polygons
+            for (let i = 1; i + 1 < indices.length; i++) {
+                triangles.push([indices[0], indices[i], indices[i + 1]]);
+            }
+        }
+    });
+
+    // Weld duplicate vertices so faces exported without shared indices still connect
+    const welder = createVertexWelder();
+    const remap = vertices.map(v => welder.add(v));
+    return { vertices: welder.vertices, triangles: triangles.map(t => t.map(i => remap[i]) as Triangle) };
+}
+
+// --- STL ---
+function isBinaryStl(buffer: ArrayBuffer): boolean {
+    if (buffer.byteLength < 84) return false;
+    const count = new DataView(buffer).getUint32(80, true);
+    return buffer.byteLength === 84 + count * 50;
+}
+
+function parseStl(buffer: ArrayBuffer): { vertices: Vec3[], triangles: Triangle[] } {
+    const welder = createVertexWelder();
+    const triangles: Triangle[] = [];
+
+    if (isBinaryStl(buffer)) {
+        const view = new DataView(buffer);
+        const count = view.getUint32(80, true);
+        for (let i = 0; i < count; i++) {
+            const offset = 84 + i * 50 + 12; // skip the stored normal
+            const corners = [0, 1, 2].map(corner => {
+                const base = offset + corner * 12;
+                return welder.add([view.getFloat32(base, true), view.getFloat32(base + 4, true), view.getFloat32(base + 8, true)]);
+            });
+            triangles.push(corners as Triangle);
+        }
+    } else {
+        const text = new TextDecoder().decode(buffer);
+        const matches = [...text.matchAll(/vertex\s+(\S+)\s+(\S+)\s+(\S+)/g)];
+        if (matches.length === 0 || matches.length % 3 !== 0) throw new Error('The STL file has no readable triangles.');
+        for (let i = 0; i < matches.length; i += 3) {
+            const corners = [0, 1, 2].map(corner => {
+                const [, x, y, z] = matches[i + corner];
+                const v: Vec3 = [parseFloat(x), parseFloat(y), parseFloat(z)];
+                if (!v.every(isFinite)) throw new Error('The STL file contains an invalid vertex.');
+                return welder.add(v);
+            });
+            triangles.push(corners as Triangle);
+        }
+    }
+    return { vertices: welder.vertices, triangles };
+}
+
+// --- Face Grouping ---
+function triangleNormal(vertices: Vec3[], [i0, i1, i2]: Triangle): Vec3 | null {
+    const [a, b, c] = [vertices[i0], vertices[i1], vertices[i2]];
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const n: Vec3 = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const length = Math.hypot(n[0], n[1], n[2]);
+    return length > 1e-12 ? [n[0] / length, n[1] / length, n[2] / length] : null;
+}
+
+/**
+ * Groups edge-connected triangles that lie in the same plane, so a quad split into two
+ * triangles (or a whole flat face of a CAD model) becomes one face group. Each group is grown
+ * from a seed triangle and compared against the seed's plane, so gently curved surfaces do
+ * not drift into one group. Degenerate triangles are dropped.
+ */
+function groupCoplanarTriangles(vertices: Vec3[], triangles: Triangle[]): Triangle[][] {
+    const normals = triangles.map(t => triangleNormal(vertices, t));
+    const edgeToTriangles = new Map<string, number[]>();
+    triangles.forEach((t, index) => {
+        if (!normals[index]) return;
+        [[t[0], t[1]], [t[1], t[2]], [t[2], t[0]]].forEach(([a, b]) => {
+            const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+            if (!edgeToTriangles.has(key)) edgeToTriangles.set(key, []);
+            edgeToTriangles.get(key)!.push(index);
+        });
+    });
+
+    const extent = vertices.reduce((max, v) => Math.max(max, Math.abs(v[0]), Math.abs(v[1]), Math.abs(v[2])), 0);
+    const planeTolerance = Math.max(extent, 1) * 1e-4;
+    const cosTolerance = Math.cos(COPLANAR_ANGLE_DEGREES * Math.PI / 180);
+
+    const assigned = new Array(triangles.length).fill(false);
+    const groups: Triangle[][] = [];
+
+    triangles.forEach((seed, seedIndex) => {
+        const seedNormal = normals[seedIndex];
+        if (assigned[seedIndex] || !seedNormal) return;
+        const seedOffset = seedNormal[0] * vertices[seed[0]][0] + seedNormal[1] * vertices[seed[0]][1] + seedNormal[2] * vertices[seed[0]][2];
+
+        const group: Triangle[] = [];
+        // Read through a pointer rather than shift(), which is linear in the queue's length
+        const queue = [seedIndex];
+        assigned[seedIndex] = true;
+        for (let head = 0; head < queue.length; head++) {
+            const current = queue[head];
+            const t = triangles[current];
+            group.push(t);
+            [[t[0], t[1]], [t[1], t[2]], [t[2], t[0]]].forEach(([a, b]) => {
+                const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+                (edgeToTriangles.get(key) || []).forEach(neighbour => {
+                    if (assigned[neighbour]) return;
+                    const n = normals[neighbour]!;
+                    // Winding may be inconsistent in imported files, so compare plane orientation only
+                    if (Math.abs(n[0] * seedNormal[0] + n[1] * seedNormal[1] + n[2] * seedNormal[2]) < cosTolerance) return;
+                    const onPlane = triangles[neighbour].every(i => {
+                        const p = vertices[i];
+                        return Math.abs(p[0] * seedNormal[0] + p[1] * seedNormal[1] + p[2] * seedNormal[2] - seedOffset) < planeTolerance;
+                    });
+                    if (!onPlane) return;
+                    assigned[neighbour] = true;
+                    queue.push(neighbour);
+                });
+            });
+        }
+        groups.push(group);
+    });
+    return groups;
+}
+
+/**
+ * Dimension labels for the bounding box, placed just outside its edges like the labels the AI
+ * reads off a drawing.
+ */
+function createBoundingBoxLabels(vertices: Vec3[]): any[] {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    vertices.forEach(v => v.forEach((c, axis) => {
+        min[axis] = Math.min(min[axis], c);
+        max[axis] = Math.max(max[axis], c);
+    }));
+    const size = max.map((m, axis) => m - min[axis]);
+    const offset = Math.max(...size) * 0.08;
+    const mid = max.map((m, axis) => (m + min[axis]) / 2);
+
+    return [
+        { text: formatMetricValue(size[0], IMPORT_UNIT, 1), position: [mid[0], min[1] - offset, max[2] + offset] },
+        { text: formatMetricValue(size[1], IMPORT_UNIT, 1), position: [max[0] + offset, mid[1], max[2] + offset] },
+        { text: formatMetricValue(size[2], IMPORT_UNIT, 1), position: [max[0] + offset, min[1] - offset, mid[2]] },
+    ].filter((_, axis) => size[axis] > 1e-9);
+}
+
+/**
+ * Parses an OBJ or STL file into the geometry JSON schema used by `buildGeometryModel`,
+ * grouping coplanar triangles into faces and computing every measurement locally.
+ */
+export function parseMeshFile(buffer: ArrayBuffer, fileName: string): any {
+    const lower = fileName.toLowerCase();
+    let mesh: { vertices: Vec3[], triangles: Triangle[] };
+    if (lower.endsWith('.obj')) {
+        mesh = parseObj(new TextDecoder().decode(buffer));
+    } else if (lower.endsWith('.stl')) {
+        mesh = parseStl(buffer);
+    } else {
+        throw new Error('Unsupported mesh file. Please use .obj or .stl.');
+    }
+
+    if (mesh.triangles.length === 0) throw new Error('No faces were found in the mesh file.');
+    if (mesh.triangles.length > MAX_IMPORTED_TRIANGLES) {
+        throw new Error(`This mesh has ${mesh.triangles.length} triangles; only meshes up to ${MAX_IMPORTED_TRIANGLES} triangles can be analysed.`);
+    }
+
+    const groups = groupCoplanarTriangles(mesh.vertices, mesh.triangles);
+    const data: any = {
+        vertices: mesh.vertices,
+        faces: groups.map(group => ({
+            details: { surfaceArea: '', perimeter: '' },
+            triangles: group.map(indices => ({ indices })),
+        })),
+        labels: createBoundingBoxLabels(mesh.vertices),
+        analysis: { volume: '', surfaceArea: '' },
+    };
+
+    const metrics = computeMeshMetrics(data);
+    data.faces.forEach((face: any, index: number) => {
+        face.details.surfaceArea = formatMetricValue(metrics.faces[index].surfaceArea, IMPORT_UNIT, 2);
+        face.details.perimeter = formatMetricValue(metrics.faces[index].perimeter, IMPORT_UNIT, 1);
+    });
+    data.analysis = {
+        name: fileName.replace(/\.[^.]+$/, ''),
+        source: fileName,
+        // The signed volume is only meaningful when every triangle winds the same way
+        volume: !metrics.isClosed
+            ? 'Not available: the mesh is not a closed solid.'
+            : !metrics.isConsistentlyOriented
+                ? 'Not available: the mesh\'s triangles are not consistently oriented.'
+                : formatMetricValue(metrics.volume, IMPORT_UNIT, 3),
+        surfaceArea: formatMetricValue(metrics.surfaceArea, IMPORT_UNIT, 2),
+    };
+    return data;
+}
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Interfaces ---
+export interface FaceMetrics {
+    surfaceArea: number;
+    perimeter: number;
+}
+
+export interface MeshMetrics {
+    volume: number;
+    surfaceArea: number;
+    faces: FaceMetrics[];
+    isClosed: boolean; // every edge is shared by exactly two triangles
+    isConsistentlyOriented: boolean; // neighbouring triangles wind the same way
+}
+
+export interface Measurement {
+    value: number;
+    unit: string;
+}
+
+export interface MetricComparison {
+    label: string;
+    claimed: string;
+    claimedValue: number | null;
+    computed: number;
+    relativeError: number | null;
+    agrees: boolean;
+}
+
+// Relative difference above which an AI value is flagged as wrong.
+export const METRIC_TOLERANCE = 0.03;
+
+type Vec3 = [number, number, number];
+
+// --- Vector Helpers ---
+// Shared by the other modules that work on model coordinates as plain arrays.
+export function sub(a: Vec3, b: Vec3): Vec3 {
+    return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+export function cross(a: Vec3, b: Vec3): Vec3 {
+    return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+export function dot(a: Vec3, b: Vec3): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+export function scale(a: Vec3, s: number): Vec3 {
+    return [a[0] * s, a[1] * s, a[2] * s];
+}
+
+export function length(a: Vec3): number {
+    return Math.sqrt(dot(a, a));
+}
+
+export function normalize(a: Vec3): Vec3 {
+    return scale(a, 1 / length(a));
+}
+
+function isValidVertex(v: any): v is Vec3 {
+    return Array.isArray(v) && v.length === 3 && v.every(c => typeof c === 'number' && isFinite(c));
+}
+
+/**
+ * Returns the valid triangles of a face group as vertex index triples, skipping malformed ones
+ * the same way `buildGeometryModel` does.
+ */
+export function getFaceTriangles(faceGroup: any, vertices: any[]): [number, number, number][] {
+    if (!faceGroup || !Array.isArray(faceGroup.triangles)) return [];
+    const triangles: [number, number, number][] = [];
+    faceGroup.triangles.forEach((triangle: any) => {
+        const indices = triangle?.indices;
+        if (!Array.isArray(indices) || indices.length !== 3) return;
+        if (!indices.every((i: any) => Number.isInteger(i) && isValidVertex(vertices[i]))) return;
+        triangles.push([indices[0], indices[1], indices[2]]);
+    });
+    return triangles;
+}
+
+function edgeKey(a: number, b: number): string {
+    return a < b ? `${a}_${b}` : `${b}_${a}`;
+}
+
+/**
+ * Length of the outer boundary of a face group: boundary edges (used by one triangle only)
+ * are chained into loops and the longest loop is taken, so holes are not counted.
+ */
+function computeOuterPerimeter(triangles: [number, number, number][], vertices: Vec3[]): number {
+    const edgeCounts = new Map<string, { a: number, b: number, count: number }>();
+    triangles.forEach(([i0, i1, i2]) => {
+        [[i0, i1], [i1, i2], [i2, i0]].forEach(([a, b]) => {
+            const key = edgeKey(a, b);
+            const entry = edgeCounts.get(key);
+            if (entry) entry.count++;
+            else edgeCounts.set(key, { a, b, count: 1 });
+        });
+    });
+
+    const boundary = [...edgeCounts.values()].filter(e => e.count === 1);
+    const adjacency = new Map<number, { to: number, key: string }[]>();
+    boundary.forEach(({ a, b }) => {
+        const key = edgeKey(a, b);
+        if (!adjacency.has(a)) adjacency.set(a, []);
+        if (!adjacency.has(b)) adjacency.set(b, []);
+        adjacency.get(a)!.push({ to: b, key });
+        adjacency.get(b)!.push({ to: a, key });
+    });
+
+    const visited = new Set<string>();
+    let longest = 0;
+    boundary.forEach(({ a, b }) => {
+        const startKey = edgeKey(a, b);
+        if (visited.has(startKey)) return;
+
+        let loopLength = 0;
+        const stack = [a];
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            (adjacency.get(current) || []).forEach(({ to, key }) => {
+                if (visited.has(key)) return;
+                visited.add(key);
+                loopLength += length(sub(vertices[to], vertices[current]));
+                stack.push(to);
+            });
+        }
+        longest = Math.max(longest, loopLength);
+    });
+    return longest;
+}
+
+/**
+ * Recomputes volume, surface area and per-face area/perimeter from the geometry JSON.
+ * Volume uses the divergence theorem: the sum of signed tetrahedron volumes from the origin.
+ */
+export function computeMeshMetrics(data: any): MeshMetrics {
+    const vertices: Vec3[] = Array.isArray(data?.vertices) ? data.vertices : [];
+    const faceGroups: any[] = Array.isArray(data?.faces) ? data.faces : [];
+
+    let signedVolume = 0;
+    let totalArea = 0;
+    const directedEdges = new Map<string, number>();
+    const undirectedEdges = new Map<string, number>();
+
+    const faces: FaceMetrics[] = faceGroups.map(faceGroup => {
+        const triangles = getFaceTriangles(faceGroup, vertices);
+        let faceArea = 0;
+
+        triangles.forEach(([i0, i1, i2]) => {
+            const a = vertices[i0], b = vertices[i1], c = vertices[i2];
+            faceArea += length(cross(sub(b, a), sub(c, a))) / 2;
+            signedVolume += dot(a, cross(b, c)) / 6;
+
+            [[i0, i1], [i1, i2], [i2, i0]].forEach(([from, to]) => {
+                const directed = `${from}_${to}`;
+                directedEdges.set(directed, (directedEdges.get(directed) || 0) + 1);
+                const undirected = edgeKey(from, to);
+                undirectedEdges.set(undirected, (undirectedEdges.get(undirected) || 0) + 1);
+            });
+        });
+
+        totalArea += faceArea;
+        return { surfaceArea: faceArea, perimeter: computeOuterPerimeter(triangles, vertices) };
+    });
+
+    const isClosed = undirectedEdges.size > 0 && [...undirectedEdges.values()].every(count => count === 2);
+    const isConsistentlyOriented = [...directedEdges.values()].every(count => count === 1);
+
+    return {
+        volume: Math.abs(signedVolume),
+        surfaceArea: totalArea,
+        faces,
+        isClosed,
+        isConsistentlyOriented,
+    };
+}
+
+/**
+ * Extracts the numeric value and length unit from an AI measurement string such as
+ * "64 cm^3", "16π cm²" or "50.27 (16π) cm^2". A value after "≈" or "=" wins over the rest.
+ */
+export function parseMeasurement(text: any): Measurement | null {
+    if (typeof text !== 'string') return null;
+    const unitMatch = text.match(/\b(mm|cm|km|m|in|ft|yd|units?)\b/i);
+    const unit = unitMatch ? unitMatch[1] : '';
+
+    // Prefer the final result of a worked expression such as "4 × 4 = 16π ≈ 50.27".
+    for (const marker of ['≈', '=']) {
+        const index = text.lastIndexOf(marker);
+        if (index === -1) continue;
+        const value = parseLeadingValue(text.slice(index + 1));
+        if (value !== null) return { value, unit };
+    }
+
+    const value = parseLeadingValue(text);
+    return value === null ? null : { value, unit };
+}
+
+// "× 10^3" or "× 10^(-3)" straight after a value, as the prompts ask the AI to write large and small numbers
+const POWER_OF_TEN_PATTERN = /^\s*[×x*·]\s*10\s*\^\s*(?:\(\s*([-−+]?\d+)\s*\)|([-−+]?\d+))/i;
+
+function parseLeadingValue(text: string): number | null {
+    const cleaned = text.replace(/,/g, '');
+    const piMatch = cleaned.match(/(-?\d+(?:\.\d+)?)?\s*(?:π|pi\b)/i);
+    const plainMatch = cleaned.match(/-?\d+(?:\.\d+)?/);
+    let match: RegExpMatchArray;
+    let value: number;
+    if (piMatch && (!plainMatch || piMatch.index! <= plainMatch.index!)) {
+        match = piMatch;
+        value = (piMatch[1] !== undefined ? parseFloat(piMatch[1]) : 1) * Math.PI;
+    } else if (plainMatch) {
+        match = plainMatch;
+        value = parseFloat(plainMatch[0]);
+    } else {
+        return null;
+    }
+    const power = cleaned.slice(match.index! + match[0].length).match(POWER_OF_TEN_PATTERN);
+    if (!power) return value;
+    const exponent = parseInt((power[1] ?? power[2]).replace('−', '-'), 10);
+    return value * Math.pow(10, exponent);
+}
+
+export function compareMetric(label: string, claimed: any, computed: number): MetricComparison {
+    const parsed = parseMeasurement(claimed);
+    const claimedValue = parsed ? parsed.value : null;
+    let relativeError: number | null = null;
+    if (claimedValue !== null) {
+        const scale = Math.max(Math.abs(claimedValue), Math.abs(computed), 1e-9);
+        relativeError = Math.abs(claimedValue - computed) / scale;
+    }
+    return {
+        label,
+        claimed: typeof claimed === 'string' ? claimed : 'N/A',
+        claimedValue,
+        computed,
+        relativeError,
+        // An unparseable claim ("More information required.") can't be checked, so it isn't flagged.
+        agrees: relativeError === null || relativeError <= METRIC_TOLERANCE,
+    };
+}
+
+export function formatMetricValue(value: number, unit: string, power: number): string {
+    const rounded = Math.abs(value) >= 1000 ? value.toFixed(0) : Number(value.toPrecision(4)).toString();
+    if (!unit) return rounded;
+    return power > 1 ? `${rounded} ${unit}^${power}` : `${rounded} ${unit}`;
+}
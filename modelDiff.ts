@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { joinPath } from './modelValidation';
+import { isPlainObject } from './sessions';
+
+// --- Interfaces ---
+export interface ModelChange {
+    path: string; // e.g. "vertices[3][2]" or "analysis.volume"
+    kind: 'added' | 'removed' | 'changed';
+    before?: any;
+    after?: any;
+}
+
+const MAX_VALUE_LENGTH = 60;
+
+/**
+ * Every difference between two versions of a model, down to single coordinates. Array items are
+ * compared by position, so removing an atom shows as changes to the atoms after it plus one
+ * removal at the end.
+ */
+export function diffModelData(before: any, after: any, path = ''): ModelChange[] {
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+        return keys.flatMap(key => {
+            if (!(key in after)) return [{ path: joinPath(path, key), kind: 'removed' as const, before: before[key] }];
+            if (!(key in before)) return [{ path: joinPath(path, key), kind: 'added' as const, after: after[key] }];
+            return diffModelData(before[key], after[key], joinPath(path, key));
+        });
+    }
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const changes: ModelChange[] = [];
+        for (let i = 0; i < Math.max(before.length, after.length); i++) {
+            if (i >= after.length) changes.push({ path: joinPath(path, i), kind: 'removed', before: before[i] });
+            else if (i >= before.length) changes.push({ path: joinPath(path, i), kind: 'added', after: after[i] });
+            else changes.push(...diffModelData(before[i], after[i], joinPath(path, i)));
+        }
+        return changes;
+    }
+    if (JSON.stringify(before) === JSON.stringify(after)) return [];
+    return [{ path: path || '(root)', kind: 'changed', before, after }];
+}
+
+/**
+ * A short one-line rendering of a changed value, cut off when it is a large subtree.
+ */
+export function formatChangeValue(value: any): string {
+    const text = typeof value === 'number' ? String(Math.round(value * 1e4) / 1e4) : String(JSON.stringify(value));
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
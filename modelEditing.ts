@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getReferenceBondLength } from './chemistryChecks';
+import { bondOrderToType, formatElementSymbol } from './elements';
+import { computeBondAngles, deriveVseprShape, getBondEnergy, getValidBonds } from './molecule';
+
+type Vec3 = [number, number, number];
+
+// Used when no reference length is known for a new bond
+const DEFAULT_BOND_LENGTH = 1.5;
+// An unbonded new atom is placed this far (Å) beyond the molecule
+const FREE_ATOM_GAP = 2;
+
+// Every edit works on a copy, so the version it started from stays as it was
+function copyModel(data: any): any {
+    return JSON.parse(JSON.stringify(data));
+}
+
+function roundPosition(position: number[]): Vec3 {
+    return position.map(c => Number(c.toFixed(4))) as Vec3;
+}
+
+/**
+ * Recomputes every atom's bond angles after atoms moved or bonds changed, and the VSEPR shape of
+ * the atoms whose bonding changed. Other shapes are the AI's and are left alone.
+ */
+function updateDerivedData(data: any, rebonded: number[]) {
+    const bonds = getValidBonds(data);
+    data.atoms.forEach((atom: any, index: number) => {
+        atom.bondAngles = computeBondAngles(data.atoms, bonds, index);
+    });
+    rebonded.forEach(index => {
+        const atom = data.atoms[index];
+        if (!atom) return;
+        const own = bonds.filter(bond => bond.start === index || bond.end === index);
+        atom.vseprShape = deriveVseprShape(atom.element, own.length, own.reduce((sum, bond) => sum + bond.order, 0), typeof atom.charge === 'number' ? atom.charge : 0);
+    });
+}
+
+export function moveVertex(data: any, vertexIndex: number, position: number[]): any {
+    const edited = copyModel(data);
+    edited.vertices[vertexIndex] = roundPosition(position);
+    return edited;
+}
+
+export function moveAtom(data: any, atomIndex: number, position: number[]): any {
+    const edited = copyModel(data);
+    edited.atoms[atomIndex].position = roundPosition(position);
+    updateDerivedData(edited, []);
+    return edited;
+}
+
+// The 26 directions to the neighbours of a cube's centre, as unit vectors
+const PLACEMENT_DIRECTIONS: Vec3[] = [-1, 0, 1].flatMap(x => [-1, 0, 1].flatMap(y => [-1, 0, 1].map(z => [x, y, z] as Vec3)))
+    .filter(([x, y, z]) => x !== 0 || y !== 0 || z !== 0)
+    .map(([x, y, z]) => {
+        const length = Math.hypot(x, y, z);
+        return [x / length, y / length, z / length] as Vec3;
+    });
+
+/**
+ * Where a new atom bonded to `anchor` goes: at the reference bond length, in whichever direction
+ * keeps it furthest from the atoms already there.
+ */
+function placeBondedAtom(atoms: any[], anchor: number, element: string): Vec3 {
+    const origin = atoms[anchor].position as Vec3;
+    const length = getReferenceBondLength(atoms[anchor].element, element, 1) ?? DEFAULT_BOND_LENGTH;
+    let best = origin;
+    let bestClearance = -Infinity;
+    PLACEMENT_DIRECTIONS.forEach(direction => {
+        const candidate = origin.map((c, k) => c + direction[k] * length) as Vec3;
+        const clearance = Math.min(...atoms.map((atom, index) => index === anchor ? Infinity
+            : Math.hypot(atom.position[0] - candidate[0], atom.position[1] - candidate[1], atom.position[2] - candidate[2])));
+        if (clearance > bestClearance) {
+            best = candidate;
+            bestClearance = clearance;
+        }
+    });
+    return best;
+}
+
+/**
+ * Adds an atom, bonded with a single bond to `bondedTo` when given and otherwise set apart from
+ * the molecule. The new atom is the last one.
+ */
+export function addAtom(data: any, element: string, bondedTo: number | null): any {
+    const edited = copyModel(data);
+    const symbol = formatElementSymbol(element);
+    const atoms = edited.atoms;
+    let position: Vec3 = [0, 0, 0];
+    if (bondedTo !== null) {
+        position = placeBondedAtom(atoms, bondedTo, symbol);
+    } else if (atoms.length > 0) {
+        const maxX = Math.max(...atoms.map((atom: any) => atom.position[0]));
+        const centre = [1, 2].map(k => atoms.reduce((sum: number, atom: any) => sum + atom.position[k], 0) / atoms.length);
+        position = [maxX + FREE_ATOM_GAP, centre[0], centre[1]];
+    }
+    atoms.push({ element: symbol, position: roundPosition(position), vseprShape: 'N/A', bondAngles: [] });
+    const index = atoms.length - 1;
+    if (bondedTo !== null) {
+        edited.bonds = [...(edited.bonds || []), { start: bondedTo, end: index, type: 'single', energy: getBondEnergy(atoms[bondedTo].element, symbol, 1) }];
+    }
+    updateDerivedData(edited, bondedTo !== null ? [bondedTo, index] : [index]);
+    return edited;
+}
+
+/**
+ * Removes an atom and its bonds; atoms after it move down one index, and bonds follow them.
+ */
+export function deleteAtom(data: any, atomIndex: number): any {
+    const edited = copyModel(data);
+    const neighbours: number[] = [];
+    edited.atoms.splice(atomIndex, 1);
+    edited.bonds = (edited.bonds || []).filter((bond: any) => {
+        if (bond.start !== atomIndex && bond.end !== atomIndex) return true;
+        neighbours.push(bond.start === atomIndex ? bond.end : bond.start);
+        return false;
+    });
+    const shift = (index: number) => index > atomIndex ? index - 1 : index;
+    edited.bonds.forEach((bond: any) => {
+        bond.start = shift(bond.start);
+        bond.end = shift(bond.end);
+    });
+    updateDerivedData(edited, neighbours.map(shift));
+    return edited;
+}
+
+/**
+ * Bonds two atoms with the given order. Throws when they are the same atom or already bonded.
+ */
+export function addBond(data: any, start: number, end: number, order: number): any {
+    if (start === end) throw new Error('An atom cannot be bonded to itself.');
+    if ((data.bonds || []).some((bond: any) => (bond.start === start && bond.end === end) || (bond.start === end && bond.end === start))) {
+        throw new Error('These atoms are already bonded.');
+    }
+    const edited = copyModel(data);
+    const atoms = edited.atoms;
+    edited.bonds = [...(edited.bonds || []), { start, end, type: bondOrderToType(order), energy: getBondEnergy(atoms[start].element, atoms[end].element, order) }];
+    updateDerivedData(edited, [start, end]);
+    return edited;
+}
+
+export function deleteBond(data: any, bondIndex: number): any {
+    const edited = copyModel(data);
+    const [bond] = edited.bonds.splice(bondIndex, 1);
+    updateDerivedData(edited, [bond.start, bond.end]);
+    return edited;
+}
+
+export function setBondOrder(data: any, bondIndex: number, order: number): any {
+    const edited = copyModel(data);
+    const bond = edited.bonds[bondIndex];
+    bond.type = bondOrderToType(order);
+    bond.energy = getBondEnergy(edited.atoms[bond.start].element, edited.atoms[bond.end].element, order);
+    updateDerivedData(edited, [bond.start, bond.end]);
+    return edited;
+}
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AppMode } from './sessions';
+
+// --- Interfaces ---
+export interface ValidationIssue {
+    path: string; // where in the JSON, e.g. "faces[2].triangles[0].indices[1]"
+    message: string;
+}
+
+// The repair prompt lists at most this many issues; the rest are counted
+const MAX_PROMPT_ISSUES = 30;
+
+function describeType(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+// A child's path in the notation issues use, e.g. "faces[2].triangles"
+export function joinPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Checks a value against a Gemini `Type` schema: every type, every required property, and
+ * finite numbers. Properties the schema doesn't mention are allowed.
+ */
+export function validateSchema(value: any, schema: any, path = ''): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const at = path || '(root)';
+    switch (String(schema.type).toUpperCase()) {
+        case 'OBJECT':
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                issues.push({ path: at, message: `must be an object, got ${describeType(value)}` });
+                break;
+            }
+            (schema.required || []).forEach((key: string) => {
+                if (value[key] === undefined) issues.push({ path: joinPath(path, key), message: 'is required' });
+            });
+            Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+                if (value[key] !== undefined) issues.push(...validateSchema(value[key], propertySchema, joinPath(path, key)));
+            });
+            break;
+        case 'ARRAY':
+            if (!Array.isArray(value)) {
+                issues.push({ path: at, message: `must be an array, got ${describeType(value)}` });
+                break;
+            }
+            if (schema.items) value.forEach((item, i) => issues.push(...validateSchema(item, schema.items, joinPath(path, i))));
+            break;
+        case 'STRING':
+            if (typeof value !== 'string') issues.push({ path: at, message: `must be a string, got ${describeType(value)}` });
+            break;
+        case 'NUMBER':
+            if (typeof value !== 'number' || !isFinite(value)) issues.push({ path: at, message: `must be a finite number, got ${JSON.stringify(value)}` });
+            break;
+        case 'INTEGER':
+            if (!Number.isInteger(value)) issues.push({ path: at, message: `must be an integer, got ${JSON.stringify(value)}` });
+            break;
+        case 'BOOLEAN':
+            if (typeof value !== 'boolean') issues.push({ path: at, message: `must be true or false, got ${describeType(value)}` });
+            break;
+    }
+    return issues;
+}
+
+function checkVector(value: any, path: string, issues: ValidationIssue[]) {
+    if (Array.isArray(value) && value.length !== 3) {
+        issues.push({ path, message: `must have exactly 3 coordinates, got ${value.length}` });
+    }
+}
+
+function checkIndex(value: any, count: number, items: string, path: string, issues: ValidationIssue[]) {
+    if (Number.isInteger(value) && (value < 0 || value >= count)) {
+        issues.push({ path, message: `${value} is out of range (there are ${count} ${items}, numbered from 0)` });
+    }
+}
+
+// Only the shape of a symbol is checked; the element tables don't cover the whole periodic table
+function checkElement(value: any, path: string, issues: ValidationIssue[]) {
+    if (typeof value === 'string' && !/^[A-Za-z][a-z]?$/.test(value.trim())) {
+        issues.push({ path, message: `"${value}" is not an element symbol` });
+    }
+}
+
+// --- Per-Mode Checks ---
+// Run after the schema checks, so each assumes only what it tests for itself.
+function validateGeometryReferences(data: any, issues: ValidationIssue[]) {
+    const vertices = Array.isArray(data.vertices) ? data.vertices : [];
+    if (Array.isArray(data.vertices) && vertices.length < 4) {
+        issues.push({ path: 'vertices', message: `a solid needs at least 4 vertices, got ${vertices.length}` });
+    }
+    vertices.forEach((vertex: any, i: number) => checkVector(vertex, `vertices[${i}]`, issues));
+    if (Array.isArray(data.faces) && data.faces.length === 0) issues.push({ path: 'faces', message: 'must not be empty' });
+
+    (Array.isArray(data.faces) ? data.faces : []).forEach((face: any, f: number) => {
+        const triangles = Array.isArray(face?.triangles) ? face.triangles : [];
+        if (Array.isArray(face?.triangles) && triangles.length === 0) {
+            issues.push({ path: `faces[${f}].triangles`, message: 'must contain at least one triangle' });
+        }
+        triangles.forEach((triangle: any, t: number) => {
+            const path = `faces[${f}].triangles[${t}].indices`;
+            const indices = triangle?.indices;
+            if (!Array.isArray(indices)) return;
+            if (indices.length !== 3) {
+                issues.push({ path, message: `must have exactly 3 vertex indices, got ${indices.length}` });
+                return;
+            }
+            indices.forEach((index: any, k: number) => checkIndex(index, vertices.length, 'vertices', `${path}[${k}]`, issues));
+            if (new Set(indices).size < 3) issues.push({ path, message: `repeats a vertex (${indices.join(', ')}), so the triangle has no area` });
+        });
+    });
+
+    (Array.isArray(data.labels) ? data.labels : []).forEach((label: any, i: number) => checkVector(label?.position, `labels[${i}].position`, issues));
+}
+
+function validateChemistryReferences(data: any, issues: ValidationIssue[]) {
+    const atoms = Array.isArray(data.atoms) ? data.atoms : [];
+    if (Array.isArray(data.atoms) && atoms.length === 0) issues.push({ path: 'atoms', message: 'must not be empty' });
+
+    atoms.forEach((atom: any, i: number) => {
+        checkElement(atom?.element, `atoms[${i}].element`, issues);
+        checkVector(atom?.position, `atoms[${i}].position`, issues);
+        (Array.isArray(atom?.bondAngles) ? atom.bondAngles : []).forEach((angle: any, j: number) => {
+            const path = `atoms[${i}].bondAngles[${j}].atomsInvolvedIndices`;
+            const indices = angle?.atomsInvolvedIndices;
+            if (!Array.isArray(indices)) return;
+            if (indices.length !== 3) {
+                issues.push({ path, message: `must list exactly 3 atoms [end1, center, end2], got ${indices.length}` });
+                return;
+            }
+            indices.forEach((index: any, k: number) => checkIndex(index, atoms.length, 'atoms', `${path}[${k}]`, issues));
+            if (Number.isInteger(indices[1]) && indices[1] !== i) {
+                issues.push({ path: `${path}[1]`, message: `the center must be this atom (${i}), got ${indices[1]}` });
+            }
+        });
+    });
+
+    const seen = new Set<string>();
+    (Array.isArray(data.bonds) ? data.bonds : []).forEach((bond: any, i: number) => {
+        checkIndex(bond?.start, atoms.length, 'atoms', `bonds[${i}].start`, issues);
+        checkIndex(bond?.end, atoms.length, 'atoms', `bonds[${i}].end`, issues);
+        if (!Number.isInteger(bond?.start) || !Number.isInteger(bond?.end)) return;
+        if (bond.start === bond.end) issues.push({ path: `bonds[${i}]`, message: `bonds atom ${bond.start} to itself` });
+        const key = [bond.start, bond.end].sort((a, b) => a - b).join('-');
+        if (seen.has(key)) issues.push({ path: `bonds[${i}]`, message: `repeats the bond between atoms ${bond.start} and ${bond.end}` });
+        seen.add(key);
+    });
+}
+
+function validateCrystalReferences(data: any, issues: ValidationIssue[]) {
+    ['a', 'b', 'c'].forEach(key => {
+        const value = data.lattice?.[key];
+        if (typeof value === 'number' && !(value > 0)) issues.push({ path: `lattice.${key}`, message: `must be a positive length in Å, got ${value}` });
+    });
+    ['alpha', 'beta', 'gamma'].forEach(key => {
+        const value = data.lattice?.[key];
+        if (typeof value === 'number' && !(value > 0 && value < 180)) issues.push({ path: `lattice.${key}`, message: `must be between 0° and 180°, got ${value}` });
+    });
+
+    const basis = Array.isArray(data.basis) ? data.basis : [];
+    if (Array.isArray(data.basis) && basis.length === 0) issues.push({ path: 'basis', message: 'must not be empty' });
+    basis.forEach((atom: any, i: number) => {
+        checkElement(atom?.element, `basis[${i}].element`, issues);
+        checkVector(atom?.fractional, `basis[${i}].fractional`, issues);
+    });
+}
+
+const REFERENCE_CHECKS: { [mode in AppMode]: (data: any, issues: ValidationIssue[]) => void } = {
+    geometry: validateGeometryReferences,
+    chemistry: validateChemistryReferences,
+    crystal: validateCrystalReferences,
+};
+
+/**
+ * Everything wrong with an AI response for the mode: the schema it was asked to follow, plus
+ * what the schema can't say, such as indices pointing past the end of a list.
+ */
+export function validateModelData(mode: AppMode, data: any, schema: any): ValidationIssue[] {
+    const issues = validateSchema(data, schema);
+    if (typeof data === 'object' && data !== null) REFERENCE_CHECKS[mode](data, issues);
+    return issues;
+}
+
+/**
+ * The issues as a bullet list for the repair prompt.
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+    const lines = issues.slice(0, MAX_PROMPT_ISSUES).map(issue => `- ${issue.path}: ${issue.message}`);
+    if (issues.length > MAX_PROMPT_ISSUES) lines.push(`- ...and ${issues.length - MAX_PROMPT_ISSUES} more problems of the same kinds`);
+    return lines.join('\n');
+}
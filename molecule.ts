@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { COVALENT_RADII, VALENCES, VALENCE_ELECTRONS, normalizeElement, formatElementSymbol, bondOrderToType, parseBondOrder } from './elements';
+import { computeAngle, getReferenceBondLength } from './chemistryChecks';
+
+// --- Interfaces ---
+export interface RawAtom {
+    element: string;
+    position: [number, number, number];
+    charge?: number; // formal charge, when not zero
+}
+
+export interface RawBond {
+    start: number;
+    end: number;
+    order: number;
+}
+
+// Imports larger than this are refused; ball-and-stick rendering and O(n²) bond inference
+// are not meant for whole proteins.
+export const MAX_IMPORTED_ATOMS = 1000;
+
+// Added to the sum of covalent radii when deciding whether two atoms are bonded.
+const BOND_TOLERANCE = 0.4;
+
+// Average bond enthalpies in kJ/mol, keyed like the reference bond lengths.
+const BOND_ENERGIES: { [key: string]: number } = {
+    'H-H-1': 436, 'C-H-1': 413, 'H-N-1': 391, 'H-O-1': 463, 'H-S-1': 339, 'H-P-1': 322,
+    'F-H-1': 567, 'CL-H-1': 431, 'BR-H-1': 366, 'H-I-1': 299,
+    'C-C-1': 348, 'C-C-1.5': 518, 'C-C-2': 614, 'C-C-3': 839,
+    'C-N-1': 293, 'C-N-1.5': 460, 'C-N-2': 615, 'C-N-3': 891,
+    'C-O-1': 358, 'C-O-2': 745, 'C-O-3': 1072,
+    'C-F-1': 485, 'C-CL-1': 328, 'BR-C-1': 276, 'C-I-1': 240, 'C-S-1': 259, 'C-S-2': 577,
+    'N-N-1': 163, 'N-N-2': 418, 'N-N-3': 941, 'N-O-1': 201, 'N-O-2': 607,
+    'O-O-1': 146, 'O-O-2': 495, 'O-S-2': 523, 'O-P-2': 544,
+};
+
+const VSEPR_SHAPES: { [key: string]: string } = {
+    '2-0': 'Linear', '3-0': 'Trigonal Planar', '3-1': 'Bent',
+    '4-0': 'Tetrahedral', '4-1': 'Trigonal Pyramidal', '4-2': 'Bent',
+    '5-0': 'Trigonal Bipyramidal', '5-1': 'Seesaw', '5-2': 'T-shaped', '5-3': 'Linear',
+    '6-0': 'Octahedral', '6-1': 'Square Pyramidal', '6-2': 'Square Planar',
+};
+
+function bondKey(elementA: string, elementB: string, order: number): string {
+    const [a, b] = [normalizeElement(elementA), normalizeElement(elementB)].sort();
+    return `${a}-${b}-${order}`;
+}
+
+export function getBondEnergy(elementA: string, elementB: string, order: number): string {
+    const energy = BOND_ENERGIES[bondKey(elementA, elementB, order)];
+    return energy ? `${energy} kJ/mol` : 'N/A';
+}
+
+function distance(a: number[], b: number[]): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+/**
+ * Infers bonds from interatomic distances: two atoms are bonded when they are closer than the
+ * sum of their covalent radii plus a tolerance. Bond orders are then raised greedily, shortest
+ * bonds first, wherever a shorter multiple-bond reference length fits better and both atoms
+ * still have valence to spare.
+ */
+export function inferBonds(atoms: RawAtom[]): RawBond[] {
+    const candidates: { start: number, end: number, length: number, ratio: number }[] = [];
+    for (let i = 0; i < atoms.length; i++) {
+        const radiusA = COVALENT_RADII[normalizeElement(atoms[i].element)];
+        if (radiusA === undefined) continue;
+        for (let j = i + 1; j < atoms.length; j++) {
+            const radiusB = COVALENT_RADII[normalizeElement(atoms[j].element)];
+            if (radiusB === undefined) continue;
+            const length = distance(atoms[i].position, atoms[j].position);
+            if (length > 0.4 && length < radiusA + radiusB + BOND_TOLERANCE) {
+                candidates.push({ start: i, end: j, length, ratio: length / (radiusA + radiusB) });
+            }
+        }
+    }
+
+    const bonds: RawBond[] = candidates.map(c => ({ start: c.start, end: c.end, order: 1 }));
+    const used = atoms.map(() => 0);
+    bonds.forEach(bond => { used[bond.start]++; used[bond.end]++; });
+
+    const remaining = (index: number) => {
+        const valence = VALENCES[normalizeElement(atoms[index].element)];
+        return valence ? Math.max(...valence.typical) - used[index] : 0;
+    };
+
+    candidates
+        .map((candidate, index) => ({ ...candidate, index }))
+        .sort((a, b) => a.ratio - b.ratio)
+        .forEach(candidate => {
+            const bond = bonds[candidate.index];
+            const { element: elementA } = atoms[bond.start];
+            const { element: elementB } = atoms[bond.end];
+            let bestOrder = 1;
+            let bestError = Math.abs(candidate.length - (getReferenceBondLength(elementA, elementB, 1) ?? candidate.length));
+            [2, 3].forEach(order => {
+                const reference = getReferenceBondLength(elementA, elementB, order);
+                if (reference === null) return;
+                const extra = order - 1;
+                if (remaining(bond.start) < extra || remaining(bond.end) < extra) return;
+                const error = Math.abs(candidate.length - reference);
+                if (error < bestError) {
+                    bestError = error;
+                    bestOrder = order;
+                }
+            });
+            if (bestOrder > 1) {
+                used[bond.start] += bestOrder - 1;
+                used[bond.end] += bestOrder - 1;
+                bond.order = bestOrder;
+            }
+        });
+
+    return bonds;
+}
+
+/**
+ * Counts the non-bonding electron pairs left on an atom, or null for elements without a
+ * valence electron count.
+ */
+export function countLonePairs(element: string, bondOrderSum: number, charge = 0): number | null {
+    const valenceElectrons = VALENCE_ELECTRONS[normalizeElement(element)];
+    if (valenceElectrons === undefined) return null;
+    return Math.max(0, Math.floor((valenceElectrons - charge - bondOrderSum) / 2));
+}
+
+/**
+ * The bond angle VSEPR predicts between two neighbours, with the usual lone-pair
+ * compression (107° in NH3, 104.5° in H2O). Null where the angles are not all equal
+ * (trigonal bipyramidal and octahedral families).
+ */
+export function getIdealBondAngle(stericNumber: number, lonePairs: number): number | null {
+    if (stericNumber === 2) return 180;
+    if (stericNumber === 3) return lonePairs === 0 ? 120 : 119;
+    if (stericNumber === 4) return [109.47, 107, 104.5][lonePairs] ?? null;
+    return null;
+}
+
+/**
+ * Describes each atom's VSEPR shape from its neighbour count and lone pairs. Terminal atoms
+ * get "N/A", matching what the AI is asked to produce.
+ */
+export function deriveVseprShape(element: string, neighbourCount: number, bondOrderSum: number, charge = 0): string {
+    if (neighbourCount < 2) return 'N/A';
+    const lonePairs = countLonePairs(element, bondOrderSum, charge);
+    if (lonePairs === null) return 'N/A';
+    return VSEPR_SHAPES[`${neighbourCount + lonePairs}-${lonePairs}`] || 'N/A';
+}
+
+/**
+ * The bonds of chemistry JSON whose atom indices are in range, the same ones
+ * `buildChemistryModel` draws, with their orders as numbers.
+ */
+export function getValidBonds(data: any): RawBond[] {
+    return (data.bonds || [])
+        .filter((bond: any) => bond.start >= 0 && bond.start < data.atoms.length && bond.end >= 0 && bond.end < data.atoms.length && bond.start !== bond.end)
+        .map((bond: any) => ({ start: bond.start, end: bond.end, order: parseBondOrder(bond.type) }));
+}
+
+/**
+ * Lists every angle centred on `atomIndex` between pairs of its bonded neighbours,
+ * measured from the positions.
+ */
+export function computeBondAngles(atoms: RawAtom[], bonds: { start: number, end: number }[], atomIndex: number) {
+    const neighbours = bonds
+        .filter(b => b.start === atomIndex || b.end === atomIndex)
+        .map(b => (b.start === atomIndex ? b.end : b.start));
+
+    const angles: any[] = [];
+    for (let i = 0; i < neighbours.length; i++) {
+        for (let j = i + 1; j < neighbours.length; j++) {
+            const [a, b] = [neighbours[i], neighbours[j]];
+            const angle = computeAngle(atoms[a].position, atoms[atomIndex].position, atoms[b].position);
+            angles.push({
+                angle: `${angle.toFixed(1)}°`,
+                atomsInvolved: [a, atomIndex, b].map(index => formatElementSymbol(atoms[index].element)),
+                atomsInvolvedIndices: [a, atomIndex, b],
+            });
+        }
+    }
+    return angles;
+}
+
+/**
+ * Turns bare atoms and bonds into the chemistry JSON schema used by `buildChemistryModel`,
+ * filling in VSEPR shapes, measured bond angles and average bond energies locally.
+ */
+export function buildChemistryData(atoms: RawAtom[], bonds: RawBond[], name: string): any {
+    const bondOrderSums = atoms.map(() => 0);
+    const neighbourCounts = atoms.map(() => 0);
+    bonds.forEach(bond => {
+        bondOrderSums[bond.start] += bond.order;
+        bondOrderSums[bond.end] += bond.order;
+        neighbourCounts[bond.start]++;
+        neighbourCounts[bond.end]++;
+    });
+
+    const hasMetal = atoms.some(atom => COVALENT_RADII[normalizeElement(atom.element)] !== undefined
+        && VALENCES[normalizeElement(atom.element)] === undefined && normalizeElement(atom.element) !== 'H');
+
+    return {
+        atoms: atoms.map((atom, index) => ({
+            element: formatElementSymbol(atom.element),
+            position: atom.position.map(c => Number(c.toFixed(4))),
+            ...(atom.charge ? { charge: atom.charge } : {}),
+            vseprShape: deriveVseprShape(atom.element, neighbourCounts[index], bondOrderSums[index], atom.charge),
+            bondAngles: computeBondAngles(atoms, bonds, index),
+        })),
+        bonds: bonds.map(bond => ({
+            start: bond.start,
+            end: bond.end,
+            type: bondOrderToType(bond.order),
+            energy: getBondEnergy(atoms[bond.start].element, atoms[bond.end].element, bond.order),
+        })),
+        analysis: {
+            name: name || 'Unknown molecule',
+            bondingType: hasMetal ? 'Ionic / Metallic' : 'Covalent',
+        },
+    };
+}
@@ -0,0 +1,479 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as THREE from 'three';
+import { cross, dot, getFaceTriangles, normalize, scale, sub } from './meshMetrics';
+
+type Vec3 = [number, number, number];
+type Vec2 = [number, number];
+
+/**
+ * One face of the net. Rotating it by `angle` about the hinge line (through `hingePoint` along
+ * `hingeAxis`) lays it into its parent's plane; the rotations compose down the tree, so a face's
+ * final position also includes every ancestor's rotation.
+ */
+export interface NetFace {
+    faceIndex: number;
+    parent: number | null; // index into `PolyhedronNet.faces`
+    hingePoint: Vec3;
+    hingeAxis: Vec3;
+    angle: number;
+    triangles: Vec3[][];
+    loops: Vec3[][]; // outer boundary and hole outlines
+    centroid: Vec3;
+    normal: Vec3;
+}
+
+/** A face of the flattened net, in 2D coordinates of the base face's plane. */
+export interface FlatFace {
+    faceIndex: number;
+    triangles: Vec2[][];
+    loops: Vec2[][];
+    centroid: Vec2;
+}
+
+export interface PolyhedronNet {
+    faces: NetFace[]; // parents come before their children
+    flatFaces: FlatFace[];
+    cuts: [Vec2, Vec2][]; // edges cut open to flatten the solid
+    folds: [Vec2, Vec2][]; // edges the net is folded along
+    overlaps: boolean; // no tree that was tried lays every face apart
+}
+
+// Points closer than this fraction of the model size are the same point
+const WELD_FRACTION = 1e-6;
+// Faces whose vertices stray further than this fraction of the model size from their plane are curved
+const PLANARITY_FRACTION = 1e-3;
+// Spanning trees grown breadth-first from this many root faces are tried when the first overlaps
+const MAX_ROOT_ATTEMPTS = 24;
+// Above this many triangles only the first spanning tree is tried
+const MAX_RETRY_TRIANGLES = 1500;
+// Triangle pairs overlapping by less than this fraction of the net size are only touching
+const OVERLAP_FRACTION = 1e-6;
+
+interface BoundaryEdge {
+    a: string;
+    b: string;
+    opposite: Vec3; // the third corner of the triangle the edge belongs to, marking the face's side
+}
+
+interface FaceInfo {
+    faceIndex: number;
+    triangles: Vec3[][];
+    normal: Vec3;
+    area: number;
+    centroid: Vec3;
+    boundary: Map<string, BoundaryEdge>;
+    loops: string[][];
+}
+
+interface Adjacency {
+    neighbour: number;
+    edges: string[];
+    hinge: BoundaryEdge;
+    hingeLength: number;
+}
+
+function edgeKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// Chains a face's boundary edges into closed outlines
+function chainLoops(boundary: Map<string, BoundaryEdge>): string[][] {
+    const adjacency = new Map<string, string[]>();
+    boundary.forEach(({ a, b }, key) => {
+        if (!adjacency.has(a)) adjacency.set(a, []);
+        if (!adjacency.has(b)) adjacency.set(b, []);
+        adjacency.get(a)!.push(key);
+        adjacency.get(b)!.push(key);
+    });
+
+    const visited = new Set<string>();
+    const loops: string[][] = [];
+    boundary.forEach((_, startKey) => {
+        if (visited.has(startKey)) return;
+        const start = boundary.get(startKey)!.a;
+        const loop = [start];
+        let current = start;
+        while (true) {
+            const next = (adjacency.get(current) || []).find(key => !visited.has(key));
+            if (!next) break;
+            visited.add(next);
+            const edge = boundary.get(next)!;
+            current = edge.a === current ? edge.b : edge.a;
+            if (current === start) break;
+            loop.push(current);
+        }
+        if (loop.length >= 3) loops.push(loop);
+    });
+    return loops;
+}
+
+/**
+ * Collects each face group's triangles, plane and outline. Throws when a face is curved, since
+ * only flat faces can hinge into a net.
+ */
+function collectFaces(data: any): { faces: FaceInfo[], points: Map<string, Vec3>, size: number } {
+    const vertices: Vec3[] = Array.isArray(data?.vertices) ? data.vertices : [];
+    const faceGroups: any[] = Array.isArray(data?.faces) ? data.faces : [];
+    const groupTriangles = faceGroups.map(faceGroup => getFaceTriangles(faceGroup, vertices));
+
+    const box = new THREE.Box3();
+    groupTriangles.flat(2).forEach(index => box.expandByPoint(new THREE.Vector3().fromArray(vertices[index])));
+    const boxSize = box.isEmpty() ? new THREE.Vector3() : box.getSize(new THREE.Vector3());
+    const size = Math.max(boxSize.x, boxSize.y, boxSize.z) || 1;
+
+    // Weld by position so faces that repeat a corner as separate vertices still share edges
+    const weld = WELD_FRACTION * size;
+    const points = new Map<string, Vec3>();
+    const keyFor = (index: number) => {
+        const p = vertices[index];
+        const key = p.map(c => Math.round(c / weld)).join(',');
+        if (!points.has(key)) points.set(key, p);
+        return key;
+    };
+
+    const faces: FaceInfo[] = [];
+    groupTriangles.forEach((triangles, faceIndex) => {
+        if (triangles.length === 0) return;
+        let weightedNormal: Vec3 = [0, 0, 0];
+        let weightedCentroid: Vec3 = [0, 0, 0];
+        let area = 0;
+        const edgeUses = new Map<string, BoundaryEdge & { count: number }>();
+
+        triangles.forEach(triangle => {
+            const [a, b, c] = triangle.map(i => vertices[i]);
+            const n = cross(sub(b, a), sub(c, a));
+            const triangleArea = Math.hypot(...n) / 2;
+            weightedNormal = [weightedNormal[0] + n[0], weightedNormal[1] + n[1], weightedNormal[2] + n[2]];
+            const centroid = scale([a[0] + b[0] + c[0], a[1] + b[1] + c[1], a[2] + b[2] + c[2]], 1 / 3);
+            weightedCentroid = [
+                weightedCentroid[0] + centroid[0] * triangleArea,
+                weightedCentroid[1] + centroid[1] * triangleArea,
+                weightedCentroid[2] + centroid[2] * triangleArea,
+            ];
+            area += triangleArea;
+
+            const keys = triangle.map(keyFor);
+            [[0, 1, 2], [1, 2, 0], [2, 0, 1]].forEach(([i, j, k]) => {
+                if (keys[i] === keys[j]) return;
+                const key = edgeKey(keys[i], keys[j]);
+                const use = edgeUses.get(key);
+                if (use) use.count++;
+                else edgeUses.set(key, { a: keys[i], b: keys[j], opposite: vertices[triangle[k]], count: 1 });
+            });
+        });
+        if (area <= 0 || Math.hypot(...weightedNormal) === 0) return;
+
+        const normal = normalize(weightedNormal);
+        const centroid = scale(weightedCentroid, 1 / area);
+        const offPlane = triangles.flat().some(i => Math.abs(dot(sub(vertices[i], centroid), normal)) > PLANARITY_FRACTION * size);
+        if (offPlane) {
+            throw new Error(`Face ${faceIndex + 1} is curved, so the solid can't be unfolded into a flat net.`);
+        }
+
+        const boundary = new Map<string, BoundaryEdge>();
+        edgeUses.forEach(({ a, b, opposite, count }, key) => {
+            if (count === 1) boundary.set(key, { a, b, opposite });
+        });
+        faces.push({ faceIndex, triangles: triangles.map(t => t.map(i => vertices[i])), normal, area, centroid, boundary, loops: chainLoops(boundary) });
+    });
+    return { faces, points, size };
+}
+
+// Faces sharing at least one outline edge; the longest shared edge is their hinge
+function findAdjacency(faces: FaceInfo[], points: Map<string, Vec3>): Adjacency[][] {
+    const owners = new Map<string, number[]>();
+    faces.forEach((face, index) => face.boundary.forEach((_, key) => {
+        if (!owners.has(key)) owners.set(key, []);
+        owners.get(key)!.push(index);
+    }));
+
+    const adjacency: Adjacency[][] = faces.map(() => []);
+    owners.forEach((faceIndices, key) => {
+        // Edges with more than two faces (where solids touch along a line) aren't hinges
+        if (faceIndices.length !== 2) return;
+        const [first, second] = faceIndices;
+        [[first, second], [second, first]].forEach(([from, to]) => {
+            const edge = faces[from].boundary.get(key)!;
+            const length = Math.hypot(...sub(points.get(edge.b)!, points.get(edge.a)!));
+            const existing = adjacency[from].find(entry => entry.neighbour === to);
+            if (!existing) {
+                adjacency[from].push({ neighbour: to, edges: [key], hinge: edge, hingeLength: length });
+                return;
+            }
+            existing.edges.push(key);
+            if (length > existing.hingeLength) {
+                existing.hinge = edge;
+                existing.hingeLength = length;
+            }
+        });
+    });
+    adjacency.forEach(entries => entries.sort((x, y) => y.hingeLength - x.hingeLength));
+    return adjacency;
+}
+
+// Prim's algorithm on hinge length: long hinges keep big faces joined, which gives compact nets
+function maximumSpanningTree(faces: FaceInfo[], adjacency: Adjacency[][], root: number): (number | null)[] {
+    const parents: (number | null)[] = faces.map(() => null);
+    const inTree = new Set([root]);
+    while (inTree.size < faces.length) {
+        let best: { from: number, to: number, length: number } | null = null;
+        inTree.forEach(from => adjacency[from].forEach(({ neighbour, hingeLength }) => {
+            if (!inTree.has(neighbour) && (!best || hingeLength > best.length)) best = { from, to: neighbour, length: hingeLength };
+        }));
+        if (!best) break;
+        const { from, to } = best as { from: number, to: number };
+        parents[to] = from;
+        inTree.add(to);
+    }
+    return inTree.size === faces.length ? parents : [];
+}
+
+// Every face hinged to the root, or to a face as close to it as possible, like petals around it
+function breadthFirstTree(faces: FaceInfo[], adjacency: Adjacency[][], root: number): (number | null)[] {
+    const parents: (number | null)[] = faces.map(() => null);
+    const seen = new Set([root]);
+    const queue = [root];
+    while (queue.length > 0) {
+        const from = queue.shift()!;
+        adjacency[from].forEach(({ neighbour }) => {
+            if (seen.has(neighbour)) return;
+            seen.add(neighbour);
+            parents[neighbour] = from;
+            queue.push(neighbour);
+        });
+    }
+    return seen.size === faces.length ? parents : [];
+}
+
+/**
+ * The rotation about the shared hinge that turns `child` into `parent`'s plane, on the far side
+ * of the hinge from the parent. Both faces are taken in their original, folded positions.
+ */
+function getHingeAngle(parentEdge: BoundaryEdge, childEdge: BoundaryEdge, points: Map<string, Vec3>): { point: Vec3, axis: Vec3, angle: number } {
+    const point = points.get(childEdge.a)!;
+    const axis = normalize(sub(points.get(childEdge.b)!, point));
+    const side = (opposite: Vec3) => {
+        const w = sub(opposite, point);
+        return sub(w, scale(axis, dot(w, axis)));
+    };
+    const parentSide = side(parentEdge.opposite);
+    const childSide = side(childEdge.opposite);
+    const target = scale(parentSide, -1);
+    const angle = Math.atan2(dot(axis, cross(childSide, target)), dot(childSide, target));
+    return { point, axis, angle };
+}
+
+function getNetTransform(faces: NetFace[], index: number, cache: Map<number, THREE.Matrix4>): THREE.Matrix4 {
+    const cached = cache.get(index);
+    if (cached) return cached;
+    const face = faces[index];
+    const matrix = face.parent === null ? new THREE.Matrix4() : getNetTransform(faces, face.parent, cache).clone().multiply(getHingeMatrix(face, 1));
+    cache.set(index, matrix);
+    return matrix;
+}
+
+/**
+ * The rotation of a face about its hinge, `progress` of the way from folded (0) to flat (1).
+ */
+export function getHingeMatrix(face: NetFace, progress: number): THREE.Matrix4 {
+    const [px, py, pz] = face.hingePoint;
+    return new THREE.Matrix4().makeTranslation(px, py, pz)
+        .multiply(new THREE.Matrix4().makeRotationAxis(new THREE.Vector3().fromArray(face.hingeAxis), face.angle * progress))
+        .multiply(new THREE.Matrix4().makeTranslation(-px, -py, -pz));
+}
+
+function triangleOverlap(a: Vec2[], b: Vec2[], tolerance: number): boolean {
+    // Separating axis test: the triangles overlap unless some edge normal separates them
+    for (const triangle of [a, b]) {
+        for (let i = 0; i < 3; i++) {
+            const [x0, y0] = triangle[i];
+            const [x1, y1] = triangle[(i + 1) % 3];
+            const axis: Vec2 = [y0 - y1, x1 - x0];
+            const length = Math.hypot(...axis);
+            if (length === 0) continue;
+            const project = (p: Vec2) => (p[0] * axis[0] + p[1] * axis[1]) / length;
+            const aValues = a.map(project), bValues = b.map(project);
+            if (Math.max(...aValues) - tolerance <= Math.min(...bValues) || Math.max(...bValues) - tolerance <= Math.min(...aValues)) return false;
+        }
+    }
+    return true;
+}
+
+function hasOverlaps(flatFaces: FlatFace[], tolerance: number): boolean {
+    const triangles = flatFaces.flatMap((face, faceIndex) => face.triangles.map(triangle => {
+        const xs = triangle.map(p => p[0]), ys = triangle.map(p => p[1]);
+        return { faceIndex, triangle, minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+    }));
+    for (let i = 0; i < triangles.length; i++) {
+        for (let j = i + 1; j < triangles.length; j++) {
+            const a = triangles[i], b = triangles[j];
+            if (a.faceIndex === b.faceIndex) continue;
+            if (a.maxX - tolerance <= b.minX || b.maxX - tolerance <= a.minX || a.maxY - tolerance <= b.minY || b.maxY - tolerance <= a.minY) continue;
+            if (triangleOverlap(a.triangle, b.triangle, tolerance)) return true;
+        }
+    }
+    return false;
+}
+
+function buildNet(faces: FaceInfo[], adjacency: Adjacency[][], points: Map<string, Vec3>, parents: (number | null)[], root: number): PolyhedronNet {
+    // Order faces so parents come first, keeping indices into `faces` for the tree links
+    const order: number[] = [root];
+    for (let i = 0; i < order.length; i++) {
+        parents.forEach((parent, child) => {
+            if (parent === order[i]) order.push(child);
+        });
+    }
+    const position = new Map(order.map((faceIndex, i) => [faceIndex, i]));
+
+    const netFaces: NetFace[] = order.map(index => {
+        const face = faces[index];
+        const parent = parents[index];
+        let hinge = { point: [0, 0, 0] as Vec3, axis: [1, 0, 0] as Vec3, angle: 0 };
+        if (parent !== null) {
+            const link = adjacency[index].find(entry => entry.neighbour === parent)!;
+            const parentEdge = faces[parent].boundary.get(edgeKey(link.hinge.a, link.hinge.b))!;
+            hinge = getHingeAngle(parentEdge, link.hinge, points);
+        }
+        return {
+            faceIndex: face.faceIndex,
+            parent: parent === null ? null : position.get(parent)!,
+            hingePoint: hinge.point,
+            hingeAxis: hinge.axis,
+            angle: hinge.angle,
+            triangles: face.triangles,
+            loops: face.loops.map(loop => loop.map(key => points.get(key)!)),
+            centroid: face.centroid,
+            normal: face.normal,
+        };
+    });
+
+    // Flatten into the base face's plane: u and v span it, with the base face's centroid at the origin
+    const base = faces[root];
+    const axis: Vec3 = Math.abs(base.normal[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+    const u = normalize(cross(axis, base.normal));
+    const v = cross(base.normal, u);
+    const cache = new Map<number, THREE.Matrix4>();
+    const flatten = (index: number) => {
+        const matrix = getNetTransform(netFaces, index, cache);
+        return (p: Vec3): Vec2 => {
+            const q = new THREE.Vector3().fromArray(p).applyMatrix4(matrix).toArray() as Vec3;
+            const d = sub(q, base.centroid);
+            return [dot(d, u), dot(d, v)];
+        };
+    };
+
+    // Every edge a face shares with its parent is a fold, not only the hinge itself
+    const parentEdges = order.map(index => {
+        const parent = parents[index];
+        return new Set(parent === null ? [] : adjacency[index].find(entry => entry.neighbour === parent)!.edges);
+    });
+    const foldKeys = new Set(parentEdges.flatMap(edges => [...edges]));
+    const cuts: [Vec2, Vec2][] = [];
+    const folds: [Vec2, Vec2][] = [];
+    const flatFaces = netFaces.map((netFace, index) => {
+        const toFlat = flatten(index);
+        faces[order[index]].boundary.forEach(({ a, b }, key) => {
+            const segment: [Vec2, Vec2] = [toFlat(points.get(a)!), toFlat(points.get(b)!)];
+            // A fold is drawn once, from the child's side
+            if (!foldKeys.has(key)) cuts.push(segment);
+            else if (parentEdges[index].has(key)) folds.push(segment);
+        });
+        return {
+            faceIndex: netFace.faceIndex,
+            triangles: netFace.triangles.map(triangle => triangle.map(toFlat)),
+            loops: netFace.loops.map(loop => loop.map(toFlat)),
+            centroid: toFlat(netFace.centroid),
+        };
+    });
+    return { faces: netFaces, flatFaces, cuts, folds, overlaps: false };
+}
+
+/**
+ * Unfolds the solid along a spanning tree of its face adjacency. The maximum spanning tree on
+ * hinge length is tried first, then breadth-first trees from the largest faces; the first net
+ * whose faces don't overlap is returned, or the first one tried, marked as overlapping.
+ */
+export function computeNet(data: any): PolyhedronNet {
+    const { faces, points, size } = collectFaces(data);
+    if (faces.length === 0) throw new Error('The model has no faces to unfold.');
+    const adjacency = findAdjacency(faces, points);
+
+    const roots = faces.map((_, index) => index).sort((a, b) => faces[b].area - faces[a].area);
+    const candidates: { parents: (number | null)[], root: number }[] = [
+        { parents: maximumSpanningTree(faces, adjacency, roots[0]), root: roots[0] },
+        ...roots.slice(0, MAX_ROOT_ATTEMPTS).map(root => ({ parents: breadthFirstTree(faces, adjacency, root), root })),
+    ];
+    if (candidates[0].parents.length === 0) {
+        throw new Error("The faces don't form one connected surface, so they can't be unfolded into a single net.");
+    }
+
+    // Overlap tests compare every pair of triangles, so finely meshed solids only get one try
+    const triangleCount = faces.reduce((total, face) => total + face.triangles.length, 0);
+    const attempts = triangleCount > MAX_RETRY_TRIANGLES ? candidates.slice(0, 1) : candidates;
+
+    let first: PolyhedronNet | null = null;
+    for (const { parents, root } of attempts) {
+        const net = buildNet(faces, adjacency, points, parents, root);
+        if (!hasOverlaps(net.flatFaces, OVERLAP_FRACTION * size)) return net;
+        first = first || net;
+    }
+    return { ...first!, overlaps: true };
+}
+
+// --- SVG ---
+const SVG_PHYSICAL_UNITS = ['mm', 'cm', 'in'];
+const SVG_PIXEL_WIDTH = 800;
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Writes the flattened net as SVG: faces filled, cut lines solid and fold lines dashed, with each
+ * face's label at its centroid. In mm, cm or inches the drawing prints at the model's real size.
+ */
+export function writeNetSvg(net: PolyhedronNet, labels: string[], unit: string): string {
+    const allPoints = net.flatFaces.flatMap(face => face.loops.flat());
+    const xs = allPoints.map(p => p[0]), ys = allPoints.map(p => -p[1]);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    const margin = Math.max(width, height) * 0.05;
+    const minX = Math.min(...xs) - margin, minY = Math.min(...ys) - margin;
+    const totalWidth = width + 2 * margin, totalHeight = height + 2 * margin;
+
+    const physicalUnit = SVG_PHYSICAL_UNITS.find(u => u === unit.toLowerCase());
+    const pixelScale = SVG_PIXEL_WIDTH / totalWidth;
+    const widthAttr = physicalUnit ? `${totalWidth}${physicalUnit}` : `${SVG_PIXEL_WIDTH}`;
+    const heightAttr = physicalUnit ? `${totalHeight}${physicalUnit}` : `${totalHeight * pixelScale}`;
+    const strokeWidth = Math.max(width, height) * 0.003;
+    const fontSize = Math.max(width, height) * 0.025;
+
+    // SVG's y axis points down, so flip the net to keep it the way round it appears in the viewer
+    const format = (p: Vec2) => `${Number(p[0].toFixed(4))} ${Number((-p[1]).toFixed(4))}`;
+    const paths = net.flatFaces.map(face =>
+        `<path d="${face.loops.map(loop => `M ${loop.map(format).join(' L ')} Z`).join(' ')}"/>`);
+    const lines = (segments: [Vec2, Vec2][]) => segments.map(([a, b]) => `<path d="M ${format(a)} L ${format(b)}"/>`);
+    const texts = net.flatFaces.map((face, index) => labels[index]
+        ? `<text x="${Number(face.centroid[0].toFixed(4))}" y="${Number((-face.centroid[1]).toFixed(4))}">${escapeXml(labels[index])}</text>`
+        : '');
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${widthAttr}" height="${heightAttr}" viewBox="${minX} ${minY} ${totalWidth} ${totalHeight}">`,
+        `<g fill="#e0f7f4" stroke="none" fill-rule="evenodd">`,
+        ...paths,
+        `</g>`,
+        `<g fill="none" stroke="#000" stroke-width="${strokeWidth}" stroke-linecap="round">`,
+        ...lines(net.cuts),
+        `</g>`,
+        `<g fill="none" stroke="#555" stroke-width="${strokeWidth}" stroke-dasharray="${strokeWidth * 4} ${strokeWidth * 3}">`,
+        ...lines(net.folds),
+        `</g>`,
+        `<g font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" dominant-baseline="middle" fill="#000">`,
+        ...texts.filter(text => text),
+        `</g>`,
+        `</svg>`,
+    ].join('\n') + '\n';
+}
@@ -0,0 +1,638 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, Content } from '@google/genai';
+
+// --- Provider Interfaces ---
+export interface ImageInput {
+    data: string; // base64, without the data URL prefix
+    mimeType: string;
+    role?: string; // what the image shows, e.g. 'front view' or 'page 2'
+}
+
+export interface GenerateRequest {
+    task: string; // e.g. 'geometry' or 'chemistry'; fixture replay is keyed on this
+    prompt: string;
+    images?: ImageInput[];
+    schema?: any;
+    thinkingBudget?: number;
+    signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+    text: string;
+    blockReason?: string;
+}
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface ProviderChat {
+    sendMessage(message: string, signal?: AbortSignal): Promise<string>;
+    sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export interface AIProvider {
+    readonly name: string;
+    generate(request: GenerateRequest): Promise<GenerateResult>;
+    generateStream(request: GenerateRequest): AsyncGenerator<string>;
+    createChat(history: ChatTurn[]): ProviderChat;
+}
+
+export type ProviderKind = 'gemini' | 'local' | 'fixture';
+
+/**
+ * What went wrong with a generation, which decides what the student is offered next.
+ * 'invalidJson' and 'modelBuild' are raised by the app once a response has arrived.
+ */
+export type GenerationErrorKind = 'network' | 'timeout' | 'rateLimit' | 'safety' | 'invalidJson' | 'modelBuild' | 'cancelled' | 'unknown';
+
+export interface GenerationError extends Error {
+    kind: GenerationErrorKind;
+    retryable: boolean; // worth retrying automatically: the same request may succeed in a moment
+}
+
+export interface RequestPolicy {
+    timeoutMs: number; // per attempt
+    retries: number; // extra attempts after the first, for retryable failures only
+}
+
+export interface RetryOptions extends RequestPolicy {
+    signal?: AbortSignal;
+    onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void; // attempt counts from 2
+}
+
+export interface FixtureSet {
+    version: number;
+    generate: { [task: string]: string[] };
+    chat: string[];
+}
+
+// --- Shared Helpers ---
+function abortError(): Error {
+    const error = new Error('The request was cancelled.');
+    error.name = 'AbortError';
+    return error;
+}
+
+/**
+ * Rejects as soon as the signal aborts, for SDK calls that cannot be cancelled themselves.
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(abortError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+            error => { signal.removeEventListener('abort', onAbort); reject(error); },
+        );
+    });
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return raceAbort(new Promise(resolve => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * The text sent just before an image so the prompt can tell several views apart. A single
+ * image without a role needs no caption.
+ */
+function getImageCaption(image: ImageInput, index: number, count: number): string | null {
+    if (count === 1 && !image.role) return null;
+    return `Image ${index + 1} of ${count}${image.role ? ` (${image.role})` : ''}:`;
+}
+
+/**
+ * Converts a Gemini `Type`-based schema into plain JSON Schema for OpenAI-compatible servers.
+ */
+export function toJsonSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') return schema;
+    const result: any = {};
+    if (schema.type) result.type = String(schema.type).toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        result.properties = {};
+        Object.entries(schema.properties).forEach(([key, value]) => {
+            result.properties[key] = toJsonSchema(value);
+        });
+    }
+    if (schema.required) result.required = schema.required;
+    return result;
+}
+
+// --- Gemini Adapter ---
+export interface GeminiProviderOptions {
+    apiKey?: string;
+    generationModel?: string;
+    chatModel?: string;
+}
+
+export function createGeminiProvider(options: GeminiProviderOptions = {}): AIProvider {
+    const ai = new GoogleGenAI({ apiKey: options.apiKey });
+    const generationModel = options.generationModel || 'gemini-2.5-pro';
+    const chatModel = options.chatModel || 'gemini-2.5-flash';
+
+    const buildParams = (request: GenerateRequest) => {
+        const parts: any[] = [{ text: request.prompt }];
+        (request.images || []).forEach((image, index, images) => {
+            const caption = getImageCaption(image, index, images.length);
+            if (caption) parts.push({ text: caption });
+            parts.push({ inlineData: { mimeType: image.mimeType, data: image.data } });
+        });
+
+        const config: any = {};
+        if (request.schema) {
+            config.responseMimeType = 'application/json';
+            config.responseSchema = request.schema;
+        }
+        if (request.thinkingBudget) {
+            config.thinkingConfig = { thinkingBudget: request.thinkingBudget };
+        }
+        return { model: generationModel, contents: [{ parts }], config };
+    };
+
+    return {
+        name: 'Gemini',
+
+        async generate(request) {
+            const response = await raceAbort(ai.models.generateContent(buildParams(request)), request.signal);
+            return { text: response.text || '', blockReason: response.promptFeedback?.blockReason };
+        },
+
+        async *generateStream(request) {
+            const stream = await raceAbort(ai.models.generateContentStream(buildParams(request)), request.signal);
+            for await (const chunk of stream) {
+                if (request.signal?.aborted) throw abortError();
+                if (chunk.text) yield chunk.text;
+            }
+        },
+
+        createChat(history) {
+            const contents: Content[] = history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+            let chat = ai.chats.create({ model: chatModel, history: contents });
+            return {
+                async sendMessage(message, signal) {
+                    const response = await raceAbort(chat.sendMessage({ message }), signal);
+                    return response.text || '';
+                },
+                async *sendMessageStream(message, signal) {
+                    let answer = '';
+                    let finished = false;
+                    try {
+                        const stream = await raceAbort(chat.sendMessageStream({ message }), signal);
+                        for await (const chunk of stream) {
+                            if (signal?.aborted) throw abortError();
+                            if (chunk.text) {
+                                answer += chunk.text;
+                                yield chunk.text;
+                            }
+                        }
+                        finished = true;
+                    } finally {
+                        // The SDK only records a turn when its stream ends, so a stopped answer is added by hand
+                        if (!finished) {
+                            chat = ai.chats.create({
+                                model: chatModel,
+                                history: [
+                                    ...chat.getHistory(true),
+                                    { role: 'user', parts: [{ text: message }] },
+                                    { role: 'model', parts: [{ text: answer }] },
+                                ],
+                            });
+                        }
+                    }
+                },
+            };
+        },
+    };
+}
+
+// --- OpenAI-Compatible Local Adapter ---
+export interface LocalProviderOptions {
+    baseUrl?: string;
+    model?: string;
+    apiKey?: string;
+}
+
+export function createLocalProvider(options: LocalProviderOptions = {}): AIProvider {
+    const baseUrl = (options.baseUrl || 'http://localhost:11434/v1').replace(/\/+$/, '');
+    const model = options.model || 'llava';
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) headers['Authorization'] = `Bearer ${options.apiKey}`;
+
+    const toMessages = (request: GenerateRequest) => {
+        const content: any[] = [{ type: 'text', text: request.prompt }];
+        (request.images || []).forEach((image, index, images) => {
+            const caption = getImageCaption(image, index, images.length);
+            if (caption) content.push({ type: 'text', text: caption });
+            content.push({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } });
+        });
+        return [{ role: 'user', content }];
+    };
+
+    const buildBody = (messages: any[], schema: any, stream: boolean) => {
+        const body: any = { model, messages, stream };
+        if (schema) {
+            body.response_format = {
+                type: 'json_schema',
+                json_schema: { name: 'model_data', schema: toJsonSchema(schema) },
+            };
+        }
+        return body;
+    };
+
+    const post = async (body: any, signal?: AbortSignal) => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`Local AI endpoint returned ${response.status}${detail ? `: ${detail}` : ''}`);
+        }
+        return response;
+    };
+
+    const complete = async (messages: any[], schema: any, signal?: AbortSignal): Promise<string> => {
+        const response = await post(buildBody(messages, schema, false), signal);
+        const json = await response.json();
+        return json.choices?.[0]?.message?.content || '';
+    };
+
+    // Parses the server-sent event stream used by OpenAI-style `stream: true` responses.
+    async function* streamCompletion(messages: any[], schema: any, signal?: AbortSignal): AsyncGenerator<string> {
+        const response = await post(buildBody(messages, schema, true), signal);
+        if (!response.body) throw new Error('Local AI endpoint returned no response body.');
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) continue;
+                    const payload = trimmed.slice(5).trim();
+                    if (payload === '[DONE]') return;
+                    try {
+                        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+                        if (delta) yield delta;
+                    } catch {
+                        console.warn('Skipping malformed stream chunk:', payload);
+                    }
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    }
+
+    return {
+        name: 'Local AI',
+
+        async generate(request) {
+            return { text: await complete(toMessages(request), request.schema, request.signal) };
+        },
+
+        generateStream(request) {
+            return streamCompletion(toMessages(request), request.schema, request.signal);
+        },
+
+        createChat(history) {
+            const messages: any[] = history.map(turn => ({
+                role: turn.role === 'model' ? 'assistant' : 'user',
+                content: turn.text,
+            }));
+            return {
+                async sendMessage(message, signal) {
+                    const outgoing = [...messages, { role: 'user', content: message }];
+                    const answer = await complete(outgoing, null, signal);
+                    messages.push({ role: 'user', content: message }, { role: 'assistant', content: answer });
+                    return answer;
+                },
+                async *sendMessageStream(message, signal) {
+                    const outgoing = [...messages, { role: 'user', content: message }];
+                    let answer = '';
+                    try {
+                        for await (const delta of streamCompletion(outgoing, null, signal)) {
+                            answer += delta;
+                            yield delta;
+                        }
+                    } finally {
+                        // Keep whatever arrived so the conversation stays consistent after a stop.
+                        messages.push({ role: 'user', content: message }, { role: 'assistant', content: answer });
+                    }
+                },
+            };
+        },
+    };
+}
+
+// --- Fixture Replay Provider ---
+export interface FixtureProviderOptions {
+    fixtures?: FixtureSet;
+    url?: string;
+    chunkDelayMs?: number;
+}
+
+export function createFixtureProvider(options: FixtureProviderOptions = {}): AIProvider {
+    const url = options.url || '/fixtures/default.json';
+    const chunkDelayMs = options.chunkDelayMs ?? 20;
+    let fixturesPromise: Promise<FixtureSet> | null = options.fixtures ? Promise.resolve(options.fixtures) : null;
+    const generateCursor: { [task: string]: number } = {};
+    let chatCursor = 0;
+
+    const loadFixtures = () => {
+        if (!fixturesPromise) {
+            fixturesPromise = fetch(url).then(response => {
+                if (!response.ok) throw new Error(`Could not load AI fixtures from ${url} (${response.status}).`);
+                return response.json();
+            });
+        }
+        return fixturesPromise;
+    };
+
+    // Recorded responses are replayed in rotation per task.
+    const nextResponse = async (task: string): Promise<string> => {
+        const fixtures = await loadFixtures();
+        const responses = fixtures.generate?.[task];
+        if (!responses || responses.length === 0) {
+            throw new Error(`No recorded responses for "${task}" in the fixture set.`);
+        }
+        const index = (generateCursor[task] || 0) % responses.length;
+        generateCursor[task] = index + 1;
+        return responses[index];
+    };
+
+    const nextAnswer = async (): Promise<string> => {
+        const fixtures = await loadFixtures();
+        const answers = fixtures.chat || [];
+        if (answers.length === 0) return 'This is an offline session, so no recorded answer is available for that question.';
+        const answer = answers[chatCursor % answers.length];
+        chatCursor++;
+        return answer;
+    };
+
+    async function* replay(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+        const chunks = text.match(/\S+\s*|\s+/g) || [];
+        for (const chunk of chunks) {
+            await delay(chunkDelayMs, signal);
+            yield chunk;
+        }
+    }
+
+    return {
+        name: 'Offline fixtures',
+
+        async generate(request) {
+            const text = await raceAbort(nextResponse(request.task), request.signal);
+            await delay(chunkDelayMs, request.signal);
+            return { text };
+        },
+
+        async *generateStream(request) {
+            const text = await raceAbort(nextResponse(request.task), request.signal);
+            yield* replay(text, request.signal);
+        },
+
+        createChat() {
+            return {
+                async sendMessage(_message, signal) {
+                    return raceAbort(nextAnswer(), signal);
+                },
+                async *sendMessageStream(_message, signal) {
+                    const answer = await raceAbort(nextAnswer(), signal);
+                    yield* replay(answer, signal);
+                },
+            };
+        },
+    };
+}
+
+// --- Fixture Recording ---
+export interface RecordingProvider extends AIProvider {
+    getRecordedFixtures(): FixtureSet;
+}
+
+/**
+ * Wraps a provider and keeps every completed response in fixture format, so a live
+ * session can be replayed later with `createFixtureProvider`.
+ */
+export function createRecordingProvider(inner: AIProvider): RecordingProvider {
+    const recorded: FixtureSet = { version: 1, generate: {}, chat: [] };
+    const record = (task: string, text: string) => {
+        (recorded.generate[task] = recorded.generate[task] || []).push(text);
+    };
+
+    return {
+        name: `${inner.name} (recording)`,
+
+        async generate(request) {
+            const result = await inner.generate(request);
+            if (result.text) record(request.task, result.text);
+            return result;
+        },
+
+        async *generateStream(request) {
+            let text = '';
+            for await (const chunk of inner.generateStream(request)) {
+                text += chunk;
+                yield chunk;
+            }
+            record(request.task, text);
+        },
+
+        createChat(history) {
+            const chat = inner.createChat(history);
+            return {
+                async sendMessage(message, signal) {
+                    const answer = await chat.sendMessage(message, signal);
+                    recorded.chat.push(answer);
+                    return answer;
+                },
+                async *sendMessageStream(message, signal) {
+                    let answer = '';
+                    try {
+                        for await (const chunk of chat.sendMessageStream(message, signal)) {
+                            answer += chunk;
+                            yield chunk;
+                        }
+                    } finally {
+                        // A stopped answer is still one turn, so replayed answers stay matched to their questions
+                        recorded.chat.push(answer);
+                    }
+                },
+            };
+        },
+
+        getRecordedFixtures() {
+            return JSON.parse(JSON.stringify(recorded));
+        },
+    };
+}
+
+// --- Request Policy ---
+const DEFAULT_TIMEOUT_SECONDS = 120;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 2000;
+// Quotas are usually per minute, so a rate limit waits longer before the next try
+const RATE_LIMIT_BASE_DELAY_MS = 10000;
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['network', 'timeout', 'rateLimit'];
+
+export function generationError(kind: GenerationErrorKind, message: string, cause?: unknown): GenerationError {
+    const error = new Error(message, { cause }) as GenerationError;
+    error.name = 'GenerationError';
+    error.kind = kind;
+    error.retryable = RETRYABLE_KINDS.includes(kind);
+    return error;
+}
+
+export function isGenerationError(error: unknown): error is GenerationError {
+    return error instanceof Error && error.name === 'GenerationError';
+}
+
+// Both the Gemini SDK ("got status: 429 ...") and the local adapter ("returned 429") put the status in the message
+function getHttpStatus(error: Error): number | null {
+    const match = error.message.match(/(?:got status:|returned) (\d{3})\b/);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Sorts a provider failure into a kind with a message a student can act on; the original error
+ * is kept as the cause.
+ */
+export function classifyError(error: unknown): GenerationError {
+    if (isGenerationError(error)) return error;
+    if (!(error instanceof Error)) return generationError('unknown', String(error));
+    if (error.name === 'AbortError') return generationError('cancelled', 'The request was cancelled.', error);
+
+    const status = getHttpStatus(error);
+    if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(error.message)) {
+        return generationError('rateLimit', 'The AI service is receiving too many requests right now.', error);
+    }
+    if (status === 408 || (status !== null && status >= 500) || error instanceof TypeError || /failed to fetch|network/i.test(error.message)) {
+        return generationError('network', 'Could not reach the AI service. Check your internet connection.', error);
+    }
+    return generationError('unknown', error.message, error);
+}
+
+/**
+ * Runs one attempt with its own time limit. The attempt's signal aborts on the timeout or when
+ * the caller's signal aborts, and the rejection says which.
+ */
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (signal?.aborted) controller.abort();
+    try {
+        return await run(controller.signal);
+    } catch (error) {
+        if (timedOut && !signal?.aborted) {
+            throw generationError('timeout', `The AI did not answer within ${Math.round(timeoutMs / 1000)} seconds.`, error);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Generates with a time limit per attempt, retrying network failures, timeouts and rate limits
+ * with exponential backoff. An empty response is a safety block when the provider says so.
+ * Every rejection is a GenerationError; cancelling through the signal rejects with kind 'cancelled'.
+ */
+export async function generateWithRetry(provider: AIProvider, request: GenerateRequest, options: RetryOptions): Promise<GenerateResult> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const result = await withTimeout(signal => provider.generate({ ...request, signal }), options.timeoutMs, options.signal);
+            if (!result.text.trim()) {
+                throw result.blockReason
+                    ? generationError('safety', `The request was blocked by the AI's safety filter (${result.blockReason}).`)
+                    : generationError('invalidJson', 'The AI returned an empty response. It might not have interpreted the image.');
+            }
+            return result;
+        } catch (error) {
+            const classified = classifyError(error);
+            if (!classified.retryable || attempt > options.retries || options.signal?.aborted) throw classified;
+            const base = classified.kind === 'rateLimit' ? RATE_LIMIT_BASE_DELAY_MS : RETRY_BASE_DELAY_MS;
+            // Jitter keeps several open tabs from retrying in step
+            const delayMs = Math.round(base * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5));
+            options.onRetry?.(classified, attempt + 1, delayMs);
+            try {
+                await delay(delayMs, options.signal);
+            } catch (abort) {
+                throw classifyError(abort);
+            }
+        }
+    }
+}
+
+// --- Provider Selection ---
+/**
+ * Picks the provider from the `?provider=` URL parameter, falling back to the build-time
+ * `AI_PROVIDER` setting and finally to Gemini.
+ */
+export function createProviderFromEnv(): AIProvider {
+    const params = new URLSearchParams(window.location.search);
+    const kind = (params.get('provider') || process.env.AI_PROVIDER || 'gemini') as ProviderKind;
+
+    let provider: AIProvider;
+    switch (kind) {
+        case 'local':
+            provider = createLocalProvider({
+                baseUrl: process.env.LOCAL_AI_URL,
+                model: process.env.LOCAL_AI_MODEL,
+                apiKey: process.env.LOCAL_AI_KEY,
+            });
+            break;
+        case 'fixture':
+            provider = createFixtureProvider({ url: params.get('fixtures') || process.env.AI_FIXTURES_URL });
+            break;
+        default:
+            provider = createGeminiProvider({
+                apiKey: process.env.API_KEY,
+                generationModel: process.env.GEMINI_GENERATION_MODEL,
+                chatModel: process.env.GEMINI_CHAT_MODEL,
+            });
+    }
+
+    if (params.get('record') === '1' || process.env.AI_RECORD_FIXTURES === 'true') {
+        return createRecordingProvider(provider);
+    }
+    return provider;
+}
+
+/**
+ * The generation time limit and retry count from `?timeout=` (seconds) and `?retries=`, or
+ * AI_TIMEOUT_SECONDS and AI_MAX_RETRIES.
+ */
+export function getRequestPolicyFromEnv(): RequestPolicy {
+    const params = new URLSearchParams(window.location.search);
+    const timeoutSeconds = Number(params.get('timeout') || process.env.AI_TIMEOUT_SECONDS);
+    // An empty setting is unset, not zero retries
+    const retriesSetting = params.get('retries') || process.env.AI_MAX_RETRIES;
+    const retries = retriesSetting ? Number(retriesSetting) : NaN;
+    return {
+        timeoutMs: (timeoutSeconds > 0 ? timeoutSeconds : DEFAULT_TIMEOUT_SECONDS) * 1000,
+        retries: Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RETRIES,
+    };
+}
@@ -0,0 +1,441 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ImageInput } from './providers';
+import { MeasurementAnnotation } from './measurements';
+
+// --- Interfaces for Data Structures ---
+export type AppMode = 'geometry' | 'chemistry' | 'crystal';
+
+export interface QAPair {
+    question: string;
+    answer: string;
+    answerHtml: string;
+    selectionContext: any | null;
+}
+
+export interface ModelVersion {
+    modelData: string;
+    instruction: string | null; // the edit that produced it; null for the generated or imported original
+    timestamp: number;
+}
+
+export interface Session {
+    id: number;
+    timestamp: number;
+    modelData: string;
+    qaHistory: QAPair[];
+    mode: AppMode;
+    images: ImageInput[]; // every image sent with the request, in order; the first is the preview
+    measurements?: MeasurementAnnotation[];
+    title?: string; // set by the student; getSessionTitle supplies a default when missing
+    tags?: string[];
+    versions?: ModelVersion[]; // every state of the model, oldest first; modelData is the one at versionIndex
+    versionIndex?: number;
+}
+
+export type SessionInfo = Pick<Session, 'title' | 'tags'>;
+
+export type SessionSort = 'newest' | 'oldest' | 'title' | 'questions';
+
+export interface SessionQuery {
+    text: string; // matched against titles, tags, questions and answers
+    mode: AppMode | 'all';
+    since: number | null; // earliest timestamp shown
+    sort: SessionSort;
+}
+
+interface SessionFile {
+    format: typeof SESSION_FILE_FORMAT;
+    formatVersion: number;
+    exportedAt: string;
+    session: Omit<Session, 'id'>; // ids are local to each browser's store
+}
+
+// Images are stored as Blobs, which take a quarter less space than base64 and aren't parsed on read
+interface SessionRecord extends Omit<Session, 'images'> {
+    schemaVersion: number;
+    images: { blob: Blob, role?: string }[];
+}
+
+export const SESSION_SCHEMA_VERSION = 1;
+// Exported session files; bump the version and add an upgrade step when the file layout changes
+export const SESSION_FILE_FORMAT = 'ai3d-session';
+export const SESSION_FILE_VERSION = 1;
+const APP_MODES: AppMode[] = ['geometry', 'chemistry', 'crystal'];
+// Names for polyhedra by face count, for geometry models, which carry no name of their own
+const POLYHEDRON_NAMES: { [faces: number]: string } = {
+    4: 'Tetrahedron', 5: 'Pentahedron', 6: 'Hexahedron', 7: 'Heptahedron', 8: 'Octahedron',
+    10: 'Decahedron', 12: 'Dodecahedron', 20: 'Icosahedron',
+};
+const DB_NAME = 'ai3d';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+// Where sessions lived before IndexedDB, as one JSON array
+const LEGACY_SESSIONS_KEY = 'ai3d_sessions';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// --- Helpers ---
+function base64ToBlob(data: string, mimeType: string): Blob {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Turns an IndexedDB failure into an error a student can act on; running out of space is the
+ * one that happens in practice.
+ */
+function toStorageError(error: DOMException | null): Error {
+    if (error?.name === 'QuotaExceededError') {
+        return new Error('This browser has run out of storage space for saved sessions. Delete some older sessions or free up disk space, then save again.');
+    }
+    return new Error(`Could not access saved sessions${error?.message ? `: ${error.message}` : '.'}`);
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(toStorageError(request.error));
+    });
+}
+
+// Writes are only durable once the transaction completes; quota errors surface as an abort
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(toStorageError(transaction.error));
+        transaction.onabort = () => reject(toStorageError(transaction.error));
+    });
+}
+
+function toRecord(session: Session): SessionRecord {
+    const { images, ...rest } = session;
+    return {
+        ...rest,
+        schemaVersion: SESSION_SCHEMA_VERSION,
+        images: images.map(image => ({ blob: base64ToBlob(image.data, image.mimeType), role: image.role })),
+    };
+}
+
+// Sessions from before several images were supported kept a single preview image
+function upgradeLegacySession(legacy: any): any {
+    const images: ImageInput[] = legacy.images
+        || (legacy.previewImage ? [{ data: legacy.previewImage, mimeType: legacy.mimeType || 'image/png' }] : []);
+    const { previewImage, mimeType, ...rest } = legacy;
+    return { ...rest, images };
+}
+
+async function fromRecord(record: SessionRecord): Promise<Session> {
+    if (record.schemaVersion > SESSION_SCHEMA_VERSION) {
+        throw new Error(`Session ${record.id} was saved by a newer version of the app.`);
+    }
+    const { schemaVersion, images, ...rest } = record;
+    return {
+        ...rest,
+        images: await Promise.all(images.map(async ({ blob, role }) => ({ data: await blobToBase64(blob), mimeType: blob.type, role }))),
+    };
+}
+
+// --- Database ---
+function openDatabase(): Promise<IDBDatabase> {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const database = request.result;
+                if (!database.objectStoreNames.contains(STORE_NAME)) {
+                    database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(toStorageError(request.error));
+        }).then(async database => {
+            await migrateLegacySessions(database);
+            return database;
+        });
+        // A failed open (e.g. private browsing) can be retried on the next call
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+}
+
+/**
+ * Copies sessions from the old localStorage blob into IndexedDB, then removes the blob. If the
+ * copy fails the blob is kept, so nothing is lost and the migration runs again next time.
+ */
+async function migrateLegacySessions(database: IDBDatabase) {
+    const saved = localStorage.getItem(LEGACY_SESSIONS_KEY);
+    if (saved === null) return;
+
+    let legacySessions: any[];
+    try {
+        legacySessions = JSON.parse(saved);
+        if (!Array.isArray(legacySessions)) throw new Error('Saved sessions are not a list.');
+    } catch (error) {
+        console.error('Failed to parse legacy sessions; leaving them in localStorage:', error);
+        return;
+    }
+
+    try {
+        const transaction = database.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        legacySessions.forEach(legacy => store.put(toRecord(upgradeLegacySession(legacy))));
+        await transactionDone(transaction);
+        localStorage.removeItem(LEGACY_SESSIONS_KEY);
+    } catch (error) {
+        console.error('Failed to migrate sessions to IndexedDB:', error);
+    }
+}
+
+// --- Public API ---
+/**
+ * All saved sessions, most recently saved first.
+ */
+export async function listSessions(): Promise<Session[]> {
+    const database = await openDatabase();
+    const records = await requestResult(database.transaction(STORE_NAME).objectStore(STORE_NAME).getAll() as IDBRequest<SessionRecord[]>);
+    const sessions = await Promise.all(records.map(record => fromRecord(record).catch(error => {
+        console.error('Skipping unreadable session:', error);
+        return null;
+    })));
+    return sessions.filter((session): session is Session => session !== null).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function countSessions(): Promise<number> {
+    const database = await openDatabase();
+    return requestResult(database.transaction(STORE_NAME).objectStore(STORE_NAME).count());
+}
+
+/**
+ * Adds the session, or replaces the saved one with the same id.
+ */
+export async function saveSession(session: Session): Promise<void> {
+    const database = await openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(toRecord(session));
+    await transactionDone(transaction);
+}
+
+/**
+ * Changes a saved session's title or tags without rewriting its model and images.
+ */
+export async function updateSessionInfo(id: number, info: SessionInfo): Promise<void> {
+    const database = await openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const record = await requestResult(store.get(id) as IDBRequest<SessionRecord | undefined>);
+    if (!record) throw new Error('The session no longer exists.');
+    store.put({ ...record, ...info });
+    await transactionDone(transaction);
+}
+
+export async function deleteSessions(ids: number[]): Promise<void> {
+    const database = await openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+}
+
+// --- Library ---
+/**
+ * The title shown when the student hasn't named the session: the model's own name, or for
+ * geometry, which has none, the kind of solid by its number of faces.
+ */
+export function getDefaultSessionTitle(session: Session): string {
+    let data: any = null;
+    try {
+        data = JSON.parse(session.modelData);
+    } catch {
+        // Fall through to the mode name
+    }
+    const name = data?.analysis?.name;
+    if (typeof name === 'string' && name.trim()) return name.trim();
+    if (session.mode === 'geometry' && Array.isArray(data?.faces) && data.faces.length > 0) {
+        return POLYHEDRON_NAMES[data.faces.length] || `Solid with ${data.faces.length} faces`;
+    }
+    return `${session.mode.charAt(0).toUpperCase() + session.mode.slice(1)} model`;
+}
+
+export function getSessionTitle(session: Session): string {
+    return session.title?.trim() || getDefaultSessionTitle(session);
+}
+
+/**
+ * The sessions matching every word of the search text and the filters, in the chosen order.
+ */
+export function querySessions(sessions: Session[], query: SessionQuery): Session[] {
+    const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = sessions.filter(session => {
+        if (query.mode !== 'all' && session.mode !== query.mode) return false;
+        if (query.since !== null && session.timestamp < query.since) return false;
+        if (words.length === 0) return true;
+        const haystack = [
+            getSessionTitle(session),
+            ...(session.tags || []),
+            ...session.qaHistory.flatMap(pair => [pair.question, pair.answer]),
+        ].join('\n').toLowerCase();
+        return words.every(word => haystack.includes(word));
+    });
+
+    const compare: { [sort in SessionSort]: (a: Session, b: Session) => number } = {
+        newest: (a, b) => b.timestamp - a.timestamp,
+        oldest: (a, b) => a.timestamp - b.timestamp,
+        title: (a, b) => getSessionTitle(a).localeCompare(getSessionTitle(b)),
+        questions: (a, b) => b.qaHistory.length - a.qaHistory.length || b.timestamp - a.timestamp,
+    };
+    return matches.sort(compare[query.sort]);
+}
+
+// --- Session Files ---
+/**
+ * Upgrades a file's session from the given format version to the next, indexed by the version it
+ * upgrades from. Version 0 is a bare session object as the app kept them in localStorage.
+ */
+const SESSION_FILE_UPGRADES: ((session: any) => any)[] = [
+    upgradeLegacySession,
+];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export function isPlainObject(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isModelJson(text: string): boolean {
+    try {
+        return isPlainObject(JSON.parse(text));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Checks an imported session field by field, so a damaged or hand-edited file fails here with a
+ * message rather than later when the model is drawn.
+ */
+function validateSession(session: any): Omit<Session, 'id'> {
+    if (!APP_MODES.includes(session.mode)) throw new Error(`Unknown session mode "${session.mode}".`);
+
+    if (typeof session.modelData !== 'string') throw new Error('The session has no model.');
+    if (!isModelJson(session.modelData)) throw new Error('The session\'s model is not valid JSON.');
+
+    const qaHistory = session.qaHistory ?? [];
+    if (!Array.isArray(qaHistory) || !qaHistory.every((pair: any) => isPlainObject(pair)
+        && typeof pair.question === 'string' && typeof pair.answer === 'string'
+        && (pair.selectionContext == null || isPlainObject(pair.selectionContext)))) {
+        throw new Error('The session\'s questions and answers are damaged.');
+    }
+
+    const images = session.images ?? [];
+    if (!Array.isArray(images) || !images.every((image: any) => isPlainObject(image)
+        && typeof image.data === 'string' && BASE64_PATTERN.test(image.data)
+        && typeof image.mimeType === 'string' && image.mimeType.startsWith('image/')
+        && (image.role === undefined || typeof image.role === 'string'))) {
+        throw new Error('The session\'s images are damaged.');
+    }
+
+    const measurements = session.measurements ?? [];
+    if (!Array.isArray(measurements) || !measurements.every((measurement: any) => isPlainObject(measurement)
+        && typeof measurement.kind === 'string' && Array.isArray(measurement.points)
+        && typeof measurement.value === 'number' && typeof measurement.text === 'string')) {
+        throw new Error('The session\'s measurements are damaged.');
+    }
+
+    if (session.versions !== undefined) {
+        const versions = session.versions;
+        if (!Array.isArray(versions) || versions.length === 0 || !versions.every((version: any) => isPlainObject(version)
+            && isModelJson(version.modelData) && typeof version.timestamp === 'number'
+            && (version.instruction === null || typeof version.instruction === 'string'))
+            || !(Number.isInteger(session.versionIndex) && session.versionIndex >= 0 && session.versionIndex < versions.length)
+            || versions[session.versionIndex].modelData !== session.modelData) {
+            throw new Error('The session\'s version history is damaged.');
+        }
+    }
+
+    if (session.title !== undefined && typeof session.title !== 'string') throw new Error('The session\'s title is damaged.');
+    if (session.tags !== undefined && !(Array.isArray(session.tags) && session.tags.every((tag: any) => typeof tag === 'string'))) {
+        throw new Error('The session\'s tags are damaged.');
+    }
+
+    return {
+        timestamp: typeof session.timestamp === 'number' && isFinite(session.timestamp) ? session.timestamp : Date.now(),
+        modelData: session.modelData,
+        qaHistory: qaHistory.map((pair: any) => ({
+            question: pair.question,
+            answer: pair.answer,
+            answerHtml: typeof pair.answerHtml === 'string' ? pair.answerHtml : '',
+            selectionContext: pair.selectionContext ?? null,
+        })),
+        mode: session.mode,
+        images: images.map((image: any) => ({ data: image.data, mimeType: image.mimeType, role: image.role })),
+        measurements,
+        title: session.title,
+        tags: session.tags,
+        versions: session.versions?.map((version: any) => ({ modelData: version.modelData, instruction: version.instruction, timestamp: version.timestamp })),
+        versionIndex: session.versions ? session.versionIndex : undefined,
+    };
+}
+
+/**
+ * A single self-contained JSON file holding the session and everything needed to reopen it.
+ */
+export function serializeSessionFile(session: Session): string {
+    const { id, ...rest } = session;
+    const file: SessionFile = {
+        format: SESSION_FILE_FORMAT,
+        formatVersion: SESSION_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        session: rest,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported session file, upgrading files from older format versions. The result has no
+ * id; the caller gives it one when adding it to the saved sessions.
+ */
+export function parseSessionFile(text: string): Omit<Session, 'id'> {
+    let file: any;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not a session file.');
+    }
+    if (!isPlainObject(file)) throw new Error('The file is not a session file.');
+
+    let version: number;
+    let session: any;
+    if (file.format === SESSION_FILE_FORMAT) {
+        version = file.formatVersion;
+        session = file.session;
+        if (!Number.isInteger(version) || version < 0) throw new Error('The session file has an invalid format version.');
+    } else if (file.format === undefined && 'modelData' in file) {
+        version = 0;
+        session = file;
+    } else {
+        throw new Error('The file is not a session file.');
+    }
+    if (version > SESSION_FILE_VERSION) {
+        throw new Error('This session file was exported by a newer version of the app. Update the app to import it.');
+    }
+    if (!isPlainObject(session)) throw new Error('The file does not contain a session.');
+
+    for (; version < SESSION_FILE_VERSION; version++) {
+        session = SESSION_FILE_UPGRADES[version](session);
+    }
+    return validateSession(session);
+}
@@ -0,0 +1,482 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { normalizeElement } from './elements';
+
+// --- Molecular Graph ---
+export interface GraphAtom {
+    element: string;
+    aromatic: boolean;
+    hCount: number | null; // null = fill implicit hydrogens from the default valence
+    charge: number;
+}
+
+export interface GraphBond {
+    a: number;
+    b: number;
+    order: number; // 1.5 until aromatic bonds are kekulized
+}
+
+export interface MolecularGraph {
+    atoms: GraphAtom[];
+    bonds: GraphBond[];
+}
+
+// Default valences for implicit hydrogens (SMILES "organic subset" rules).
+const DEFAULT_VALENCES: { [element: string]: number[] } = {
+    B: [3], C: [4], N: [3, 5], O: [2], P: [3, 5], S: [2, 4, 6], F: [1], CL: [1], BR: [1], I: [1],
+};
+
+// A few names students commonly type, mapped to SMILES.
+export const COMMON_NAMES: { [name: string]: string } = {
+    'water': 'O',
+    'hydrogen': '[H][H]',
+    'oxygen': 'O=O',
+    'nitrogen': 'N#N',
+    'ammonia': 'N',
+    'methane': 'C',
+    'ethane': 'CC',
+    'propane': 'CCC',
+    'butane': 'CCCC',
+    'ethene': 'C=C',
+    'ethylene': 'C=C',
+    'ethyne': 'C#C',
+    'acetylene': 'C#C',
+    'carbon dioxide': 'O=C=O',
+    'carbon monoxide': '[C-]#[O+]',
+    'hydrogen peroxide': 'OO',
+    'hydrogen cyanide': 'C#N',
+    'hydrogen chloride': 'Cl',
+    'hydrochloric acid': 'Cl',
+    'methanol': 'CO',
+    'ethanol': 'CCO',
+    'propanol': 'CCCO',
+    'methanal': 'C=O',
+    'formaldehyde': 'C=O',
+    'ethanal': 'CC=O',
+    'acetaldehyde': 'CC=O',
+    'propanone': 'CC(C)=O',
+    'acetone': 'CC(C)=O',
+    'methanoic acid': 'OC=O',
+    'formic acid': 'OC=O',
+    'ethanoic acid': 'CC(=O)O',
+    'acetic acid': 'CC(=O)O',
+    'methylamine': 'CN',
+    'urea': 'NC(=O)N',
+    'glycine': 'NCC(=O)O',
+    'ethylene glycol': 'OCCO',
+    'chloroform': 'ClC(Cl)Cl',
+    'trichloromethane': 'ClC(Cl)Cl',
+    'carbon tetrachloride': 'ClC(Cl)(Cl)Cl',
+    'tetrachloromethane': 'ClC(Cl)(Cl)Cl',
+    'cyclohexane': 'C1CCCCC1',
+    'benzene': 'c1ccccc1',
+    'toluene': 'Cc1ccccc1',
+    'phenol': 'Oc1ccccc1',
+    'aspirin': 'CC(=O)Oc1ccccc1C(=O)O',
+    'caffeine': 'Cn1cnc2c1c(=O)n(C)c(=O)n2C',
+    'glucose': 'OCC1OC(O)C(O)C(O)C1O',
+    'sulfuric acid': 'OS(=O)(=O)O',
+    'sulfur dioxide': 'O=S=O',
+    'boron trifluoride': 'FB(F)F',
+    'phosphorus pentachloride': 'ClP(Cl)(Cl)(Cl)Cl',
+    'sulfur hexafluoride': 'FS(F)(F)(F)(F)F',
+};
+
+// --- SMILES ---
+const ORGANIC_SUBSET = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+const AROMATIC_SUBSET = ['b', 'c', 'n', 'o', 'p', 's'];
+const BOND_SYMBOLS: { [symbol: string]: number } = { '-': 1, '=': 2, '#': 3, '$': 4, ':': 1.5, '/': 1, '\\': 1 };
+
+/**
+ * Parses a SMILES string into a molecular graph. Stereo marks, isotopes and atom classes are
+ * read but ignored; aromatic (lower-case) atoms are kekulized afterwards.
+ */
+export function parseSmiles(smiles: string): MolecularGraph {
+    const atoms: GraphAtom[] = [];
+    const bonds: GraphBond[] = [];
+    const branchStack: number[] = [];
+    const ringOpenings = new Map<string, { atom: number, order: number | null }>();
+    let previous: number | null = null;
+    let pendingOrder: number | null = null;
+    let i = 0;
+
+    const fail = (message: string): never => {
+        throw new Error(`SMILES error at position ${i + 1}: ${message}`);
+    };
+
+    const addAtom = (atom: GraphAtom) => {
+        const index = atoms.length;
+        atoms.push(atom);
+        if (previous !== null) {
+            const bothAromatic = atoms[previous].aromatic && atom.aromatic;
+            bonds.push({ a: previous, b: index, order: pendingOrder ?? (bothAromatic ? 1.5 : 1) });
+        }
+        previous = index;
+        pendingOrder = null;
+    };
+
+    while (i < smiles.length) {
+        const ch = smiles[i];
+
+        if (ch === '(') {
+            if (previous === null) fail('branch has no atom to attach to');
+            branchStack.push(previous!);
+            i++;
+        } else if (ch === ')') {
+            if (branchStack.length === 0) fail('unmatched ")"');
+            previous = branchStack.pop()!;
+            i++;
+        } else if (ch === '.') {
+            previous = null;
+            i++;
+        } else if (ch in BOND_SYMBOLS) {
+            pendingOrder = BOND_SYMBOLS[ch];
+            if (pendingOrder === 4) fail('quadruple bonds are not supported');
+            i++;
+        } else if (/[0-9%]/.test(ch)) {
+            let label = ch;
+            if (ch === '%') {
+                label = smiles.substring(i + 1, i + 3);
+                if (!/^\d\d$/.test(label)) fail('"%" must be followed by two digits');
+                i += 3;
+            } else {
+                i++;
+            }
+            if (previous === null) fail('ring closure has no atom');
+            const opening = ringOpenings.get(label);
+            if (opening) {
+                const order = pendingOrder ?? opening.order
+                    ?? (atoms[opening.atom].aromatic && atoms[previous!].aromatic ? 1.5 : 1);
+                bonds.push({ a: opening.atom, b: previous!, order });
+                ringOpenings.delete(label);
+            } else {
+                ringOpenings.set(label, { atom: previous!, order: pendingOrder });
+            }
+            pendingOrder = null;
+        } else if (ch === '[') {
+            const end = smiles.indexOf(']', i);
+            if (end === -1) fail('unclosed "["');
+            const content = smiles.substring(i + 1, end);
+            const match = content.match(/^(\d+)?([A-Z][a-z]?|[a-z][a-z]?)(@{1,2}|@[A-Z]{2}\d*)?(H\d*)?([+-]+\d*)?(:\d+)?$/);
+            if (!match) fail(`cannot read bracket atom "[${content}]"`);
+            const [, , symbol, , hydrogens, chargeText] = match!;
+            const aromatic = symbol === symbol.toLowerCase();
+            let charge = 0;
+            if (chargeText) {
+                const sign = chargeText[0] === '+' ? 1 : -1;
+                const digits = chargeText.replace(/[+-]/g, '');
+                charge = sign * (digits ? parseInt(digits, 10) : chargeText.length);
+            }
+            addAtom({
+                element: aromatic ? symbol.toUpperCase() : symbol,
+                aromatic,
+                hCount: hydrogens ? (hydrogens.length > 1 ? parseInt(hydrogens.substring(1), 10) : 1) : 0,
+                charge,
+            });
+            i = end + 1;
+        } else {
+            const two = smiles.substring(i, i + 2);
+            if (ORGANIC_SUBSET.includes(two)) {
+                addAtom({ element: two, aromatic: false, hCount: null, charge: 0 });
+                i += 2;
+            } else if (ORGANIC_SUBSET.includes(ch)) {
+                addAtom({ element: ch, aromatic: false, hCount: null, charge: 0 });
+                i++;
+            } else if (AROMATIC_SUBSET.includes(ch)) {
+                addAtom({ element: ch.toUpperCase(), aromatic: true, hCount: null, charge: 0 });
+                i++;
+            } else {
+                fail(`unexpected character "${ch}"`);
+            }
+        }
+    }
+
+    if (branchStack.length > 0) throw new Error('SMILES error: unclosed "(".');
+    if (ringOpenings.size > 0) throw new Error(`SMILES error: ring bond ${[...ringOpenings.keys()].join(', ')} is never closed.`);
+    if (atoms.length === 0) throw new Error('SMILES error: no atoms found.');
+
+    const graph = { atoms, bonds };
+    kekulize(graph);
+    return graph;
+}
+
+/**
+ * Replaces aromatic bonds with alternating single and double bonds (a Kekulé structure, as the
+ * AI prompt asks for) by finding a perfect matching over the aromatic atoms that need a
+ * double bond. If no matching exists the bonds are left at order 1.5.
+ */
+function kekulize(graph: MolecularGraph) {
+    const { atoms, bonds } = graph;
+    const aromaticBonds = bonds.filter(b => b.order === 1.5);
+    if (aromaticBonds.length === 0) return;
+
+    const degree = atoms.map(() => 0);
+    const hasDoubleBond = atoms.map(() => false);
+    bonds.forEach(b => {
+        degree[b.a]++;
+        degree[b.b]++;
+        if (b.order === 2) hasDoubleBond[b.a] = hasDoubleBond[b.b] = true;
+    });
+
+    // Pyrrole-type atoms ([nH], n with three neighbours, o, s) give their lone pair to the ring
+    const needsPi = atoms.map((atom, index) => {
+        if (!atom.aromatic || hasDoubleBond[index]) return false;
+        const element = normalizeElement(atom.element);
+        if (element === 'C' || element === 'B') return true;
+        if (element === 'N' || element === 'P') return (atom.hCount ?? 0) === 0 && (degree[index] === 2 || atom.charge > 0);
+        return false;
+    });
+
+    const matched = atoms.map(() => false);
+    const chosen = new Set<GraphBond>();
+    const candidates = atoms.map((_, index) => aromaticBonds.filter(b => b.a === index || b.b === index));
+
+    const solve = (): boolean => {
+        const next = needsPi.findIndex((needs, index) => needs && !matched[index]);
+        if (next === -1) return true;
+        for (const bond of candidates[next]) {
+            const other = bond.a === next ? bond.b : bond.a;
+            if (!needsPi[other] || matched[other]) continue;
+            matched[next] = matched[other] = true;
+            chosen.add(bond);
+            if (solve()) return true;
+            matched[next] = matched[other] = false;
+            chosen.delete(bond);
+        }
+        return false;
+    };
+
+    if (solve()) {
+        aromaticBonds.forEach(bond => { bond.order = chosen.has(bond) ? 2 : 1; });
+    }
+}
+
+// --- Condensed Formulas ---
+type FormulaToken = { kind: 'atom', element: string, count: number, hCount: number | null }
+    | { kind: 'bond', order: number }
+    | { kind: 'group', tokens: FormulaToken[], count: number };
+
+function tokenizeFormula(text: string, start = 0): { tokens: FormulaToken[], end: number } {
+    const tokens: FormulaToken[] = [];
+    let i = start;
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '(') {
+            const inner = tokenizeFormula(text, i + 1);
+            if (text[inner.end] !== ')') throw new Error('Unclosed "(" in formula.');
+            i = inner.end + 1;
+            const countMatch = text.substring(i).match(/^\d+/);
+            const count = countMatch ? parseInt(countMatch[0], 10) : 1;
+            i += countMatch ? countMatch[0].length : 0;
+            tokens.push({ kind: 'group', tokens: inner.tokens, count });
+        } else if (ch === ')') {
+            return { tokens, end: i };
+        } else if (ch === '=' || ch === '#' || ch === '≡' || ch === '-') {
+            tokens.push({ kind: 'bond', order: ch === '=' ? 2 : ch === '-' ? 1 : 3 });
+            i++;
+        } else {
+            const match = text.substring(i).match(/^([A-Z][a-z]?)(\d*)/);
+            if (!match) throw new Error(`Unexpected "${ch}" in formula.`);
+            const element = match[1];
+            const count = match[2] ? parseInt(match[2], 10) : 1;
+            i += match[0].length;
+            if (element === 'H') {
+                // Hydrogens belong to the heavy atom before them
+                const last = tokens[tokens.length - 1];
+                if (last && last.kind === 'atom' && last.count === 1) {
+                    last.hCount = (last.hCount || 0) + count;
+                } else {
+                    tokens.push({ kind: 'atom', element: 'H', count, hCount: null });
+                }
+            } else {
+                tokens.push({ kind: 'atom', element, count, hCount: null });
+            }
+        }
+    }
+    return { tokens, end: i };
+}
+
+/**
+ * Parses a condensed structural formula such as CH3CH2OH, CH3COOH, (CH3)2CHOH or CO2.
+ * Atoms are chained in the order written; an O or S after a carbon with at most one H
+ * becomes a C=O style branch; repeated atoms ("Cl4") branch off the atom before them; and
+ * leftover valence between neighbours becomes double or triple bonds.
+ */
+export function parseCondensedFormula(text: string): MolecularGraph {
+    const { tokens, end } = tokenizeFormula(text.replace(/\s+/g, ''));
+    if (end !== text.replace(/\s+/g, '').length) throw new Error('Unmatched ")" in formula.');
+
+    const atoms: GraphAtom[] = [];
+    const bonds: GraphBond[] = [];
+    const carbonylOn = new Set<number>();
+    let leadingHydrogens = 0;
+
+    const addAtom = (element: string, hCount: number | null) => {
+        atoms.push({ element, aromatic: false, hCount: hCount ?? 0, charge: 0 });
+        if (leadingHydrogens > 0) {
+            atoms[atoms.length - 1].hCount! += leadingHydrogens;
+            leadingHydrogens = 0;
+        }
+        return atoms.length - 1;
+    };
+
+    const build = (list: FormulaToken[], attachTo: number | null): number | null => {
+        let backbone = attachTo;
+        let pendingOrder = 1;
+        let pendingBranches: number[] = []; // groups written before their parent, e.g. (CH3)2CH...
+
+        list.forEach((token, index) => {
+            if (token.kind === 'bond') {
+                pendingOrder = token.order;
+                return;
+            }
+            if (token.kind === 'group') {
+                for (let n = 0; n < token.count; n++) {
+                    const first = atoms.length;
+                    build(token.tokens, backbone);
+                    if (backbone === null) pendingBranches.push(first);
+                }
+                return;
+            }
+            if (token.element === 'H') {
+                leadingHydrogens += token.count;
+                return;
+            }
+
+            if (token.count > 1 && backbone !== null) {
+                for (let n = 0; n < token.count; n++) {
+                    bonds.push({ a: backbone, b: addAtom(token.element, token.hCount), order: 1 });
+                }
+                return;
+            }
+
+            const followedByAtom = list.slice(index + 1).some(t => t.kind !== 'bond');
+            const isCarbonyl = (token.element === 'O' || token.element === 'S') && token.hCount === null
+                && backbone !== null && atoms[backbone].element === 'C' && (atoms[backbone].hCount ?? 0) <= 1
+                && !carbonylOn.has(backbone) && followedByAtom && pendingOrder === 1;
+            if (isCarbonyl) {
+                bonds.push({ a: backbone!, b: addAtom(token.element, 0), order: 2 });
+                carbonylOn.add(backbone!);
+                return;
+            }
+
+            for (let n = 0; n < token.count; n++) {
+                const atom = addAtom(token.element, token.hCount);
+                if (backbone !== null) bonds.push({ a: backbone, b: atom, order: pendingOrder });
+                pendingBranches.forEach(branch => bonds.push({ a: branch, b: atom, order: 1 }));
+                pendingBranches = [];
+                pendingOrder = 1;
+                backbone = atom;
+            }
+        });
+        return backbone;
+    };
+
+    build(tokens, null);
+    if (atoms.length === 0) throw new Error('No atoms found in formula.');
+    if (leadingHydrogens > 0) throw new Error('Hydrogens in the formula are not attached to any atom.');
+
+    saturate({ atoms, bonds });
+    return { atoms, bonds };
+}
+
+function getBondOrderSum(graph: MolecularGraph, index: number): number {
+    return graph.bonds.reduce((sum, b) => sum + (b.a === index || b.b === index ? b.order : 0), 0);
+}
+
+/**
+ * Upgrades bonds between neighbours that both still have free valence, then checks that every
+ * atom ended up with a normal valence.
+ */
+function saturate(graph: MolecularGraph) {
+    const deficit = (index: number) => {
+        const atom = graph.atoms[index];
+        const valences = DEFAULT_VALENCES[normalizeElement(atom.element)];
+        if (!valences) return 0;
+        const used = getBondOrderSum(graph, index) + (atom.hCount ?? 0);
+        const target = valences.find(v => v >= used);
+        return target === undefined ? -1 : target - used;
+    };
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const bond of graph.bonds) {
+            const spare = Math.min(deficit(bond.a), deficit(bond.b), 3 - bond.order);
+            if (spare > 0) {
+                bond.order += spare;
+                changed = true;
+            }
+        }
+    }
+
+    graph.atoms.forEach((atom, index) => {
+        if (deficit(index) !== 0) {
+            throw new Error(`Could not work out the bonding around ${atom.element} in this formula. Try writing it as SMILES instead.`);
+        }
+    });
+}
+
+// --- Hydrogens ---
+/**
+ * Makes every hydrogen an explicit atom: implicit counts come from the default valences. Only
+ * uncharged atoms have implicit counts; a charged atom is a bracket atom, which states its own.
+ */
+export function addExplicitHydrogens(graph: MolecularGraph): MolecularGraph {
+    const atoms = graph.atoms.map(atom => ({ ...atom }));
+    const bonds = graph.bonds.map(bond => ({ ...bond }));
+    const heavyCount = atoms.length;
+
+    for (let index = 0; index < heavyCount; index++) {
+        const atom = atoms[index];
+        let hydrogens = atom.hCount;
+        if (hydrogens === null) {
+            const valences = DEFAULT_VALENCES[normalizeElement(atom.element)] || [];
+            const used = Math.ceil(getBondOrderSum({ atoms, bonds }, index));
+            const target = valences.find(v => v >= used);
+            hydrogens = target === undefined ? 0 : target - used;
+        }
+        for (let n = 0; n < hydrogens; n++) {
+            atoms.push({ element: 'H', aromatic: false, hCount: 0, charge: 0 });
+            bonds.push({ a: index, b: atoms.length - 1, order: 1 });
+        }
+        atom.hCount = 0;
+    }
+    return { atoms, bonds };
+}
+
+// --- Entry Point ---
+export interface ParsedMoleculeText {
+    graph: MolecularGraph;
+    name: string;
+    source: string;
+}
+
+/**
+ * Reads what a student typed: a common name, a SMILES string or a condensed formula, tried in
+ * that order. All hydrogens are explicit in the result.
+ */
+export function parseMoleculeText(input: string): ParsedMoleculeText {
+    const text = input.trim();
+    if (!text) throw new Error('Please type a SMILES string, formula or name.');
+
+    const named = COMMON_NAMES[text.toLowerCase()];
+    if (named) {
+        return { graph: addExplicitHydrogens(parseSmiles(named)), name: text.toLowerCase(), source: `Name: ${text}` };
+    }
+
+    let smilesError: Error;
+    try {
+        return { graph: addExplicitHydrogens(parseSmiles(text)), name: text, source: `SMILES: ${text}` };
+    } catch (error) {
+        smilesError = error as Error;
+    }
+
+    try {
+        return { graph: addExplicitHydrogens(parseCondensedFormula(text)), name: text, source: `Formula: ${text}` };
+    } catch (formulaError) {
+        throw new Error(`Could not read "${text}". As SMILES: ${smilesError.message} As a formula: ${(formulaError as Error).message}`);
+    }
+}
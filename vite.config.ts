@@ -12,7 +12,17 @@ export default defineConfig(({ mode }) => {
       plugins: [],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.GEMINI_GENERATION_MODEL': JSON.stringify(env.GEMINI_GENERATION_MODEL || ''),
+        'process.env.GEMINI_CHAT_MODEL': JSON.stringify(env.GEMINI_CHAT_MODEL || ''),
+        'process.env.LOCAL_AI_URL': JSON.stringify(env.LOCAL_AI_URL || ''),
+        'process.env.LOCAL_AI_MODEL': JSON.stringify(env.LOCAL_AI_MODEL || ''),
+        'process.env.LOCAL_AI_KEY': JSON.stringify(env.LOCAL_AI_KEY || ''),
+        'process.env.AI_FIXTURES_URL': JSON.stringify(env.AI_FIXTURES_URL || ''),
+        'process.env.AI_RECORD_FIXTURES': JSON.stringify(env.AI_RECORD_FIXTURES || ''),
+        'process.env.AI_TIMEOUT_SECONDS': JSON.stringify(env.AI_TIMEOUT_SECONDS || ''),
+        'process.env.AI_MAX_RETRIES': JSON.stringify(env.AI_MAX_RETRIES || '')
       },
       resolve: {
         alias: {